@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { AlertCircle, Check, History, Pencil, Save, Tag, Trash2, Upload, X } from "lucide-react";
+import {
+  deleteLocalCalculation,
+  getLocalCalculations,
+  parseTags,
+  saveLocalCalculation,
+  toResultSnapshot,
+  toSavedCalculation,
+  updateLocalCalculation,
+  type SavedCalculation,
+} from "@/lib/calculationHistory";
+import {
+  formatPrice,
+  type CalculationResult,
+  type ContractParams,
+} from "@shared/contractCalculator";
+import { exportHistoryCsv, exportHistoryJson } from "@/lib/exportReport";
+import { EXCHANGE_NAMES, type ExchangeId } from "@shared/exchanges";
+import { ExportMenu } from "@/components/ExportMenu";
+
+interface CalculationHistoryProps {
+  exchange: ExchangeId;
+  symbol: string;
+  params: ContractParams;
+  result: CalculationResult;
+  onLoad: (calculation: SavedCalculation) => void;
+}
+
+// 正在编辑的记录与字段
+interface EditingState {
+  id: number;
+  field: "name" | "tags";
+  value: string;
+}
+
+export function CalculationHistory({
+  exchange,
+  symbol,
+  params,
+  result,
+  onLoad,
+}: CalculationHistoryProps) {
+  const { isAuthenticated } = useAuth();
+  const utils = trpc.useUtils();
+
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [localCalculations, setLocalCalculations] = useState<SavedCalculation[]>(
+    () => getLocalCalculations()
+  );
+
+  // 登录用户使用服务端记录
+  const { data: listData, isLoading } = trpc.calculations.list.useQuery(undefined, {
+    enabled: isAuthenticated && open,
+  });
+  const onMutated = (data: { success: boolean; error?: string }) => {
+    if (!data.success) {
+      setError(data.error ?? "操作失败，请重试");
+      return;
+    }
+    setError(null);
+    utils.calculations.list.invalidate();
+  };
+  const saveMutation = trpc.calculations.save.useMutation({ onSuccess: onMutated });
+  const renameMutation = trpc.calculations.rename.useMutation({ onSuccess: onMutated });
+  const tagMutation = trpc.calculations.tag.useMutation({ onSuccess: onMutated });
+  const deleteMutation = trpc.calculations.delete.useMutation({ onSuccess: onMutated });
+
+  const calculations: SavedCalculation[] = isAuthenticated
+    ? listData?.success
+      ? listData.calculations!.map(toSavedCalculation)
+      : []
+    : localCalculations;
+
+  const defaultName = `${symbol} ${params.positionType === "long" ? "多" : "空"} ${params.leverage}x`;
+
+  const handleSave = () => {
+    const calculation = {
+      name: name.trim() || defaultName,
+      exchange,
+      symbol,
+      tags: parseTags(tagsText),
+      params,
+      result: toResultSnapshot(result),
+    };
+    if (isAuthenticated) {
+      saveMutation.mutate(calculation);
+    } else {
+      setLocalCalculations(saveLocalCalculation(calculation));
+    }
+    setName("");
+    setTagsText("");
+  };
+
+  const handleEditSubmit = () => {
+    if (!editing) return;
+    if (editing.field === "name") {
+      const newName = editing.value.trim();
+      if (!newName) return;
+      if (isAuthenticated) {
+        renameMutation.mutate({ id: editing.id, name: newName });
+      } else {
+        setLocalCalculations(updateLocalCalculation(editing.id, { name: newName }));
+      }
+    } else {
+      const tags = parseTags(editing.value);
+      if (isAuthenticated) {
+        tagMutation.mutate({ id: editing.id, tags });
+      } else {
+        setLocalCalculations(updateLocalCalculation(editing.id, { tags }));
+      }
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (id: number) => {
+    if (isAuthenticated) {
+      deleteMutation.mutate({ id });
+    } else {
+      setLocalCalculations(deleteLocalCalculation(id));
+    }
+  };
+
+  // 登录用户从服务端重新读取，确保载入的是最新保存的参数
+  const handleLoad = async (calculation: SavedCalculation) => {
+    if (isAuthenticated) {
+      setError(null);
+      try {
+        const data = await utils.calculations.get.fetch({ id: calculation.id });
+        if (!data.success) {
+          setError(data.error ?? "载入失败，请重试");
+          return;
+        }
+        onLoad(toSavedCalculation(data.calculation!));
+      } catch (err) {
+        console.error(err);
+        setError("载入失败，请重试");
+        return;
+      }
+    } else {
+      onLoad(calculation);
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+        >
+          <History className="h-4 w-4 mr-2" />
+          历史记录
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="bg-slate-800 border-slate-700 text-white w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">计算历史记录</SheetTitle>
+          <SheetDescription className="text-slate-400">
+            {isAuthenticated
+              ? "记录保存在您的账户中，可在任意设备载入"
+              : "未登录，记录仅保存在当前浏览器中"}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-4">
+          {/* 保存当前计算 */}
+          <div className="space-y-2 bg-slate-700 p-3 rounded-lg border border-slate-600">
+            <Label className="text-slate-300">名称</Label>
+            <Input
+              value={name}
+              placeholder={defaultName}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-slate-800 border-slate-600 text-white"
+            />
+            <Label className="text-slate-300">标签（逗号或空格分隔）</Label>
+            <Input
+              value={tagsText}
+              placeholder="如：波段 高杠杆"
+              onChange={(e) => setTagsText(e.target.value)}
+              className="bg-slate-800 border-slate-600 text-white"
+            />
+            <Button
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="w-full bg-blue-600 hover:bg-blue-700"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              保存当前计算
+            </Button>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* 记录列表 */}
+          {calculations.length > 0 && (
+            <div className="flex justify-end">
+              <ExportMenu
+                size="sm"
+                csv={() => exportHistoryCsv(calculations)}
+                json={() => exportHistoryJson(calculations)}
+              />
+            </div>
+          )}
+          {isAuthenticated && isLoading ? (
+            <p className="text-sm text-slate-400">加载中...</p>
+          ) : calculations.length === 0 ? (
+            <p className="text-sm text-slate-400">暂无保存的计算</p>
+          ) : (
+            <div className="space-y-3 pb-4">
+              {calculations.map((calculation) => {
+                const editingThis = editing?.id === calculation.id ? editing : null;
+                return (
+                  <div
+                    key={calculation.id}
+                    className="bg-slate-700 p-3 rounded-lg border border-slate-600 space-y-2"
+                  >
+                    {editingThis ? (
+                      <div className="flex gap-2">
+                        <Input
+                          autoFocus
+                          value={editingThis.value}
+                          onChange={(e) =>
+                            setEditing({ ...editingThis, value: e.target.value })
+                          }
+                          onKeyDown={(e) => e.key === "Enter" && handleEditSubmit()}
+                          className="bg-slate-800 border-slate-600 text-white h-8"
+                        />
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleEditSubmit}>
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditing(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="font-semibold">{calculation.name}</p>
+                    )}
+                    <p className="text-xs text-slate-400">
+                      {EXCHANGE_NAMES[calculation.exchange] ?? calculation.exchange} ·{" "}
+                      {calculation.symbol} · {calculation.params.positionType === "long" ? "多头" : "空头"}{" "}
+                      {calculation.params.leverage}x · 开仓 {formatPrice(calculation.params.openPrice)} ·
+                      爆仓 {Number.isFinite(calculation.result.liquidationPrice)
+                        ? formatPrice(calculation.result.liquidationPrice)
+                        : "—"}
+                    </p>
+                    {calculation.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {calculation.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-slate-500">
+                        {calculation.updatedAt.toLocaleString("zh-CN")}
+                      </span>
+                      <div className="flex gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          aria-label="载入"
+                          onClick={() => handleLoad(calculation)}
+                        >
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          aria-label="重命名"
+                          onClick={() =>
+                            setEditing({ id: calculation.id, field: "name", value: calculation.name })
+                          }
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          aria-label="编辑标签"
+                          onClick={() =>
+                            setEditing({
+                              id: calculation.id,
+                              field: "tags",
+                              value: calculation.tags.join(" "),
+                            })
+                          }
+                        >
+                          <Tag className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-red-400 hover:text-red-300"
+                          aria-label="删除"
+                          onClick={() => handleDelete(calculation.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2, Plus } from "lucide-react";
+import {
+  formatAmount,
+  formatCurrency,
+  formatPrice,
+} from "@shared/contractCalculator";
+import { LadderBaseParams, LadderFill, planLadder } from "@/lib/dcaPlanner";
+
+interface LadderRow extends LadderFill {
+  id: string;
+}
+
+interface DcaLadderPlannerProps {
+  currentPrice: number;
+  baseParams: LadderBaseParams;
+  marginAsset?: string;
+}
+
+export function DcaLadderPlanner({
+  currentPrice,
+  baseParams,
+  marginAsset = "USD",
+}: DcaLadderPlannerProps) {
+  const direction = baseParams.positionType === "long" ? -1 : 1;
+  const [rows, setRows] = useState<LadderRow[]>(() =>
+    [0, 0.03, 0.06].map((step, index) => ({
+      id: (index + 1).toString(),
+      price: Math.round(currentPrice * (1 + direction * step)),
+      size: index === 2 ? 200 : 100,
+      marginAdded: index === 2 ? 40 : 20,
+    }))
+  );
+
+  const addRow = () => {
+    const newId = Math.max(...rows.map((r) => parseInt(r.id)), 0) + 1;
+    const last = rows[rows.length - 1];
+    setRows([
+      ...rows,
+      {
+        id: newId.toString(),
+        price: Math.round((last?.price ?? currentPrice) * (1 + direction * 0.03)),
+        size: last?.size ?? 100,
+        marginAdded: last?.marginAdded ?? 20,
+      },
+    ]);
+  };
+
+  const deleteRow = (id: string) => {
+    if (rows.length > 1) {
+      setRows(rows.filter((r) => r.id !== id));
+    }
+  };
+
+  const updateRow = (id: string, updates: Partial<LadderFill>) => {
+    setRows(rows.map((r) => (r.id === id ? { ...r, ...updates } : r)));
+  };
+
+  const steps = useMemo(() => planLadder(baseParams, rows), [baseParams, rows]);
+  const formatMargin = (value: number) => formatAmount(value, marginAsset);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-white">分批建仓规划</CardTitle>
+            <CardDescription className="text-slate-400">
+              按计划逐笔加仓，查看每笔成交后的均价、杠杆、爆仓价格和保本价格
+            </CardDescription>
+          </div>
+          <Button
+            onClick={addRow}
+            className="bg-blue-600 hover:bg-blue-700"
+            size="sm"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            添加成交
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* 计划成交 */}
+        <div className="space-y-3">
+          {rows.map((row, index) => (
+            <div
+              key={row.id}
+              className="grid grid-cols-1 md:grid-cols-4 gap-4 bg-slate-700 rounded-lg p-4 border border-slate-600"
+            >
+              <div>
+                <Label className="text-slate-400 text-xs mb-1 block">
+                  第 {index + 1} 笔成交价格
+                </Label>
+                <Input
+                  type="number"
+                  value={row.price}
+                  onChange={(e) =>
+                    updateRow(row.id, { price: parseFloat(e.target.value) || 0 })
+                  }
+                  className="bg-slate-600 border-slate-500 text-white text-sm"
+                  step="100"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-400 text-xs mb-1 block">
+                  加仓名义价值 (USD)
+                </Label>
+                <Input
+                  type="number"
+                  value={row.size}
+                  onChange={(e) =>
+                    updateRow(row.id, { size: parseFloat(e.target.value) || 0 })
+                  }
+                  className="bg-slate-600 border-slate-500 text-white text-sm"
+                  step="10"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-400 text-xs mb-1 block">
+                  追加保证金 ({marginAsset})
+                </Label>
+                <Input
+                  type="number"
+                  value={row.marginAdded}
+                  onChange={(e) =>
+                    updateRow(row.id, {
+                      marginAdded: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className="bg-slate-600 border-slate-500 text-white text-sm"
+                  step="1"
+                />
+              </div>
+              <div className="flex items-end">
+                <Button
+                  onClick={() => deleteRow(row.id)}
+                  variant="destructive"
+                  size="sm"
+                  className="w-full"
+                  disabled={rows.length === 1}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* 逐笔结果 */}
+        <div className="border-t border-slate-600 pt-6">
+          <h3 className="text-white font-semibold mb-4">逐笔累计结果</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-600">
+                  <th className="text-left text-slate-400 py-2 px-3">成交</th>
+                  <th className="text-right text-slate-400 py-2 px-3">均价</th>
+                  <th className="text-right text-slate-400 py-2 px-3">名义价值</th>
+                  <th className="text-right text-slate-400 py-2 px-3">保证金</th>
+                  <th className="text-right text-slate-400 py-2 px-3">实际杠杆</th>
+                  <th className="text-right text-slate-400 py-2 px-3">爆仓价格</th>
+                  <th className="text-right text-slate-400 py-2 px-3">保本价格</th>
+                </tr>
+              </thead>
+              <tbody>
+                {steps.map((step, index) => (
+                  <tr key={rows[index].id} className="border-b border-slate-700">
+                    <td className="text-white py-3 px-3">
+                      #{index + 1} @ {formatPrice(step.fill.price)}
+                    </td>
+                    <td className="text-right text-slate-300 py-3 px-3">
+                      {formatPrice(step.averageEntry)}
+                    </td>
+                    <td className="text-right text-slate-300 py-3 px-3">
+                      {formatCurrency(step.totalNotional)}
+                    </td>
+                    <td className="text-right text-slate-300 py-3 px-3">
+                      {formatMargin(step.totalMargin)}
+                    </td>
+                    <td className="text-right text-yellow-400 py-3 px-3">
+                      {step.effectiveLeverage.toFixed(2)}x
+                    </td>
+                    <td className="text-right py-3 px-3">
+                      <span className={baseParams.positionType === "long" ? "text-red-400" : "text-green-400"}>
+                        {formatPrice(step.liquidationPrice)}
+                      </span>
+                    </td>
+                    <td className="text-right text-slate-300 py-3 px-3">
+                      {formatPrice(step.breakEvenPrice)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertCircle, Copy, FileDown, Link } from "lucide-react";
+import { downloadExportFile } from "@/lib/exportReport";
+import {
+  buildRiskReport,
+  type CalculationExportInput,
+  type ExportFile,
+} from "@shared/riskReport";
+
+interface ExportMenuProps {
+  csv: () => ExportFile<"text/csv">;
+  json: () => ExportFile<"application/json">;
+  report?: () => CalculationExportInput; // 提供时可下载和分享风险报告（PDF）
+  size?: "sm" | "default";
+}
+
+/**
+ * 导出菜单：下载 CSV/JSON 和风险报告，登录后可上传生成分享链接
+ */
+export function ExportMenu({ csv, json, report, size = "default" }: ExportMenuProps) {
+  const { isAuthenticated } = useAuth();
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const onShared = {
+    onSuccess: (data: { success: boolean; url?: string; error?: string }) => {
+      if (data.success) {
+        setShareUrl(data.url!);
+        setError(null);
+      } else {
+        setError(data.error ?? "生成分享链接失败");
+      }
+    },
+    onError: () => setError("生成分享链接失败"),
+  };
+  const shareMutation = trpc.exports.share.useMutation(onShared);
+  // 风险报告只提交计算参数，由服务端重新计算并生成报告
+  const shareReportMutation = trpc.exports.shareReport.useMutation(onShared);
+  const uploading = shareMutation.isPending || shareReportMutation.isPending;
+
+  const resetShare = () => {
+    setCopied(false);
+    setShareUrl(null);
+    setError(null);
+  };
+
+  const share = (build: () => ExportFile<"text/csv" | "application/json">) => {
+    resetShare();
+    shareMutation.mutate(build());
+  };
+
+  const shareReport = (input: CalculationExportInput) => {
+    resetShare();
+    shareReportMutation.mutate({
+      exchange: input.exchange,
+      symbol: input.symbol,
+      marginAsset: input.marginAsset,
+      params: input.params,
+      markPrice: input.markPrice,
+    });
+  };
+
+  const copyUrl = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size={size}
+            className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+            disabled={uploading}
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            {uploading ? "上传中..." : "导出"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => downloadExportFile(csv())}>
+            下载 CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => downloadExportFile(json())}>
+            下载 JSON
+          </DropdownMenuItem>
+          {report && (
+            <DropdownMenuItem onSelect={() => downloadExportFile(buildRiskReport(report()))}>
+              下载风险报告 PDF
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>
+            {isAuthenticated ? "生成分享链接" : "登录后可生成分享链接"}
+          </DropdownMenuLabel>
+          <DropdownMenuItem disabled={!isAuthenticated} onSelect={() => share(csv)}>
+            <Link className="h-4 w-4" />
+            CSV
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!isAuthenticated} onSelect={() => share(json)}>
+            <Link className="h-4 w-4" />
+            JSON
+          </DropdownMenuItem>
+          {report && (
+            <DropdownMenuItem disabled={!isAuthenticated} onSelect={() => shareReport(report())}>
+              <Link className="h-4 w-4" />
+              风险报告
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog
+        open={shareUrl !== null || error !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setShareUrl(null);
+            setError(null);
+          }
+        }}
+      >
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>{shareUrl ? "分享链接已生成" : "导出失败"}</DialogTitle>
+            {shareUrl && (
+              <DialogDescription className="text-slate-400">
+                任何拿到链接的人都可以下载该文件
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {shareUrl && (
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={shareUrl}
+                onFocus={(e) => e.target.select()}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+              <Button onClick={copyUrl} className="bg-blue-600 hover:bg-blue-700">
+                <Copy className="h-4 w-4 mr-2" />
+                {copied ? "已复制" : "复制"}
+              </Button>
+            </div>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
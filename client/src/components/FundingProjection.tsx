@@ -0,0 +1,204 @@
+import { useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ContractParams,
+  formatAmount,
+  formatPercent,
+  formatPrice,
+} from "@shared/contractCalculator";
+import { FundingSource, projectFunding } from "@/lib/fundingProjection";
+import type { ExchangeId } from "@shared/exchanges";
+
+interface FundingProjectionProps {
+  exchange?: ExchangeId;
+  symbol: string;
+  params: ContractParams;
+  marginAsset?: string;
+}
+
+export function FundingProjection({
+  exchange = "binance",
+  symbol,
+  params,
+  marginAsset = "USD",
+}: FundingProjectionProps) {
+  const [source, setSource] = useState<FundingSource>("constant");
+  const [holdingValue, setHoldingValue] = useState<number>(7);
+  const [holdingUnit, setHoldingUnit] = useState<"hours" | "days">("days");
+
+  // 实时数据仅支持U本位合约
+  const liveAvailable = params.contractType !== "inverse";
+  const holdingHours =
+    holdingUnit === "days" ? holdingValue * 24 : holdingValue;
+
+  const { data: currentData } = trpc.exchange.fundingRate.useQuery(
+    { exchange, symbol },
+    { enabled: liveAvailable && !!symbol }
+  );
+  const fundingIntervalHours =
+    currentData?.fundingIntervalHours ?? params.fundingPeriodHours ?? 8;
+  const historyLimit = Math.min(
+    1000,
+    Math.max(1, Math.floor(holdingHours / fundingIntervalHours))
+  );
+  const { data: historyData } = trpc.exchange.fundingHistory.useQuery(
+    { exchange, symbol, limit: historyLimit },
+    { enabled: liveAvailable && source === "history" && !!symbol }
+  );
+
+  const rates = useMemo(() => {
+    if (source === "current" && currentData?.fundingRate !== undefined) {
+      return [currentData.fundingRate];
+    }
+    if (source === "history" && historyData?.history) {
+      return historyData.history.map((h) => h.fundingRate);
+    }
+    return [params.fundingRate ?? 0];
+  }, [source, currentData, historyData, params.fundingRate]);
+
+  const projection = useMemo(
+    () =>
+      projectFunding({
+        params,
+        holdingHours,
+        fundingIntervalHours,
+        rates,
+      }),
+    [params, holdingHours, fundingIntervalHours, rates]
+  );
+  const formatMargin = (value: number) => formatAmount(value, marginAsset);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">资金费用预测</CardTitle>
+        <CardDescription className="text-slate-400">
+          按持仓时长预测资金费支出，以及对保本价格和爆仓缓冲的影响
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label className="text-slate-300 mb-2 block">费率来源</Label>
+            <Select
+              value={source}
+              onValueChange={(v) => setSource(v as FundingSource)}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                <SelectItem value="constant" className="text-white">
+                  固定费率（高级参数）
+                </SelectItem>
+                <SelectItem value="current" className="text-white" disabled={!liveAvailable}>
+                  当前资金费率
+                </SelectItem>
+                <SelectItem value="history" className="text-white" disabled={!liveAvailable}>
+                  历史资金费率回放
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block">持仓时长</Label>
+            <Input
+              type="number"
+              value={holdingValue}
+              onChange={(e) => setHoldingValue(parseFloat(e.target.value) || 0)}
+              className="bg-slate-700 border-slate-600 text-white"
+              step="1"
+              min="0"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block">单位</Label>
+            <Select
+              value={holdingUnit}
+              onValueChange={(v) => setHoldingUnit(v as "hours" | "days")}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                <SelectItem value="hours" className="text-white">
+                  小时
+                </SelectItem>
+                <SelectItem value="days" className="text-white">
+                  天
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-400">
+          {symbol} 每 {fundingIntervalHours} 小时结算一次，持仓期间共 {projection.periods} 次
+          {source === "history" &&
+            historyData?.history &&
+            `，回放最近 ${historyData.history.length} 次历史费率`}
+          {!liveAvailable && "（币本位合约仅支持固定费率）"}
+        </p>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 pt-4 border-t border-slate-700">
+          <div>
+            <p className="text-xs text-slate-400 mb-1">
+              资金费合计（{projection.totalFunding >= 0 ? "支付" : "收取"}）
+            </p>
+            <p className={`text-lg font-semibold ${
+              projection.totalFunding > 0 ? "text-red-400" : "text-green-400"
+            }`}>
+              {formatMargin(Math.abs(projection.totalFunding))}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">平均费率</p>
+            <p className="text-lg font-semibold text-white">
+              {formatPercent(projection.averageRate * 100, 4)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">计入资金费的保本价格</p>
+            <p className="text-lg font-semibold text-white">
+              {formatPrice(projection.breakEvenPrice)}
+            </p>
+            <p className="text-xs text-slate-500">
+              变化 {projection.breakEvenShift >= 0 ? "+" : ""}
+              {formatPrice(projection.breakEvenShift)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">扣除资金费后的爆仓价格</p>
+            <p className="text-lg font-semibold text-yellow-400">
+              {formatPrice(projection.liquidationPriceAfter)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">爆仓缓冲</p>
+            <p className="text-lg font-semibold text-white">
+              {formatMargin(projection.marginBuffer)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">资金费占用缓冲</p>
+            <p className={`text-lg font-semibold ${
+              projection.bufferErosionPercent > 0 ? "text-red-400" : "text-green-400"
+            }`}>
+              {formatPercent(projection.bufferErosionPercent)}
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,327 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Crosshair } from "lucide-react";
+import {
+  formatCurrency,
+  formatPercent,
+  formatPrice,
+  roundToStep,
+} from "@shared/contractCalculator";
+import type { LadderBaseParams } from "@/lib/dcaPlanner";
+import {
+  calculateGridBot,
+  type GridDirection,
+  type GridSpacing,
+} from "@/lib/gridBot";
+
+interface GridBotCalculatorProps {
+  currentPrice: number;
+  baseParams: LadderBaseParams;
+  makerFee: number;
+  takerFee: number;
+  baseAsset: string;
+  priceDecimals?: number;
+  quantityDecimals?: number;
+}
+
+const DIRECTION_LABELS: Record<GridDirection, string> = {
+  long: "做多",
+  short: "做空",
+  neutral: "中性",
+};
+
+const DEFAULT_RANGE = 0.1; // 默认区间：当前价格 ±10%
+
+/**
+ * 合约网格计算器：根据区间、网格数量、投入和杠杆计算每格数量、每格利润和最坏爆仓价格
+ */
+export function GridBotCalculator({
+  currentPrice,
+  baseParams,
+  makerFee,
+  takerFee,
+  baseAsset,
+  priceDecimals,
+  quantityDecimals,
+}: GridBotCalculatorProps) {
+  const tickSize = baseParams.symbolFilters?.tickSize;
+  const roundPrice = (price: number) => (tickSize ? roundToStep(price, tickSize) : Math.round(price));
+  const [lowerPrice, setLowerPrice] = useState(() => roundPrice(currentPrice * (1 - DEFAULT_RANGE)));
+  const [upperPrice, setUpperPrice] = useState(() => roundPrice(currentPrice * (1 + DEFAULT_RANGE)));
+  const [gridCount, setGridCount] = useState(20);
+  const [spacing, setSpacing] = useState<GridSpacing>("arithmetic");
+  const [investment, setInvestment] = useState(1000);
+  const [leverage, setLeverage] = useState(5);
+  const [direction, setDirection] = useState<GridDirection>("neutral");
+
+  const resetRange = () => {
+    setLowerPrice(roundPrice(currentPrice * (1 - DEFAULT_RANGE)));
+    setUpperPrice(roundPrice(currentPrice * (1 + DEFAULT_RANGE)));
+  };
+
+  const inverse = baseParams.contractType === "inverse";
+  const result = useMemo(
+    () =>
+      inverse
+        ? null
+        : calculateGridBot(baseParams, {
+            lowerPrice,
+            upperPrice,
+            gridCount,
+            spacing,
+            investment,
+            leverage,
+            direction,
+            currentPrice,
+            makerFee,
+            takerFee,
+          }),
+    [inverse, baseParams, lowerPrice, upperPrice, gridCount, spacing, investment, leverage, direction, currentPrice, makerFee, takerFee]
+  );
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">合约网格计算器</CardTitle>
+        <CardDescription className="text-slate-400">
+          按价格区间等差或等比划分网格，计算每格数量、扣除挂单手续费（{formatPercent(makerFee * 100, 4)}）后的每格利润，
+          以及价格穿出区间、单边网格全部成交后的最坏爆仓价格
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {inverse ? (
+          <p className="text-sm text-slate-400">网格计算器目前仅支持U本位合约</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">区间下限</Label>
+                <Input
+                  type="number"
+                  value={lowerPrice}
+                  onChange={(e) => setLowerPrice(parseFloat(e.target.value) || 0)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">区间上限</Label>
+                <Input
+                  type="number"
+                  value={upperPrice}
+                  onChange={(e) => setUpperPrice(parseFloat(e.target.value) || 0)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">网格数量</Label>
+                <Input
+                  type="number"
+                  value={gridCount}
+                  min={2}
+                  max={500}
+                  onChange={(e) =>
+                    setGridCount(Math.min(Math.max(parseInt(e.target.value) || 0, 2), 500))
+                  }
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">网格类型</Label>
+                <Select value={spacing} onValueChange={(value) => setSpacing(value as GridSpacing)}>
+                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="arithmetic">等差（固定价差）</SelectItem>
+                    <SelectItem value="geometric">等比（固定比例）</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">投入资金 (USD)</Label>
+                <Input
+                  type="number"
+                  value={investment}
+                  onChange={(e) => setInvestment(parseFloat(e.target.value) || 0)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">杠杆倍数</Label>
+                <Input
+                  type="number"
+                  value={leverage}
+                  min={1}
+                  max={125}
+                  onChange={(e) => setLeverage(parseFloat(e.target.value) || 0)}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+              <div>
+                <Label className="text-slate-300 mb-2 block text-xs">方向</Label>
+                <Select value={direction} onValueChange={(value) => setDirection(value as GridDirection)}>
+                  <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DIRECTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={resetRange}
+                className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+              >
+                <Crosshair className="h-4 w-4 mr-2" />
+                以当前价格 ±10%
+              </Button>
+            </div>
+
+            {!result ? (
+              <p className="text-sm text-slate-400">请输入有效的区间（上限高于下限）、投入资金和杠杆</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                    <p className="text-xs text-slate-400 mb-1">每格数量</p>
+                    <p className="text-xl font-bold text-white">
+                      {formatPrice(result.quantityPerGrid, quantityDecimals ?? 4)} {baseAsset}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      启动时市价成交 {formatPrice(result.initialQuantity, quantityDecimals ?? 4)} {baseAsset}
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-green-900/20 border border-green-700">
+                    <p className="text-xs text-slate-400 mb-1">每格利润（扣除手续费）</p>
+                    <p className="text-xl font-bold text-green-400">
+                      {formatCurrency(result.profitPerGrid.min)} ~ {formatCurrency(result.profitPerGrid.max)}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      利润率 {formatPercent(result.profitPercentPerGrid.min, 3)} ~{" "}
+                      {formatPercent(result.profitPercentPerGrid.max, 3)}（不含杠杆）
+                    </p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                    <p className="text-xs text-slate-400 mb-1">所需保证金</p>
+                    <p className="text-xl font-bold text-white">{formatCurrency(result.requiredMargin)}</p>
+                    <p className="text-xs text-slate-500 mt-1">单边网格全部成交的初始保证金及开仓手续费</p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                    <p className="text-xs text-slate-400 mb-1">网格间距</p>
+                    <p className="text-xl font-bold text-white">
+                      {spacing === "geometric"
+                        ? formatPercent(((upperPrice / lowerPrice) ** (1 / gridCount) - 1) * 100, 3)
+                        : formatPrice((upperPrice - lowerPrice) / gridCount, priceDecimals)}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">{result.prices.length} 个价格档位</p>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {result.worstCases.map((worst) => (
+                    <div key={worst.side} className="p-4 rounded-lg bg-red-900/20 border border-red-700">
+                      <p className="text-sm text-slate-300 mb-2">
+                        价格{worst.side === "long" ? "跌破下限" : "突破上限"}{" "}
+                        {formatPrice(worst.boundPrice, priceDecimals)} 的最坏情况（{worst.side === "long" ? "多" : "空"}头）
+                      </p>
+                      <p className="text-2xl font-bold text-red-400">
+                        爆仓价格 {worst.liquidationPrice > 0 ? formatPrice(worst.liquidationPrice, priceDecimals) : "—"}
+                      </p>
+                      <div className="text-xs text-slate-400 mt-2 space-y-1">
+                        <p>
+                          {worst.liquidatesInRange ? "爆仓时" : "全部成交后"}持仓 {formatPrice(worst.quantity, quantityDecimals ?? 4)}{" "}
+                          {baseAsset} · 均价 {formatPrice(worst.averageEntry, priceDecimals)} · 名义价值{" "}
+                          {formatCurrency(worst.notional)}
+                        </p>
+                        {!worst.liquidatesInRange && (
+                          <p>区间边界处未实现盈亏 {formatCurrency(worst.pnlAtBound)}（不含已实现的网格利润）</p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {result.warnings.length > 0 && (
+                  <div className="space-y-1">
+                    {result.warnings.map((warning) => (
+                      <p key={warning} className="flex items-center gap-2 text-sm text-yellow-400">
+                        <AlertTriangle className="h-4 w-4 shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="border-t border-slate-600 pt-6">
+                  <h3 className="text-white font-semibold mb-4">网格明细</h3>
+                  <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-slate-600">
+                          <th className="text-left text-slate-400 py-2 px-3">网格</th>
+                          <th className="text-right text-slate-400 py-2 px-3">买入价格</th>
+                          <th className="text-right text-slate-400 py-2 px-3">卖出价格</th>
+                          <th className="text-right text-slate-400 py-2 px-3">方向</th>
+                          <th className="text-right text-slate-400 py-2 px-3">每格利润</th>
+                          <th className="text-right text-slate-400 py-2 px-3">利润率</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...result.grids].reverse().map((grid, index) => (
+                          <tr key={grid.buyPrice} className="border-b border-slate-700">
+                            <td className="text-white py-2 px-3">#{result.grids.length - index}</td>
+                            <td className="text-right text-slate-300 py-2 px-3">
+                              {formatPrice(grid.buyPrice, priceDecimals)}
+                            </td>
+                            <td className="text-right text-slate-300 py-2 px-3">
+                              {formatPrice(grid.sellPrice, priceDecimals)}
+                            </td>
+                            <td className="text-right py-2 px-3">
+                              {grid.side === null ? (
+                                <span className="text-slate-500">不挂单</span>
+                              ) : (
+                                <span className={grid.side === "long" ? "text-green-400" : "text-red-400"}>
+                                  {grid.side === "long" ? "多" : "空"}
+                                  {grid.initial && "（市价建仓）"}
+                                </span>
+                              )}
+                            </td>
+                            <td className={`text-right py-2 px-3 ${grid.profit > 0 ? "text-green-400" : "text-red-400"}`}>
+                              {formatCurrency(grid.profit)}
+                            </td>
+                            <td className="text-right text-slate-300 py-2 px-3">
+                              {formatPercent(grid.profitPercent, 3)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-slate-500 mt-3">
+                    启动时的市价成交按吃单费率（{formatPercent(takerFee * 100, 4)}）计算；
+                    爆仓价格以投入资金作为逐仓保证金、按维持保证金分层计算，未计入网格已实现利润和资金费。
+                  </p>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,344 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  formatAmount,
+  formatCurrency,
+  formatPercent,
+  formatPrice,
+} from "@shared/contractCalculator";
+import type { LadderBaseParams } from "@/lib/dcaPlanner";
+import { calculateHedge, type HedgeLeg, type HedgeSide } from "@/lib/hedgeMode";
+import { autoRangePercent, buildPnlCurve } from "@/lib/pnlChart";
+
+interface HedgeModeProps {
+  currentPrice: number;
+  baseParams: LadderBaseParams;
+  baseAsset: string;
+  marginAsset?: string;
+  priceDecimals?: number;
+  quantityDecimals?: number;
+}
+
+const SIDE_LABELS: Record<HedgeSide, string> = { long: "多头", short: "空头" };
+
+const chartConfig = {
+  long: { label: "多头", color: "#22c55e" },
+  short: { label: "空头", color: "#ef4444" },
+  combined: { label: "合并", color: "#60a5fa" },
+} satisfies ChartConfig;
+
+// 爆仓价格为0或无穷大时表示不会爆仓
+const formatLiquidation = (price: number, decimals?: number) =>
+  price > 0 && Number.isFinite(price) ? formatPrice(price, decimals) : "—";
+
+/**
+ * 双向持仓：同一交易对同时持有多空两条腿，查看净敞口、合并盈亏、两种保证金模式下的爆仓价格和平掉一条腿的影响
+ */
+export function HedgeMode({
+  currentPrice,
+  baseParams,
+  baseAsset,
+  marginAsset = "USD",
+  priceDecimals,
+  quantityDecimals,
+}: HedgeModeProps) {
+  const inverse = baseParams.contractType === "inverse";
+  const [legs, setLegs] = useState<Record<HedgeSide, HedgeLeg>>(() => ({
+    long: { openPrice: Math.round(currentPrice * 0.98), margin: inverse ? 0.01 : 100, leverage: 10 },
+    short: { openPrice: Math.round(currentPrice * 1.02), margin: inverse ? 0.01 : 100, leverage: 10 },
+  }));
+  const [walletBalance, setWalletBalance] = useState(
+    () => baseParams.crossAccount?.walletBalance ?? (inverse ? 0.1 : 1000)
+  );
+
+  const updateLeg = (side: HedgeSide, updates: Partial<HedgeLeg>) =>
+    setLegs({ ...legs, [side]: { ...legs[side], ...updates } });
+
+  const hedge = useMemo(
+    () =>
+      calculateHedge({
+        base: {
+          ...baseParams,
+          crossAccount: {
+            walletBalance,
+            otherMaintenanceMargin: baseParams.crossAccount?.otherMaintenanceMargin ?? 0,
+            otherUnrealizedPnl: baseParams.crossAccount?.otherUnrealizedPnl ?? 0,
+          },
+        },
+        long: legs.long,
+        short: legs.short,
+        referencePrice: currentPrice,
+      }),
+    [baseParams, walletBalance, legs, currentPrice]
+  );
+
+  const markers = useMemo(
+    () =>
+      [
+        { key: "isolatedLong", label: "多头逐仓爆仓", price: hedge.long.isolatedLiquidationPrice, color: "#4ade80" },
+        { key: "isolatedShort", label: "空头逐仓爆仓", price: hedge.short.isolatedLiquidationPrice, color: "#f87171" },
+        { key: "crossDown", label: "全仓爆仓", price: hedge.crossLiquidation.down, color: "#facc15" },
+        { key: "crossUp", label: "全仓爆仓", price: hedge.crossLiquidation.up, color: "#facc15" },
+      ].filter((marker) => marker.price > 0 && Number.isFinite(marker.price)),
+    [hedge]
+  );
+
+  const data = useMemo(
+    () =>
+      buildPnlCurve(
+        [
+          { key: "long", result: hedge.long.result },
+          { key: "short", result: hedge.short.result },
+          { key: "combined", result: hedge },
+        ],
+        currentPrice,
+        autoRangePercent(currentPrice, [legs.long.openPrice, legs.short.openPrice, ...markers.map((m) => m.price)])
+      ),
+    [hedge, currentPrice, legs, markers]
+  );
+  const minPrice = data[0]?.price ?? 0;
+  const maxPrice = data[data.length - 1]?.price ?? 0;
+
+  const formatMargin = (value: number) => formatAmount(value, marginAsset);
+  const netLabel =
+    hedge.hedgeRatio >= 99.99 ? "完全对冲" : hedge.netQuantity > 0 ? "净多" : "净空";
+  const combinedPnl = hedge.profitAtPrice(currentPrice);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">双向持仓（对冲模式）</CardTitle>
+        <CardDescription className="text-slate-400">
+          同一交易对同时持有多头和空头，按当前价格 {formatPrice(currentPrice, priceDecimals)} 计算净敞口和盈亏；
+          逐仓时两条腿各自爆仓，全仓时共用钱包余额，盈亏互相抵消
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {(["long", "short"] as const).map((side) => (
+            <div key={side} className="bg-slate-700 rounded-lg p-4 border border-slate-600 space-y-3">
+              <p className={`font-semibold ${side === "long" ? "text-green-400" : "text-red-400"}`}>
+                {SIDE_LABELS[side]}腿
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label className="text-slate-400 text-xs mb-1 block">开仓价格</Label>
+                  <Input
+                    type="number"
+                    value={legs[side].openPrice}
+                    onChange={(e) => updateLeg(side, { openPrice: parseFloat(e.target.value) || 0 })}
+                    className="bg-slate-600 border-slate-500 text-white text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-400 text-xs mb-1 block">保证金 ({marginAsset})</Label>
+                  <Input
+                    type="number"
+                    value={legs[side].margin}
+                    onChange={(e) => updateLeg(side, { margin: parseFloat(e.target.value) || 0 })}
+                    className="bg-slate-600 border-slate-500 text-white text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-slate-400 text-xs mb-1 block">杠杆</Label>
+                  <Input
+                    type="number"
+                    value={legs[side].leverage}
+                    onChange={(e) => updateLeg(side, { leverage: parseFloat(e.target.value) || 0 })}
+                    className="bg-slate-600 border-slate-500 text-white text-sm"
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+          <div className="bg-slate-700 rounded-lg p-4 border border-slate-600 space-y-3">
+            <p className="font-semibold text-white">全仓账户</p>
+            <div>
+              <Label className="text-slate-400 text-xs mb-1 block">钱包余额 ({marginAsset})</Label>
+              <Input
+                type="number"
+                value={walletBalance}
+                onChange={(e) => setWalletBalance(parseFloat(e.target.value) || 0)}
+                className="bg-slate-600 border-slate-500 text-white text-sm"
+              />
+            </div>
+            <p className="text-xs text-slate-500">其他仓位的维持保证金和未实现盈亏取自高级参数</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+            <p className="text-xs text-slate-400 mb-1">净敞口（{netLabel}）</p>
+            <p className="text-xl font-bold text-white">
+              {formatPrice(hedge.netQuantity, quantityDecimals ?? 4)} {baseAsset}
+            </p>
+            <p className="text-xs text-slate-500 mt-1">{formatCurrency(hedge.netNotional)}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+            <p className="text-xs text-slate-400 mb-1">对冲比例</p>
+            <p className="text-xl font-bold text-white">{formatPercent(hedge.hedgeRatio, 1)}</p>
+            <p className="text-xs text-slate-500 mt-1">总名义价值 {formatCurrency(hedge.grossNotional)}</p>
+          </div>
+          <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+            <p className="text-xs text-slate-400 mb-1">合并盈亏</p>
+            <p className={`text-xl font-bold ${combinedPnl >= 0 ? "text-green-400" : "text-red-400"}`}>
+              {formatMargin(combinedPnl)}
+            </p>
+            <p className="text-xs text-slate-500 mt-1">
+              收益率 {formatPercent(hedge.profitPercentAtPrice(currentPrice))}（含手续费）
+            </p>
+          </div>
+          <div className="p-3 rounded-lg bg-yellow-900/20 border border-yellow-700">
+            <p className="text-xs text-slate-400 mb-1">全仓账户爆仓价格</p>
+            <p className="text-xl font-bold text-yellow-400">
+              ↓ {formatLiquidation(hedge.crossLiquidation.down, priceDecimals)}
+            </p>
+            <p className="text-xl font-bold text-yellow-400">
+              ↑ {formatLiquidation(hedge.crossLiquidation.up, priceDecimals)}
+            </p>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-600">
+                <th className="text-left text-slate-400 py-2 px-3">腿</th>
+                <th className="text-right text-slate-400 py-2 px-3">数量</th>
+                <th className="text-right text-slate-400 py-2 px-3">名义价值</th>
+                <th className="text-right text-slate-400 py-2 px-3">当前盈亏</th>
+                <th className="text-right text-slate-400 py-2 px-3">逐仓爆仓价格</th>
+                <th className="text-right text-slate-400 py-2 px-3">全仓爆仓价格</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[hedge.long, hedge.short].map((leg) => (
+                <tr key={leg.side} className="border-b border-slate-700">
+                  <td className={`py-3 px-3 ${leg.side === "long" ? "text-green-400" : "text-red-400"}`}>
+                    {SIDE_LABELS[leg.side]}
+                  </td>
+                  <td className="text-right text-slate-300 py-3 px-3">
+                    {formatPrice(leg.result.positionSizeInCoin, quantityDecimals ?? 4)} {baseAsset}
+                  </td>
+                  <td className="text-right text-slate-300 py-3 px-3">
+                    {formatCurrency(leg.result.positionSize)}
+                  </td>
+                  <td className={`text-right py-3 px-3 ${leg.unrealizedPnl >= 0 ? "text-green-400" : "text-red-400"}`}>
+                    {formatMargin(leg.unrealizedPnl)}
+                  </td>
+                  <td className="text-right text-slate-300 py-3 px-3">
+                    {formatLiquidation(leg.isolatedLiquidationPrice, priceDecimals)}
+                  </td>
+                  <td className="text-right text-yellow-400 py-3 px-3">
+                    {formatLiquidation(leg.crossLiquidationPrice, priceDecimals)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {hedge.closeEffects.map((effect) => (
+            <div key={effect.closedSide} className="p-4 rounded-lg bg-slate-700 border border-slate-600 space-y-1">
+              <p className="text-sm font-semibold text-white">按当前价格平掉{SIDE_LABELS[effect.closedSide]}</p>
+              <p className="text-xs text-slate-400">
+                已实现盈亏{" "}
+                <span className={effect.realizedPnl >= 0 ? "text-green-400" : "text-red-400"}>
+                  {formatMargin(effect.realizedPnl)}
+                </span>
+                ，计入全仓钱包余额
+              </p>
+              <p className="text-xs text-slate-400">
+                剩余{SIDE_LABELS[effect.remainingSide]}敞口 {formatPrice(Math.abs(effect.netQuantity), quantityDecimals ?? 4)}{" "}
+                {baseAsset}（{formatCurrency(Math.abs(effect.netNotional))}），不再有对冲保护
+              </p>
+              <p className="text-xs text-slate-400">
+                全仓爆仓价格{" "}
+                {formatLiquidation(
+                  effect.remainingSide === "long" ? hedge.crossLiquidation.down : hedge.crossLiquidation.up,
+                  priceDecimals
+                )}{" "}
+                →{" "}
+                <span className="text-yellow-400">{formatLiquidation(effect.crossLiquidationPrice, priceDecimals)}</span>
+                ；逐仓爆仓价格不变
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+          <LineChart data={data} margin={{ top: 24, right: 16, left: 8, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis
+              dataKey="price"
+              type="number"
+              domain={[minPrice, maxPrice]}
+              tickFormatter={(value: number) => formatPrice(value, priceDecimals)}
+              tickLine={false}
+            />
+            <YAxis
+              width={80}
+              tickFormatter={(value: number) => formatAmount(value, marginAsset, marginAsset === "USD" ? 0 : 4)}
+              tickLine={false}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) =>
+                    `价格 ${formatPrice(payload?.[0]?.payload?.price ?? 0, priceDecimals)}`
+                  }
+                  formatter={(value, name) => (
+                    <span className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {chartConfig[name as keyof typeof chartConfig]?.label}
+                      </span>
+                      <span className="font-mono">{formatMargin(Number(value))}</span>
+                    </span>
+                  )}
+                />
+              }
+            />
+            <ReferenceLine y={0} stroke="#64748b" />
+            <ReferenceLine
+              x={currentPrice}
+              stroke="#e2e8f0"
+              strokeDasharray="4 4"
+              label={{ value: "当前", position: "top", fill: "#e2e8f0", fontSize: 11 }}
+            />
+            {markers.map((marker, index) => (
+              <ReferenceLine
+                key={marker.key}
+                x={marker.price}
+                stroke={marker.color}
+                strokeDasharray="4 4"
+                ifOverflow="hidden"
+                label={{
+                  value: marker.label,
+                  position: index % 2 === 0 ? "insideBottom" : "top",
+                  fill: marker.color,
+                  fontSize: 11,
+                }}
+              />
+            ))}
+            <Line dataKey="long" stroke="var(--color-long)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line dataKey="short" stroke="var(--color-short)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line dataKey="combined" stroke="var(--color-combined)" strokeWidth={2.5} dot={false} isAnimationActive={false} />
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,340 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Dices } from "lucide-react";
+import {
+  formatPercent,
+  formatPrice,
+  type ContractType,
+} from "@shared/contractCalculator";
+import {
+  estimateVolatility,
+  simulateHitProbabilities,
+  VOLATILITY_INTERVAL_HOURS,
+  type SimulationResult,
+  type VolatilityInterval,
+} from "@/lib/liquidationProbability";
+import type { ExchangeId } from "@shared/exchanges";
+
+interface LiquidationProbabilityProps {
+  exchange: ExchangeId;
+  symbol: string;
+  contractType: ContractType;
+  baseAsset: string;
+  startPrice: number; // 当前标记价格（没有时为开仓价格）
+  positionType: "long" | "short";
+  liquidationPrice: number;
+  stopLossPrice?: number;
+  targetPrice?: number;
+  priceDecimals?: number;
+}
+
+const HORIZONS = [
+  { hours: 4, label: "4小时" },
+  { hours: 24, label: "1天" },
+  { hours: 72, label: "3天" },
+  { hours: 168, label: "7天" },
+  { hours: 720, label: "30天" },
+];
+
+const KLINE_LIMIT = 500;
+const PATHS = 5000;
+
+const chartConfig = {
+  liquidation: { label: "爆仓", color: "#ef4444" },
+  stopLoss: { label: "止损", color: "#f97316" },
+  target: { label: "目标", color: "#22c55e" },
+} satisfies ChartConfig;
+
+// 运行模拟时使用的参数，与结果一起显示
+interface SimulationRun {
+  result: SimulationResult;
+  startPrice: number;
+  positionType: "long" | "short";
+  liquidationPrice: number;
+  stopLossPrice?: number;
+  targetPrice?: number;
+  horizonHours: number;
+  seed: number;
+}
+
+// 价格是否作为模拟中的触及价格（0 或无穷大表示不会触及）
+const isBarrier = (price?: number): price is number =>
+  price !== undefined && price > 0 && isFinite(price);
+
+/**
+ * 爆仓概率：用历史波动率模拟价格路径，估算在一段时间内触及爆仓、止损或目标价格的概率
+ */
+export function LiquidationProbability({
+  exchange,
+  symbol,
+  contractType,
+  baseAsset,
+  startPrice,
+  positionType,
+  liquidationPrice,
+  stopLossPrice,
+  targetPrice,
+  priceDecimals,
+}: LiquidationProbabilityProps) {
+  const [klineInterval, setKlineInterval] = useState<VolatilityInterval>("1h");
+  const [horizonHours, setHorizonHours] = useState(24);
+  const [seed, setSeed] = useState(42);
+  const [run, setRun] = useState<SimulationRun | null>(null);
+
+  // 其他交易所没有K线接口，以币安同币种U本位合约的波动率近似
+  const klineSymbol = exchange === "binance" ? symbol : `${baseAsset}USDT`;
+  const market = exchange === "binance" && contractType === "inverse" ? "coinm" : "usdm";
+  const { data: klineData, isLoading } = trpc.binance.klines.useQuery(
+    { symbol: klineSymbol, interval: klineInterval, limit: KLINE_LIMIT, market },
+    { enabled: !!klineSymbol, staleTime: 5 * 60 * 1000 }
+  );
+
+  const volatility = useMemo(
+    () =>
+      klineData?.success
+        ? estimateVolatility(
+            klineData.klines!.map((k) => k.close),
+            VOLATILITY_INTERVAL_HOURS[klineInterval]
+          )
+        : null,
+    [klineData, klineInterval]
+  );
+
+  const simulate = () => {
+    if (!volatility || startPrice <= 0) return;
+    setRun({
+      result: simulateHitProbabilities({
+        startPrice,
+        positionType,
+        liquidationPrice,
+        stopLossPrice,
+        targetPrice,
+        hourlyVolatility: volatility.hourlyVolatility,
+        horizonHours,
+        paths: PATHS,
+        seed,
+      }),
+      startPrice,
+      positionType,
+      liquidationPrice,
+      stopLossPrice,
+      targetPrice,
+      horizonHours,
+      seed,
+    });
+  };
+
+  // 波动率更新（切换交易对或K线周期）后自动重新模拟；其余参数变化时手动运行，避免实时价格频繁触发
+  useEffect(() => {
+    simulate();
+  }, [volatility]);
+
+  const probabilities = run?.result.probabilities;
+  // 起始价格跟随实时价格变化，不视为过期；其余参数与上次运行不同时结果已过期
+  const stale =
+    run !== null &&
+    (run.positionType !== positionType ||
+      run.liquidationPrice !== liquidationPrice ||
+      run.stopLossPrice !== stopLossPrice ||
+      run.targetPrice !== targetPrice ||
+      run.horizonHours !== horizonHours ||
+      run.seed !== seed);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">爆仓概率估算</CardTitle>
+        <CardDescription className="text-slate-400">
+          按最近 {KLINE_LIMIT} 根K线的已实现波动率模拟 {PATHS} 条价格路径（零漂移），统计到期前先触及各价格的概率
+          {exchange !== "binance" && `；波动率取自币安 ${klineSymbol}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label className="text-slate-300 mb-2 block text-xs">K线周期</Label>
+            <Select value={klineInterval} onValueChange={(value) => setKlineInterval(value as VolatilityInterval)}>
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(VOLATILITY_INTERVAL_HOURS).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {key}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block text-xs">模拟时长</Label>
+            <Select
+              value={horizonHours.toString()}
+              onValueChange={(value) => setHorizonHours(parseInt(value))}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HORIZONS.map((h) => (
+                  <SelectItem key={h.hours} value={h.hours.toString()}>
+                    {h.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block text-xs">随机种子</Label>
+            <Input
+              type="number"
+              value={seed}
+              onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+          <Button
+            onClick={simulate}
+            disabled={!volatility}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Dices className="h-4 w-4 mr-2" />
+            运行模拟
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-slate-400">正在获取K线...</p>
+        ) : !volatility ? (
+          <p className="text-sm text-slate-400">
+            {klineData?.success ? "K线数量不足，无法估算波动率" : "获取K线失败，无法估算波动率"}
+          </p>
+        ) : (
+          <p className="text-xs text-slate-400">
+            年化波动率 {formatPercent(volatility.annualizedVolatility * 100)} · 每小时{" "}
+            {formatPercent(volatility.hourlyVolatility * 100, 3)}（{volatility.samples} 个 {klineInterval} 收益率样本
+            {klineData?.success && !klineData.complete && "，部分K线获取失败，样本不完整"}）
+          </p>
+        )}
+
+        {run && probabilities && (
+          <div className={stale ? "space-y-4 opacity-60" : "space-y-4"}>
+            {stale && (
+              <p className="text-xs text-amber-400">
+                参数已修改，以下结果基于上次运行时的价格和时长，请重新运行模拟
+              </p>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 rounded-lg bg-red-900/20 border border-red-700">
+                <p className="text-xs text-slate-400 mb-1">先触及爆仓</p>
+                <p className="text-xl font-bold text-red-400">
+                  {isBarrier(run.liquidationPrice) ? formatPercent(probabilities.liquidation) : "—"}
+                </p>
+                {isBarrier(run.liquidationPrice) && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {formatPrice(run.liquidationPrice, priceDecimals)}
+                  </p>
+                )}
+              </div>
+              <div className="p-3 rounded-lg bg-orange-900/20 border border-orange-700">
+                <p className="text-xs text-slate-400 mb-1">先触及止损</p>
+                <p className="text-xl font-bold text-orange-400">
+                  {isBarrier(run.stopLossPrice) ? formatPercent(probabilities.stopLoss) : "—"}
+                </p>
+                {isBarrier(run.stopLossPrice) && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {formatPrice(run.stopLossPrice, priceDecimals)}
+                  </p>
+                )}
+              </div>
+              <div className="p-3 rounded-lg bg-green-900/20 border border-green-700">
+                <p className="text-xs text-slate-400 mb-1">先触及目标</p>
+                <p className="text-xl font-bold text-green-400">
+                  {isBarrier(run.targetPrice) ? formatPercent(probabilities.target) : "—"}
+                </p>
+                {isBarrier(run.targetPrice) && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {formatPrice(run.targetPrice, priceDecimals)}
+                  </p>
+                )}
+              </div>
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                <p className="text-xs text-slate-400 mb-1">到期均未触及</p>
+                <p className="text-xl font-bold text-white">{formatPercent(probabilities.none)}</p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+              <LineChart data={run.result.timeline} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  dataKey="hours"
+                  type="number"
+                  domain={[0, run.horizonHours]}
+                  tickFormatter={(value: number) => `${Math.round(value)}h`}
+                  tickLine={false}
+                />
+                <YAxis width={48} tickFormatter={(value: number) => `${value}%`} tickLine={false} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        `${(payload?.[0]?.payload?.hours ?? 0).toFixed(1)} 小时内累计概率`
+                      }
+                      formatter={(value, name) => (
+                        <span className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {chartConfig[name as keyof typeof chartConfig]?.label}
+                          </span>
+                          <span className="font-mono">{formatPercent(Number(value))}</span>
+                        </span>
+                      )}
+                    />
+                  }
+                />
+                {isBarrier(run.liquidationPrice) && (
+                  <Line dataKey="liquidation" stroke="var(--color-liquidation)" dot={false} isAnimationActive={false} />
+                )}
+                {isBarrier(run.stopLossPrice) && (
+                  <Line dataKey="stopLoss" stroke="var(--color-stopLoss)" dot={false} isAnimationActive={false} />
+                )}
+                {isBarrier(run.targetPrice) && (
+                  <Line dataKey="target" stroke="var(--color-target)" dot={false} isAnimationActive={false} />
+                )}
+                <ChartLegend content={<ChartLegendContent />} />
+              </LineChart>
+            </ChartContainer>
+
+            <p className="text-xs text-slate-500">
+              {run.positionType === "long" ? "多头" : "空头"} · 起始价格 {formatPrice(run.startPrice, priceDecimals)} ·
+              时长 {run.horizonHours} 小时 · 种子 {run.seed} · 到期价格 90% 区间{" "}
+              {formatPrice(run.result.terminalPrice.p5, priceDecimals)} ~{" "}
+              {formatPrice(run.result.terminalPrice.p95, priceDecimals)}。
+              模拟假设收益率服从正态分布，会低估极端行情（跳空、插针）的概率，仅供参考。
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  calculateContract,
+  formatAmount,
+  formatPercent,
+  formatPrice,
+  type CalculationResult,
+  type ContractParams,
+} from "@shared/contractCalculator";
+import {
+  autoRangePercent,
+  buildPnlCurve,
+  metricKey,
+  type PnlMetric,
+  type PnlSeries,
+} from "@/lib/pnlChart";
+import { comparisonParams, type Position } from "@/components/PositionComparison";
+import type { RiskLevels } from "@/components/RiskPlanner";
+
+interface PnlChartProps {
+  symbol: string;
+  params: ContractParams;
+  result: CalculationResult;
+  targetPrice: number;
+  riskLevels: RiskLevels;
+  positions: Position[]; // 多仓位对比中的仓位，叠加显示在同一坐标轴上
+  marginAsset?: string;
+  priceDecimals?: number;
+}
+
+// 曲线（带名称和颜色）
+interface NamedSeries extends PnlSeries {
+  name: string;
+  color: string;
+}
+
+// 价格标记线
+interface PriceMarker {
+  key: string;
+  label: string;
+  price: number;
+  color: string;
+}
+
+const CURRENT_COLOR = "#60a5fa";
+const COMPARISON_COLORS = ["#f59e0b", "#a78bfa", "#34d399", "#f472b6", "#22d3ee", "#fb923c"];
+
+interface PnlTooltipProps {
+  active?: boolean;
+  label?: number;
+  series: NamedSeries[];
+  marginAsset: string;
+  priceDecimals?: number;
+}
+
+// 悬停提示：按悬停位置的价格直接计算各曲线的盈亏和收益率
+function PnlTooltip({ active, label, series, marginAsset, priceDecimals }: PnlTooltipProps) {
+  if (!active || label === undefined) {
+    return null;
+  }
+  return (
+    <div className="border-border/50 bg-background grid min-w-[12rem] gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">价格 {formatPrice(label, priceDecimals)}</div>
+      {series.map(({ key, name, color, result }) => {
+        const profit = result.profitAtPrice(label);
+        return (
+          <div key={key} className="flex items-center gap-2">
+            <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: color }} />
+            <span className="text-muted-foreground flex-1">{name}</span>
+            <span
+              className={`font-mono tabular-nums ${profit >= 0 ? "text-green-500" : "text-red-500"}`}
+            >
+              {formatAmount(profit, marginAsset)} ({formatPercent(result.profitPercentAtPrice(label))})
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * 盈亏曲线：盈亏金额或收益率随价格的变化，标出开仓、保本、爆仓、目标和止损止盈价格
+ */
+export function PnlChart({
+  symbol,
+  params,
+  result,
+  targetPrice,
+  riskLevels,
+  positions,
+  marginAsset = "USD",
+  priceDecimals,
+}: PnlChartProps) {
+  const [metric, setMetric] = useState<PnlMetric>("pnl");
+  const [rangePercent, setRangePercent] = useState<number | null>(null); // null 表示自动
+  const [showComparison, setShowComparison] = useState(true);
+
+  // 其他交易对的仓位价格不在同一坐标轴上，不叠加显示
+  const comparable = useMemo(
+    () => positions.filter((p) => !p.symbol || p.symbol === symbol),
+    [positions, symbol]
+  );
+  const hiddenCount = positions.length - comparable.length;
+
+  const series = useMemo<NamedSeries[]>(
+    () => [
+      { key: "current", name: "当前计算", color: CURRENT_COLOR, result },
+      ...(showComparison
+        ? comparable.map((p, index) => ({
+            key: `position_${p.id}`,
+            name: p.name,
+            color: COMPARISON_COLORS[index % COMPARISON_COLORS.length],
+            result: calculateContract(comparisonParams(p)),
+          }))
+        : []),
+    ],
+    [result, showComparison, comparable]
+  );
+
+  const markers = useMemo<PriceMarker[]>(() => {
+    const list: PriceMarker[] = [
+      { key: "entry", label: "开仓", price: params.openPrice, color: "#e2e8f0" },
+      { key: "breakEven", label: "保本", price: result.breakEvenPrice, color: "#facc15" },
+    ];
+    if (result.liquidationPrice > 0) {
+      list.push({ key: "liquidation", label: "爆仓", price: result.liquidationPrice, color: "#ef4444" });
+    }
+    if (targetPrice > 0) {
+      list.push({ key: "target", label: "目标", price: targetPrice, color: "#22c55e" });
+    }
+    if (riskLevels.stopLossPrice > 0) {
+      list.push({ key: "stopLoss", label: "止损", price: riskLevels.stopLossPrice, color: "#f97316" });
+    }
+    riskLevels.takeProfits
+      .filter((tp) => tp.price > 0)
+      .forEach((tp, index) =>
+        list.push({ key: `takeProfit_${tp.id}`, label: `止盈${index + 1}`, price: tp.price, color: "#4ade80" })
+      );
+    return list;
+  }, [params.openPrice, result, targetPrice, riskLevels]);
+
+  const autoRange = autoRangePercent(params.openPrice, markers.map((m) => m.price));
+  const effectiveRange = rangePercent ?? autoRange;
+
+  const data = useMemo(
+    () => buildPnlCurve(series, params.openPrice, effectiveRange),
+    [series, params.openPrice, effectiveRange]
+  );
+
+  const chartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        series.flatMap(({ key, name, color }) => [
+          [key, { label: name, color }],
+          [`${key}_roe`, { label: name, color }],
+        ])
+      ),
+    [series]
+  );
+
+  const minPrice = data[0]?.price ?? 0;
+  const maxPrice = data[data.length - 1]?.price ?? 0;
+  const isLong = params.positionType === "long";
+  const liquidation = result.liquidationPrice;
+  const showLiquidationZone =
+    liquidation > 0 && (isLong ? liquidation > minPrice : liquidation < maxPrice);
+
+  const formatAxisValue = (value: number) =>
+    metric === "roe" ? `${value.toFixed(0)}%` : formatAmount(value, marginAsset, marginAsset === "USD" ? 0 : 4);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">盈亏曲线</CardTitle>
+        <CardDescription className="text-slate-400">
+          不同平仓价格下的盈亏（含手续费和已累计资金费），悬停查看该价格的盈亏金额和收益率
+          {hiddenCount > 0 && `；${hiddenCount} 个其他交易对的对比仓位未显示`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <Tabs value={metric} onValueChange={(value) => setMetric(value as PnlMetric)}>
+            <TabsList className="bg-slate-700">
+              <TabsTrigger value="pnl" className="text-slate-300">
+                盈亏金额
+              </TabsTrigger>
+              <TabsTrigger value="roe" className="text-slate-300">
+                收益率
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div>
+            <Label className="text-slate-300 mb-2 block text-xs">价格范围 ±%</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                value={effectiveRange}
+                min={5}
+                max={95}
+                onChange={(e) => setRangePercent(parseFloat(e.target.value) || 0)}
+                className="bg-slate-700 border-slate-600 text-white w-24"
+              />
+              <Button
+                variant="outline"
+                disabled={rangePercent === null}
+                onClick={() => setRangePercent(null)}
+                className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+              >
+                自动
+              </Button>
+            </div>
+          </div>
+          {positions.length > 0 && (
+            <div className="flex items-center gap-2 pb-2">
+              <Switch checked={showComparison} onCheckedChange={setShowComparison} />
+              <Label className="text-slate-300">叠加对比仓位</Label>
+            </div>
+          )}
+        </div>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-[360px] w-full">
+          <LineChart data={data} margin={{ top: 24, right: 16, left: 8, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis
+              dataKey="price"
+              type="number"
+              domain={[minPrice, maxPrice]}
+              tickFormatter={(value: number) => formatPrice(value, priceDecimals)}
+              tickLine={false}
+            />
+            <YAxis width={80} tickFormatter={formatAxisValue} tickLine={false} />
+            <ChartTooltip
+              content={
+                <PnlTooltip series={series} marginAsset={marginAsset} priceDecimals={priceDecimals} />
+              }
+            />
+            {showLiquidationZone && (
+              <ReferenceArea
+                x1={isLong ? minPrice : liquidation}
+                x2={isLong ? liquidation : maxPrice}
+                fill="#ef4444"
+                fillOpacity={0.08}
+                ifOverflow="hidden"
+              />
+            )}
+            <ReferenceLine y={0} stroke="#64748b" />
+            {markers.map((marker, index) => (
+              <ReferenceLine
+                key={marker.key}
+                x={marker.price}
+                stroke={marker.color}
+                strokeDasharray="4 4"
+                label={{
+                  value: marker.label,
+                  // 相邻标记交替上下放置，避免价格接近时文字重叠
+                  position: index % 2 === 0 ? "top" : "insideBottom",
+                  fill: marker.color,
+                  fontSize: 11,
+                }}
+              />
+            ))}
+            {series.map(({ key, color }) => (
+              <Line
+                key={key}
+                dataKey={metricKey(key, metric)}
+                stroke={color}
+                strokeWidth={key === "current" ? 2.5 : 1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { History, Loader2 } from "lucide-react";
+import {
+  formatAmount,
+  formatPercent,
+  formatPrice,
+  type ContractParams,
+} from "@shared/contractCalculator";
+import {
+  backtestKlineSegments,
+  chooseBacktestInterval,
+  runBacktest,
+  type BacktestInterval,
+  type BacktestResult,
+} from "@/lib/backtest";
+import type { ExchangeId } from "@shared/exchanges";
+
+interface PositionBacktestProps {
+  exchange: ExchangeId;
+  symbol: string;
+  baseAsset: string;
+  params: ContractParams;
+  marginAsset?: string;
+  priceDecimals?: number;
+}
+
+// 回测结果及运行时使用的K线周期
+interface BacktestRun {
+  result: BacktestResult;
+  interval: BacktestInterval;
+  entryTime: number;
+  exitTime: number;
+  fundingWarning?: string; // 资金费率缺失或不完整时的提示
+}
+
+const MAX_FUNDING_ENTRIES = 10000;
+
+const chartConfig = {
+  pnl: { label: "盈亏", color: "#60a5fa" },
+} satisfies ChartConfig;
+
+// datetime-local 输入框使用本地时间，格式 YYYY-MM-DDTHH:mm
+function toLocalInput(time: number): string {
+  const date = new Date(time);
+  return new Date(time - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString("zh-CN", { hour12: false });
+}
+
+/**
+ * 历史回测：假设在过去某个时间按当前参数开仓，回放标记价格K线，查看是否爆仓以及期间的最大不利/有利波动
+ */
+export function PositionBacktest({
+  exchange,
+  symbol,
+  baseAsset,
+  params,
+  marginAsset = "USD",
+  priceDecimals,
+}: PositionBacktestProps) {
+  const utils = trpc.useUtils();
+  const [entryInput, setEntryInput] = useState(() => toLocalInput(Date.now() - 7 * 86_400_000));
+  const [exitInput, setExitInput] = useState(() => toLocalInput(Date.now()));
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [run, setRun] = useState<BacktestRun | null>(null);
+
+  // 其他交易所没有K线接口，以币安同币种U本位合约近似；币本位合约的资金费率同样取U本位合约
+  const inverse = params.contractType === "inverse";
+  const klineSymbol = exchange === "binance" ? symbol : `${baseAsset}USDT`;
+  const market = exchange === "binance" && inverse ? "coinm" : "usdm";
+  const fundingSymbol = exchange === "binance" && !inverse ? symbol : `${baseAsset}USDT`;
+
+  const runTest = async () => {
+    setError(null);
+    const entryTime = new Date(entryInput).getTime();
+    const exitTime = new Date(exitInput).getTime();
+    if (!Number.isFinite(entryTime) || !Number.isFinite(exitTime) || entryTime >= exitTime) {
+      setError("平仓时间必须晚于开仓时间");
+      return;
+    }
+    if (exitTime > Date.now()) {
+      setError("平仓时间不能晚于当前时间");
+      return;
+    }
+    const interval = chooseBacktestInterval(entryTime, exitTime);
+    setRunning(true);
+    try {
+      // 首尾不足一根的部分使用1分钟K线，避免计入开仓前或漏掉平仓前的价格波动
+      const segments = backtestKlineSegments(entryTime, exitTime, interval);
+      const [klineResults, fundingData] = await Promise.all([
+        Promise.all(
+          segments.map((segment) =>
+            utils.binance.klines.fetch({
+              symbol: klineSymbol,
+              interval: segment.interval,
+              market,
+              priceType: "mark",
+              startTime: segment.startTime,
+              endTime: segment.endTime,
+            })
+          )
+        ),
+        utils.exchange.fundingHistory.fetch({
+          exchange: "binance",
+          symbol: fundingSymbol,
+          limit: MAX_FUNDING_ENTRIES,
+          startTime: entryTime,
+          endTime: exitTime,
+        }),
+      ]);
+      const failed = klineResults.find((data) => !data.success);
+      if (failed) {
+        setError(failed.error ?? "获取K线失败");
+        return;
+      }
+      // K线缺少后半段时可能漏判爆仓，不使用不完整的数据回测
+      if (klineResults.some((data) => !data.complete)) {
+        setError("部分K线获取失败，数据不完整，请稍后重试");
+        return;
+      }
+      // 资金费率获取失败时仍按K线回测，但在结果中提示资金费未计入或不完整
+      let fundingWarning: string | undefined;
+      if (!fundingData.success) {
+        fundingWarning = "资金费率获取失败，回测结果未计入资金费";
+      } else {
+        const expected = Math.floor(
+          (exitTime - entryTime) / (fundingData.fundingIntervalHours! * 3_600_000)
+        );
+        if (fundingData.history!.length < expected) {
+          fundingWarning = `资金费率记录不完整（取得 ${fundingData.history!.length} 次，按当前结算周期应有约 ${expected} 次），支付资金费可能偏低`;
+        }
+      }
+      const result = runBacktest({
+        params,
+        klines: klineResults.flatMap((data) => data.klines!),
+        fundingRates: fundingData.success ? fundingData.history! : [],
+        entryTime,
+        exitTime,
+      });
+      if (!result) {
+        setError("所选时间段没有K线数据");
+        return;
+      }
+      setRun({ result, interval, entryTime, exitTime, fundingWarning });
+    } catch (err) {
+      console.error(err);
+      setError("回测失败");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const result = run?.result;
+  const pnlClass = (value: number) => (value >= 0 ? "text-green-400" : "text-red-400");
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">历史回测</CardTitle>
+        <CardDescription className="text-slate-400">
+          按当前的保证金、杠杆和费率在过去某个时间开仓，用标记价格K线回放到平仓时间，检查是否会爆仓
+          {klineSymbol !== symbol && `；K线取自币安 ${klineSymbol}`}
+          {fundingSymbol !== symbol && `；资金费率取自币安 ${fundingSymbol}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label className="text-slate-300 mb-2 block text-xs">开仓时间</Label>
+            <Input
+              type="datetime-local"
+              value={entryInput}
+              onChange={(e) => setEntryInput(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block text-xs">平仓时间</Label>
+            <Input
+              type="datetime-local"
+              value={exitInput}
+              onChange={(e) => setExitInput(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+          <Button
+            onClick={runTest}
+            disabled={running || params.margin <= 0 || params.leverage <= 0}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {running ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <History className="h-4 w-4 mr-2" />
+            )}
+            运行回测
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {run && result && (
+          <>
+            {run.fundingWarning && (
+              <p className="text-sm text-amber-400">{run.fundingWarning}</p>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                <p className="text-xs text-slate-400 mb-1">开仓价格</p>
+                <p className="text-xl font-bold text-white">{formatPrice(result.entryPrice, priceDecimals)}</p>
+                <p className="text-xs text-slate-500 mt-1">
+                  爆仓价格 {result.liquidationPrice > 0 ? formatPrice(result.liquidationPrice, priceDecimals) : "—"}
+                </p>
+              </div>
+              <div
+                className={`p-3 rounded-lg border ${
+                  result.liquidated ? "bg-red-900/20 border-red-700" : "bg-green-900/20 border-green-700"
+                }`}
+              >
+                <p className="text-xs text-slate-400 mb-1">是否爆仓</p>
+                <p className={`text-xl font-bold ${result.liquidated ? "text-red-400" : "text-green-400"}`}>
+                  {result.liquidated ? "已爆仓" : "未爆仓"}
+                </p>
+                {result.liquidationTime !== undefined && (
+                  <p className="text-xs text-slate-400 mt-1">{formatTime(result.liquidationTime)}</p>
+                )}
+              </div>
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                <p className="text-xs text-slate-400 mb-1">最大不利波动</p>
+                <p className="text-xl font-bold text-red-400">{formatPercent(result.mae.percent)}</p>
+                <p className="text-xs text-slate-500 mt-1">
+                  {formatPrice(result.mae.price, priceDecimals)} · {formatAmount(result.mae.pnl, marginAsset)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                <p className="text-xs text-slate-400 mb-1">最大有利波动</p>
+                <p className="text-xl font-bold text-green-400">{formatPercent(result.mfe.percent)}</p>
+                <p className="text-xs text-slate-500 mt-1">
+                  {formatPrice(result.mfe.price, priceDecimals)} · {formatAmount(result.mfe.pnl, marginAsset)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                <p className="text-xs text-slate-400 mb-1">支付资金费</p>
+                <p className={`text-xl font-bold ${pnlClass(-result.fundingPaid)}`}>
+                  {formatAmount(result.fundingPaid, marginAsset)}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">共 {result.fundingEvents} 次结算</p>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600">
+                <p className="text-xs text-slate-400 mb-1">{result.liquidated ? "爆仓" : "平仓"}盈亏</p>
+                <p className={`text-xl font-bold ${pnlClass(result.exitPnl)}`}>
+                  {formatAmount(result.exitPnl, marginAsset)}
+                </p>
+                <p className={`text-xs mt-1 ${pnlClass(result.exitPnl)}`}>
+                  收益率 {formatPercent(result.exitPnlPercent)}
+                </p>
+              </div>
+              <div className="p-3 rounded-lg bg-slate-700 border border-slate-600 col-span-2">
+                <p className="text-xs text-slate-400 mb-1">{result.liquidated ? "爆仓" : "平仓"}时间和价格</p>
+                <p className="text-xl font-bold text-white">{formatPrice(result.exitPrice, priceDecimals)}</p>
+                <p className="text-xs text-slate-500 mt-1">{formatTime(result.exitTime)}</p>
+              </div>
+            </div>
+
+            {result.timeline.length > 1 && (
+              <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+                <LineChart data={result.timeline} margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(value: number) =>
+                      new Date(value).toLocaleDateString("zh-CN", { month: "numeric", day: "numeric" })
+                    }
+                    tickLine={false}
+                  />
+                  <YAxis
+                    width={80}
+                    tickFormatter={(value: number) =>
+                      formatAmount(value, marginAsset, marginAsset === "USD" ? 0 : 4)
+                    }
+                    tickLine={false}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const point = payload?.[0]?.payload;
+                          return point
+                            ? `${formatTime(point.time)} · 标记价格 ${formatPrice(point.price, priceDecimals)}`
+                            : "";
+                        }}
+                        formatter={(value) => (
+                          <span className="flex w-full justify-between gap-4">
+                            <span className="text-muted-foreground">盈亏</span>
+                            <span className="font-mono">{formatAmount(Number(value), marginAsset)}</span>
+                          </span>
+                        )}
+                      />
+                    }
+                  />
+                  <ReferenceLine y={0} stroke="#64748b" />
+                  <Line dataKey="pnl" stroke="var(--color-pnl)" dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ChartContainer>
+            )}
+
+            <p className="text-xs text-slate-500">
+              {run.interval} 标记价格K线{run.interval !== "1m" && "（首尾不足一根的部分使用1分钟K线）"} · {formatTime(run.entryTime)} ~ {formatTime(run.exitTime)}。
+              爆仓按开仓时的爆仓价格判断，同一根K线先检查不利方向的极值；资金费按结算时所在K线的开盘价计算，仅供参考。
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,14 +10,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Trash2, Plus } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle, Trash2, Plus, Download } from "lucide-react";
 import {
   calculateContract,
   ContractParams,
+  CrossAccountState,
   formatCurrency,
   formatPercent,
   formatPrice,
-} from "@/lib/contractCalculator";
+  LeverageBracket,
+} from "@shared/contractCalculator";
+import { trpc } from "@/lib/trpc";
+import { getDecryptedApiKeys } from "@/lib/encryption";
+import {
+  exportComparisonCsv,
+  exportComparisonJson,
+  type ComparisonExportRow,
+} from "@/lib/exportReport";
+import { ExportMenu } from "@/components/ExportMenu";
 
 export interface Position {
   id: string;
@@ -27,36 +38,175 @@ export interface Position {
   leverage: number;
   positionType: "long" | "short";
   marginMode: "isolated" | "cross";
+  // 以下字段仅从币安账户导入的仓位才有
+  symbol?: string;
+  markPrice?: number; // 导入时的标记价格，用于计算该仓位的当前盈亏
+  leverageBrackets?: LeverageBracket[];
+  crossAccount?: CrossAccountState;
+  exchangeLiquidationPrice?: number; // 交易所返回的强平价格（0表示不会强平）
+}
+
+type ImportedPosition = {
+  symbol: string;
+  positionSide: string;
+  positionType: "long" | "short";
+  quantity: number;
+  entryPrice: number;
+  markPrice: number;
+  leverage: number;
+  marginType: "isolated" | "cross";
+  isolatedWallet: number;
+  unrealizedProfit: number;
+  maintMargin: number;
+  liquidationPrice: number;
+  leverageBrackets?: LeverageBracket[];
+};
+
+/**
+ * 将交易所持仓转换为对比仓位
+ * 逐仓以逐仓钱包余额为保证金，并按开仓名义价值反推实际杠杆；
+ * 全仓以全仓钱包余额扣除其他全仓仓位的维持保证金、加上其他仓位的未实现盈亏
+ */
+function toComparisonPosition(
+  pos: ImportedPosition,
+  index: number,
+  all: ImportedPosition[],
+  crossWalletBalance: number,
+  crossUnrealizedPnl: number
+): Position {
+  const entryNotional = pos.entryPrice * pos.quantity;
+  const isolated = pos.marginType === "isolated";
+  const margin = isolated ? pos.isolatedWallet : entryNotional / pos.leverage;
+  const otherMaintenanceMargin = all
+    .filter((p, i) => i !== index && p.marginType === "cross")
+    .reduce((sum, p) => sum + p.maintMargin, 0);
+
+  return {
+    id: `exchange-${pos.symbol}-${pos.positionSide}`,
+    name: `${pos.symbol} ${pos.positionType === "long" ? "多" : "空"}`,
+    openPrice: pos.entryPrice,
+    margin,
+    leverage: margin > 0 ? entryNotional / margin : pos.leverage,
+    positionType: pos.positionType,
+    marginMode: pos.marginType,
+    symbol: pos.symbol,
+    markPrice: pos.markPrice,
+    leverageBrackets: pos.leverageBrackets,
+    crossAccount: isolated
+      ? undefined
+      : {
+          walletBalance: crossWalletBalance,
+          otherMaintenanceMargin,
+          otherUnrealizedPnl: crossUnrealizedPnl - pos.unrealizedProfit,
+        },
+    exchangeLiquidationPrice: pos.liquidationPrice,
+  };
+}
+
+export const DEFAULT_COMPARISON_POSITIONS: Position[] = [
+  {
+    id: "1",
+    name: "仓位 1",
+    openPrice: 60000,
+    margin: 20,
+    leverage: 5,
+    positionType: "long",
+    marginMode: "isolated",
+  },
+  {
+    id: "2",
+    name: "仓位 2",
+    openPrice: 60000,
+    margin: 50,
+    leverage: 3,
+    positionType: "long",
+    marginMode: "isolated",
+  },
+];
+
+/**
+ * 对比仓位的计算参数（统一使用默认维持保证金率和手续费）
+ */
+export function comparisonParams(pos: Position): ContractParams {
+  return {
+    openPrice: pos.openPrice,
+    margin: pos.margin,
+    leverage: pos.leverage,
+    marginMode: pos.marginMode,
+    positionType: pos.positionType,
+    maintainanceRate: 0.005,
+    openFee: 0.0002,
+    closeFee: 0.0002,
+    fundingRate: 0,
+    leverageBrackets: pos.leverageBrackets,
+    crossAccount: pos.crossAccount,
+  };
 }
 
 interface PositionComparisonProps {
   currentPrice: number;
+  // 仓位列表由页面保存，以便写入分享链接
+  positions: Position[];
+  onPositionsChange: (positions: Position[]) => void;
 }
 
-export function PositionComparison({ currentPrice }: PositionComparisonProps) {
-  const [positions, setPositions] = useState<Position[]>([
-    {
-      id: "1",
-      name: "仓位 1",
-      openPrice: 60000,
-      margin: 20,
-      leverage: 5,
-      positionType: "long",
-      marginMode: "isolated",
-    },
-    {
-      id: "2",
-      name: "仓位 2",
-      openPrice: 60000,
-      margin: 50,
-      leverage: 3,
-      positionType: "long",
-      marginMode: "isolated",
-    },
-  ]);
+export function PositionComparison({
+  currentPrice,
+  positions,
+  onPositionsChange: setPositions,
+}: PositionComparisonProps) {
+  const utils = trpc.useUtils();
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importSuccess, setImportSuccess] = useState<string | null>(null);
+
+  // 从币安账户导入当前持仓，替换之前导入的仓位，保留手动添加的仓位
+  const importPositions = async () => {
+    setImportError(null);
+    setImportSuccess(null);
+    const keys = getDecryptedApiKeys();
+    if (!keys) {
+      setImportError("请先在币安 API 配置中保存 API 密钥");
+      return;
+    }
+    setImporting(true);
+    try {
+      const data = await utils.binance.positions.fetch({
+        apiKey: keys.apiKey,
+        apiSecret: keys.apiSecret,
+      });
+      if (!data.success || !data.positions) {
+        setImportError(data.error ?? "获取持仓失败");
+        return;
+      }
+      const account = data.positions;
+      const imported = account.map((pos, index) =>
+        toComparisonPosition(
+          pos,
+          index,
+          account,
+          data.crossWalletBalance ?? 0,
+          data.crossUnrealizedPnl ?? 0
+        )
+      );
+      if (imported.length === 0) {
+        setImportSuccess("账户当前没有持仓");
+        return;
+      }
+      const manual = positions.filter((p) => p.symbol === undefined);
+      setPositions([...imported, ...manual]);
+      setImportSuccess(`已导入 ${imported.length} 个持仓`);
+    } catch (err) {
+      console.error(err);
+      setImportError("获取持仓失败");
+    } finally {
+      setImporting(false);
+    }
+  };
 
   const addPosition = () => {
-    const newId = Math.max(...positions.map((p) => parseInt(p.id)), 0) + 1;
+    const newId =
+      Math.max(...positions.map((p) => parseInt(p.id) || 0), 0) + 1;
     setPositions([
       ...positions,
       {
@@ -85,25 +235,42 @@ export function PositionComparison({ currentPrice }: PositionComparisonProps) {
 
   // 计算所有仓位的结果
   const results = positions.map((pos) => {
-    const params: ContractParams = {
-      openPrice: pos.openPrice,
-      margin: pos.margin,
-      leverage: pos.leverage,
-      marginMode: pos.marginMode,
-      positionType: pos.positionType,
-      maintainanceRate: 0.005,
-      openFee: 0.0002,
-      closeFee: 0.0002,
-      fundingRate: 0,
-    };
+    // 导入的仓位按其自身交易对的标记价格计算盈亏
+    const price = pos.markPrice ?? currentPrice;
+    const result = calculateContract(comparisonParams(pos));
+    // 计算爆仓价格与交易所强平价格的偏差
+    const liquidationDeviation =
+      pos.exchangeLiquidationPrice && pos.exchangeLiquidationPrice > 0
+        ? ((result.liquidationPrice - pos.exchangeLiquidationPrice) /
+            pos.exchangeLiquidationPrice) *
+          100
+        : undefined;
     return {
       position: pos,
-      result: calculateContract(params),
-      profit: calculateContract(params).profitAtPrice(currentPrice),
-      profitPercent: calculateContract(params).profitPercentAtPrice(currentPrice),
+      result,
+      profit: result.profitAtPrice(price),
+      profitPercent: result.profitPercentAtPrice(price),
+      liquidationDeviation,
     };
   });
 
+  // 导出对比表
+  const exportRows: ComparisonExportRow[] = results.map((r) => ({
+    name: r.position.name,
+    symbol: r.position.symbol,
+    positionType: r.position.positionType,
+    marginMode: r.position.marginMode,
+    openPrice: r.position.openPrice,
+    margin: r.position.margin,
+    leverage: r.position.leverage,
+    positionSize: r.result.positionSize,
+    liquidationPrice: r.result.liquidationPrice,
+    exchangeLiquidationPrice: r.position.exchangeLiquidationPrice,
+    riskPercentage: r.result.riskPercentage,
+    profit: r.profit,
+    profitPercent: r.profitPercent,
+  }));
+
   // 计算总体指标
   const totalMargin = results.reduce((sum, r) => sum + r.position.margin, 0);
   const totalPositionSize = results.reduce((sum, r) => sum + r.result.positionSize, 0);
@@ -122,20 +289,50 @@ export function PositionComparison({ currentPrice }: PositionComparisonProps) {
           <div>
             <CardTitle className="text-white">多仓位对比分析</CardTitle>
             <CardDescription className="text-slate-400">
-              同时管理和对比多个合约仓位
+              同时管理和对比多个合约仓位，可从币安账户导入持仓并核对交易所强平价格
             </CardDescription>
           </div>
-          <Button
-            onClick={addPosition}
-            className="bg-blue-600 hover:bg-blue-700"
-            size="sm"
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            添加仓位
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu
+              size="sm"
+              csv={() => exportComparisonCsv(exportRows)}
+              json={() => exportComparisonJson(exportRows)}
+            />
+            <Button
+              onClick={importPositions}
+              variant="outline"
+              className="border-slate-600 text-slate-200"
+              size="sm"
+              disabled={importing}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {importing ? "导入中..." : "从币安导入"}
+            </Button>
+            <Button
+              onClick={addPosition}
+              className="bg-blue-600 hover:bg-blue-700"
+              size="sm"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              添加仓位
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
+        {importError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{importError}</AlertDescription>
+          </Alert>
+        )}
+        {importSuccess && (
+          <Alert className="bg-green-900 border-green-700">
+            <CheckCircle className="h-4 w-4 text-green-400" />
+            <AlertDescription className="text-green-400">{importSuccess}</AlertDescription>
+          </Alert>
+        )}
+
         {/* 仓位列表 */}
         <div className="space-y-4">
           {positions.map((pos, index) => {
@@ -243,6 +440,14 @@ export function PositionComparison({ currentPrice }: PositionComparisonProps) {
                     }`}>
                       {formatPrice(posResult.result.liquidationPrice)}
                     </p>
+                    {pos.exchangeLiquidationPrice !== undefined && (
+                      <p className="text-slate-400 text-xs mt-1">
+                        交易所：
+                        {pos.exchangeLiquidationPrice > 0
+                          ? formatPrice(pos.exchangeLiquidationPrice)
+                          : "无强平风险"}
+                      </p>
+                    )}
                   </div>
 
                   <div className="bg-slate-600 rounded p-3">
@@ -349,6 +554,8 @@ export function PositionComparison({ currentPrice }: PositionComparisonProps) {
                   <th className="text-right text-slate-400 py-2 px-3">保证金</th>
                   <th className="text-right text-slate-400 py-2 px-3">头寸价值</th>
                   <th className="text-right text-slate-400 py-2 px-3">爆仓价格</th>
+                  <th className="text-right text-slate-400 py-2 px-3">交易所强平价</th>
+                  <th className="text-right text-slate-400 py-2 px-3">偏差</th>
                   <th className="text-right text-slate-400 py-2 px-3">风险 %</th>
                   <th className="text-right text-slate-400 py-2 px-3">当前盈亏</th>
                   <th className="text-right text-slate-400 py-2 px-3">盈亏 %</th>
@@ -369,6 +576,18 @@ export function PositionComparison({ currentPrice }: PositionComparisonProps) {
                         {formatPrice(r.result.liquidationPrice)}
                       </span>
                     </td>
+                    <td className="text-right text-slate-300 py-3 px-3">
+                      {r.position.exchangeLiquidationPrice === undefined
+                        ? "-"
+                        : r.position.exchangeLiquidationPrice > 0
+                          ? formatPrice(r.position.exchangeLiquidationPrice)
+                          : "无"}
+                    </td>
+                    <td className="text-right text-slate-300 py-3 px-3">
+                      {r.liquidationDeviation === undefined
+                        ? "-"
+                        : `${r.liquidationDeviation >= 0 ? "+" : ""}${formatPercent(r.liquidationDeviation, 3)}`}
+                    </td>
                     <td className="text-right text-yellow-400 py-3 px-3">
                       {formatPercent(r.result.riskPercentage)}
                     </td>
@@ -0,0 +1,341 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Plus, Trash2 } from "lucide-react";
+import {
+  formatAmount,
+  formatCurrency,
+  formatPercent,
+  formatPrice,
+} from "@shared/contractCalculator";
+import { LadderBaseParams } from "@/lib/dcaPlanner";
+import { planRisk, TakeProfitLevel } from "@/lib/riskPlanner";
+
+export interface TakeProfitRow extends TakeProfitLevel {
+  id: string;
+}
+
+// 止损价和止盈位，由页面保存以便在盈亏曲线上标出
+export interface RiskLevels {
+  stopLossPrice: number;
+  takeProfits: TakeProfitRow[];
+}
+
+/**
+ * 默认止损（反向2%）和两个止盈位（3%、6%各平一半）
+ */
+export function defaultRiskLevels(
+  entryPrice: number,
+  positionType: "long" | "short"
+): RiskLevels {
+  const direction = positionType === "long" ? 1 : -1;
+  return {
+    stopLossPrice: Math.round(entryPrice * (1 - direction * 0.02)),
+    takeProfits: [
+      { id: "1", price: Math.round(entryPrice * (1 + direction * 0.03)), closePercent: 50 },
+      { id: "2", price: Math.round(entryPrice * (1 + direction * 0.06)), closePercent: 50 },
+    ],
+  };
+}
+
+interface RiskPlannerProps {
+  entryPrice: number;
+  leverage: number;
+  baseParams: LadderBaseParams;
+  accountBalance: number;
+  accumulatedFunding?: number;
+  marginAsset?: string;
+  levels: RiskLevels;
+  onLevelsChange: (levels: RiskLevels) => void;
+}
+
+export function RiskPlanner({
+  entryPrice,
+  leverage,
+  baseParams,
+  accountBalance,
+  accumulatedFunding = 0,
+  marginAsset = "USD",
+  levels,
+  onLevelsChange,
+}: RiskPlannerProps) {
+  const direction = baseParams.positionType === "long" ? 1 : -1;
+  const { stopLossPrice, takeProfits } = levels;
+  const [riskBudget, setRiskBudget] = useState<number>(1);
+  const [balance, setBalance] = useState<number>(accountBalance);
+  const [riskBudgetType, setRiskBudgetType] = useState<"amount" | "percent">(
+    "percent"
+  );
+  const setStopLossPrice = (price: number) =>
+    onLevelsChange({ ...levels, stopLossPrice: price });
+  const setTakeProfits = (rows: TakeProfitRow[]) =>
+    onLevelsChange({ ...levels, takeProfits: rows });
+
+  const addTakeProfit = () => {
+    const newId = Math.max(...takeProfits.map((tp) => parseInt(tp.id)), 0) + 1;
+    const last = takeProfits[takeProfits.length - 1];
+    setTakeProfits([
+      ...takeProfits,
+      {
+        id: newId.toString(),
+        price: Math.round((last?.price ?? entryPrice) * (1 + direction * 0.03)),
+        closePercent: 0,
+      },
+    ]);
+  };
+
+  const deleteTakeProfit = (id: string) => {
+    setTakeProfits(takeProfits.filter((tp) => tp.id !== id));
+  };
+
+  const updateTakeProfit = (id: string, updates: Partial<TakeProfitLevel>) => {
+    setTakeProfits(
+      takeProfits.map((tp) => (tp.id === id ? { ...tp, ...updates } : tp))
+    );
+  };
+
+  const plan = useMemo(
+    () =>
+      planRisk({
+        base: baseParams,
+        entryPrice,
+        stopLossPrice,
+        takeProfits,
+        leverage,
+        riskBudget,
+        riskBudgetType,
+        accountBalance: balance,
+        accumulatedFunding,
+      }),
+    [baseParams, entryPrice, stopLossPrice, takeProfits, leverage, riskBudget, riskBudgetType, balance, accumulatedFunding]
+  );
+  const formatMargin = (value: number) => formatAmount(value, marginAsset);
+
+  return (
+    <Card className="bg-slate-800 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">止损止盈规划</CardTitle>
+        <CardDescription className="text-slate-400">
+          根据止损距离和最大亏损预算计算仓位大小，并查看各止盈位的盈亏比
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label className="text-slate-300 mb-2 block">止损价格 (USD)</Label>
+            <Input
+              type="number"
+              value={stopLossPrice}
+              onChange={(e) => setStopLossPrice(parseFloat(e.target.value) || 0)}
+              className="bg-slate-700 border-slate-600 text-white"
+              step="100"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block">最大亏损预算</Label>
+            <Input
+              type="number"
+              value={riskBudget}
+              onChange={(e) => setRiskBudget(parseFloat(e.target.value) || 0)}
+              className="bg-slate-700 border-slate-600 text-white"
+              step="0.5"
+            />
+          </div>
+          <div>
+            <Label className="text-slate-300 mb-2 block">预算类型</Label>
+            <Select
+              value={riskBudgetType}
+              onValueChange={(v) => setRiskBudgetType(v as "amount" | "percent")}
+            >
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-700 border-slate-600">
+                <SelectItem value="percent" className="text-white">
+                  账户百分比 (%)
+                </SelectItem>
+                <SelectItem value="amount" className="text-white">
+                  固定金额 ({marginAsset})
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {riskBudgetType === "percent" && (
+          <div>
+            <Label className="text-slate-300 mb-2 block">
+              账户余额 ({marginAsset})
+            </Label>
+            <Input
+              type="number"
+              value={balance}
+              onChange={(e) => setBalance(parseFloat(e.target.value) || 0)}
+              className="bg-slate-700 border-slate-600 text-white"
+              step="10"
+            />
+          </div>
+        )}
+
+        {/* 止盈位 */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-slate-300">止盈位</Label>
+            <Button
+              onClick={addTakeProfit}
+              className="bg-blue-600 hover:bg-blue-700"
+              size="sm"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              添加止盈
+            </Button>
+          </div>
+          {takeProfits.map((tp, index) => (
+            <div key={tp.id} className="grid grid-cols-3 gap-3">
+              <Input
+                type="number"
+                value={tp.price}
+                onChange={(e) =>
+                  updateTakeProfit(tp.id, { price: parseFloat(e.target.value) || 0 })
+                }
+                className="bg-slate-700 border-slate-600 text-white"
+                placeholder={`止盈 ${index + 1} 价格`}
+                step="100"
+              />
+              <Input
+                type="number"
+                value={tp.closePercent}
+                onChange={(e) =>
+                  updateTakeProfit(tp.id, {
+                    closePercent: parseFloat(e.target.value) || 0,
+                  })
+                }
+                className="bg-slate-700 border-slate-600 text-white"
+                placeholder="平仓比例 %"
+                step="5"
+              />
+              <Button
+                onClick={() => deleteTakeProfit(tp.id)}
+                variant="destructive"
+                size="sm"
+                className="h-full"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* 警告 */}
+        {plan.warnings.map((warning) => (
+          <Alert key={warning} className="bg-yellow-900/20 border-yellow-700">
+            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription className="text-yellow-300 ml-2">
+              {warning}
+            </AlertDescription>
+          </Alert>
+        ))}
+
+        {/* 仓位建议 */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-4 border-t border-slate-700">
+          <div>
+            <p className="text-xs text-slate-400 mb-1">风险预算</p>
+            <p className="text-lg font-semibold text-white">
+              {formatMargin(plan.riskAmount)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">建议头寸价值</p>
+            <p className="text-lg font-semibold text-white">
+              {formatCurrency(plan.positionSize)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">所需保证金 ({leverage}x)</p>
+            <p className="text-lg font-semibold text-white">
+              {formatMargin(plan.margin)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">止损前不爆仓的最高杠杆</p>
+            <p className="text-lg font-semibold text-yellow-400">
+              {plan.maxLeverage > 0 ? `${plan.maxLeverage}x` : "-"}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">止损亏损（含手续费）</p>
+            <p className="text-lg font-semibold text-red-400">
+              {formatMargin(plan.lossAtStop)}
+            </p>
+          </div>
+          {plan.accumulatedFunding !== 0 && (
+            <div>
+              <p className="text-xs text-slate-400 mb-1">已累计资金费（另计）</p>
+              <p className={`text-lg font-semibold ${
+                plan.accumulatedFunding > 0 ? "text-red-400" : "text-green-400"
+              }`}>
+                {formatMargin(plan.accumulatedFunding)}
+              </p>
+            </div>
+          )}
+          <div>
+            <p className="text-xs text-slate-400 mb-1">爆仓价格</p>
+            <p className="text-lg font-semibold text-white">
+              {formatPrice(plan.liquidationPrice)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">止盈合计预期盈亏</p>
+            <p className={`text-lg font-semibold ${
+              plan.totalExpectedProfit >= 0 ? "text-green-400" : "text-red-400"
+            }`}>
+              {formatMargin(plan.totalExpectedProfit)}
+            </p>
+          </div>
+        </div>
+
+        {/* 止盈明细 */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-600">
+                <th className="text-left text-slate-400 py-2 px-3">止盈位</th>
+                <th className="text-right text-slate-400 py-2 px-3">平仓比例</th>
+                <th className="text-right text-slate-400 py-2 px-3">盈亏比 (R)</th>
+                <th className="text-right text-slate-400 py-2 px-3">预期盈亏</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.takeProfits.map((tp, index) => (
+                <tr key={takeProfits[index].id} className="border-b border-slate-700">
+                  <td className="text-white py-3 px-3">{formatPrice(tp.price)}</td>
+                  <td className="text-right text-slate-300 py-3 px-3">
+                    {formatPercent(tp.closePercent, 0)}
+                  </td>
+                  <td className="text-right text-yellow-400 py-3 px-3">
+                    {tp.riskReward.toFixed(2)}R
+                  </td>
+                  <td className={`text-right py-3 px-3 ${
+                    tp.expectedProfit >= 0 ? "text-green-400" : "text-red-400"
+                  }`}>
+                    {formatMargin(tp.expectedProfit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { AlertCircle, Copy, Link2, Share2 } from "lucide-react";
+import { buildShareUrl } from "@/lib/shareState";
+
+interface ShareLinkProps {
+  encodedState: string; // encodeShareState 的结果
+}
+
+// 可复制的链接输入框
+function CopyableUrl({ label, url }: { label: string; url: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-slate-300">{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          readOnly
+          value={url}
+          onFocus={(e) => e.target.select()}
+          className="bg-slate-700 border-slate-600 text-white"
+        />
+        <Button onClick={copy} className="bg-blue-600 hover:bg-blue-700">
+          <Copy className="h-4 w-4 mr-2" />
+          {copied ? "已复制" : "复制"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 分享当前计算：完整链接直接包含所有参数，也可以生成保存在服务端的短链接
+ */
+export function ShareLink({ encodedState }: ShareLinkProps) {
+  const [open, setOpen] = useState(false);
+  // 短链接对应生成时的状态，参数变化后需要重新生成
+  const [shortLink, setShortLink] = useState<{ state: string; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const createMutation = trpc.shareLinks.create.useMutation({
+    onSuccess: (data, variables) => {
+      if (data.success) {
+        setShortLink({
+          state: variables.state,
+          url: `${window.location.origin}/s/${data.code!}`,
+        });
+        setError(null);
+      } else {
+        setError(data.error ?? "生成短链接失败");
+      }
+    },
+    onError: () => setError("生成短链接失败"),
+  });
+
+  const currentShortUrl = shortLink?.state === encodedState ? shortLink.url : null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(value) => {
+        setOpen(value);
+        if (!value) setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+        >
+          <Share2 className="h-4 w-4 mr-2" />
+          分享
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white">
+        <DialogHeader>
+          <DialogTitle>分享当前计算</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            打开链接即可恢复全部参数（包括目标价格和多仓位对比），开仓价格不会跟随实时价格
+          </DialogDescription>
+        </DialogHeader>
+
+        <CopyableUrl key={encodedState} label="完整链接" url={buildShareUrl(encodedState)} />
+
+        {currentShortUrl ? (
+          <CopyableUrl key={currentShortUrl} label="短链接" url={currentShortUrl} />
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => createMutation.mutate({ state: encodedState })}
+            disabled={createMutation.isPending}
+            className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            {createMutation.isPending ? "生成中..." : "生成短链接"}
+          </Button>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
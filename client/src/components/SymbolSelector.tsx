@@ -1,59 +1,165 @@
 import { useEffect, useState } from "react";
 import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Loader2, AlertCircle } from "lucide-react";
+import { Loader2, AlertCircle, ChevronsUpDown, Star } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Switch } from "@/components/ui/switch";
+import { useLivePrice } from "@/hooks/useLivePrice";
+import { usePersistFn } from "@/hooks/usePersistFn";
+import { formatPrice, type ContractType } from "@shared/contractCalculator";
+import { getFavoriteSymbols, toggleFavoriteSymbol } from "@/lib/favoriteSymbols";
+import { EXCHANGE_NAMES, type ExchangeId } from "@shared/exchanges";
+
+interface SymbolOption {
+  symbol: string;
+  displayName: string;
+  detail?: string; // 附加信息（最大杠杆、状态等）
+  tradable: boolean;
+}
 
 interface SymbolSelectorProps {
   selectedSymbol: string;
   onSymbolChange: (symbol: string) => void;
   onPriceUpdate: (price: number) => void;
+  followPrice: boolean; // 开启时每次价格更新都调用 onPriceUpdate
+  onFollowPriceChange: (follow: boolean) => void;
+  contractType?: ContractType;
+  exchange?: ExchangeId;
 }
 
 export function SymbolSelector({
   selectedSymbol,
   onSymbolChange,
   onPriceUpdate,
+  followPrice,
+  onFollowPriceChange,
+  contractType = "linear",
+  exchange = "binance",
 }: SymbolSelectorProps) {
+  const inverse = contractType === "inverse";
+
   const [price, setPrice] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [open, setOpen] = useState(false);
+  const [favorites, setFavorites] = useState<string[]>(() => getFavoriteSymbols());
+  const notifyPrice = usePersistFn(onPriceUpdate);
 
-  // 获取币种列表
-  const { data: symbols, isLoading: symbolsLoading } =
-    trpc.binance.symbols.useQuery();
+  // 获取币种列表（U本位，按所选交易所）
+  const { data: linearSymbols, isLoading: linearSymbolsLoading } =
+    trpc.exchange.symbols.useQuery({ exchange }, { enabled: !inverse });
+
+  // 获取币本位合约列表
+  const { data: coinSymbols, isLoading: coinSymbolsLoading } =
+    trpc.binance.coinSymbols.useQuery(undefined, { enabled: inverse });
+
+  const symbols: SymbolOption[] | undefined = inverse
+    ? coinSymbols?.contracts?.map((c) => ({
+        symbol: c.symbol,
+        displayName: `${c.symbol} (${c.contractSize} USD/张)`,
+        tradable: true,
+      })) ?? []
+    : linearSymbols?.success
+      ? linearSymbols.symbols?.map((s) => ({
+          symbol: s.symbol,
+          displayName: s.displayName,
+          detail: [
+            s.maxLeverage ? `${s.maxLeverage}x` : null,
+            !s.tradable ? s.status : null,
+          ]
+            .filter(Boolean)
+            .join(" · "),
+          tradable: s.tradable,
+        }))
+      : linearSymbols
+        ? // 交易对目录不可用时仍可使用当前交易对
+          [{ symbol: selectedSymbol, displayName: selectedSymbol, tradable: true }]
+        : undefined;
+  const favoriteOptions =
+    symbols?.filter((s) => favorites.includes(s.symbol)) ?? [];
+  const otherOptions =
+    symbols?.filter((s) => !favorites.includes(s.symbol)) ?? [];
+  const symbolsLoading = inverse ? coinSymbolsLoading : linearSymbolsLoading;
+
+  // 币安行情通过 WebSocket 实时推送，收到推送前及其他交易所仍按30秒轮询
+  const { supported: streaming, live, midPrice } = useLivePrice(
+    exchange,
+    contractType,
+    selectedSymbol
+  );
+  const polling = !!selectedSymbol && live === undefined;
 
   // 获取价格
-  const { data: priceData, isLoading: priceLoading } =
-    trpc.binance.price.useQuery(
-      { symbol: selectedSymbol },
+  const { data: linearPriceData, isLoading: linearPriceLoading } =
+    trpc.exchange.price.useQuery(
+      { exchange, symbol: selectedSymbol },
       {
-        enabled: !!selectedSymbol,
+        enabled: polling && !inverse,
         refetchInterval: 30000, // 每30秒刷新一次
       }
     );
+  const { data: coinPriceData, isLoading: coinPriceLoading } =
+    trpc.binance.coinPrice.useQuery(
+      { symbol: selectedSymbol },
+      {
+        enabled: polling && inverse,
+        refetchInterval: 30000,
+      }
+    );
+  const priceData = inverse ? coinPriceData : linearPriceData;
+
+  // 标记价格与指数价格（仅U本位）
+  const { data: markData } = trpc.exchange.markPrice.useQuery(
+    { exchange, symbol: selectedSymbol },
+    {
+      enabled: polling && !inverse,
+      refetchInterval: 30000,
+    }
+  );
+  const markPrice = live?.markPrice ?? (markData?.success ? markData.markPrice : undefined);
+  const indexPrice = live?.indexPrice ?? (markData?.success ? markData.indexPrice : undefined);
+  const priceLoading =
+    live === undefined && (inverse ? coinPriceLoading : linearPriceLoading);
+
+  // 实时推送时以买一/卖一中间价作为当前价格
+  useEffect(() => {
+    if (midPrice === undefined) return;
+    setPrice(midPrice);
+    setLastUpdate(new Date(live?.eventTime ?? Date.now()));
+    if (followPrice) notifyPrice(midPrice);
+    setError(null);
+  }, [midPrice, live?.eventTime, followPrice, notifyPrice]);
 
   useEffect(() => {
+    if (!polling) return;
     if (priceData?.success && priceData.price) {
       setPrice(priceData.price);
       setLastUpdate(new Date());
-      onPriceUpdate(priceData.price);
+      if (followPrice) notifyPrice(priceData.price);
       setError(null);
     } else if (priceData && !priceData.success) {
       setError(priceData.error || "Failed to fetch price");
       setPrice(null);
     }
-  }, [priceData, onPriceUpdate]);
+  }, [polling, priceData, followPrice, notifyPrice]);
 
   const handleSymbolChange = (symbol: string) => {
+    setOpen(false);
     onSymbolChange(symbol);
     setPrice(null);
     setError(null);
@@ -66,24 +172,76 @@ export function SymbolSelector({
     <Card className="w-full bg-slate-800 border-slate-700">
       <CardHeader>
         <CardTitle className="text-white">币种选择</CardTitle>
-        <CardDescription className="text-slate-400">从币安实时获取价格数据</CardDescription>
+        <CardDescription className="text-slate-400">
+          从{EXCHANGE_NAMES[exchange]}实时获取价格数据（{inverse ? "币本位 COIN-M" : "U本位 USDT-M"}）
+        </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* 币种选择器 */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-slate-300">选择交易对</label>
-          <Select value={selectedSymbol} onValueChange={handleSymbolChange}>
-            <SelectTrigger disabled={symbolsLoading} className="bg-slate-700 border-slate-600 text-white">
-              <SelectValue placeholder="选择币种..." />
-            </SelectTrigger>
-            <SelectContent className="bg-slate-700 border-slate-600">
-              {symbols?.map((symbol) => (
-                <SelectItem key={symbol.symbol} value={symbol.symbol} className="text-white">
-                  {symbol.displayName}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+          <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                role="combobox"
+                disabled={symbolsLoading}
+                className="w-full justify-between bg-slate-700 border-slate-600 text-white hover:bg-slate-600 hover:text-white"
+              >
+                {symbolName || "选择币种..."}
+                <ChevronsUpDown className="ml-2 h-4 w-4 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="p-0 bg-slate-700 border-slate-600" align="start">
+              <Command className="bg-slate-700 text-white">
+                <CommandInput placeholder="搜索交易对..." />
+                <CommandList>
+                  <CommandEmpty>未找到交易对</CommandEmpty>
+                  {[
+                    { heading: "收藏", options: favoriteOptions },
+                    { heading: "全部", options: otherOptions },
+                  ].map((group) =>
+                    group.options.length > 0 ? (
+                      <CommandGroup key={group.heading} heading={group.heading}>
+                        {group.options.map((option) => (
+                          <CommandItem
+                            key={option.symbol}
+                            value={`${option.symbol} ${option.displayName}`}
+                            onSelect={() => handleSymbolChange(option.symbol)}
+                            className={option.tradable ? "text-white" : "text-slate-400"}
+                          >
+                            <button
+                              type="button"
+                              aria-label="收藏"
+                              onPointerDown={(e) => e.preventDefault()}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setFavorites(toggleFavoriteSymbol(option.symbol));
+                              }}
+                            >
+                              <Star
+                                className={`h-4 w-4 ${
+                                  favorites.includes(option.symbol)
+                                    ? "fill-yellow-400 text-yellow-400"
+                                    : "text-slate-500"
+                                }`}
+                              />
+                            </button>
+                            <span className="flex-1">{option.displayName}</span>
+                            {option.detail && (
+                              <span className="text-xs text-slate-400">
+                                {option.detail}
+                              </span>
+                            )}
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    ) : null
+                  )}
+                </CommandList>
+              </Command>
+            </PopoverContent>
+          </Popover>
         </div>
 
         {/* 价格显示 */}
@@ -102,11 +260,23 @@ export function SymbolSelector({
                 ) : price !== null ? (
                   <div>
                     <p className="text-lg font-semibold text-white">
-                      ${price.toFixed(2)}
+                      ${formatPrice(price)}
                     </p>
+                    {markPrice != null && (
+                      <p className="text-xs text-slate-300">
+                        标记价格: ${formatPrice(markPrice)} · 指数价格: $
+                        {formatPrice(indexPrice ?? 0)}
+                      </p>
+                    )}
+                    {live?.bidPrice != null && live.askPrice != null && (
+                      <p className="text-xs text-slate-300">
+                        买一: ${formatPrice(live.bidPrice)} · 卖一: $
+                        {formatPrice(live.askPrice)}
+                      </p>
+                    )}
                     {lastUpdate && (
                       <p className="text-xs text-slate-400">
-                        更新于: {lastUpdate.toLocaleTimeString("zh-CN")}
+                        {live ? "实时 · " : ""}更新于: {lastUpdate.toLocaleTimeString("zh-CN")}
                       </p>
                     )}
                   </div>
@@ -120,6 +290,17 @@ export function SymbolSelector({
           </div>
         )}
 
+        <div className="flex items-center justify-between">
+          <label htmlFor="follow-price" className="text-sm text-slate-300">
+            开仓价格跟随当前价格
+          </label>
+          <Switch
+            id="follow-price"
+            checked={followPrice}
+            onCheckedChange={onFollowPriceChange}
+          />
+        </div>
+
         {/* 错误提示 */}
         {error && (
           <Alert variant="destructive">
@@ -130,7 +311,11 @@ export function SymbolSelector({
 
         {/* 信息提示 */}
         <div className="text-xs text-slate-400 space-y-1 bg-slate-700 p-3 rounded-lg border border-slate-600">
-          <p>💡 价格每30秒自动更新一次</p>
+          <p>
+            {streaming
+              ? "💡 币安行情通过 WebSocket 实时推送，断线后自动重连"
+              : "💡 价格每30秒自动更新一次"}
+          </p>
           <p>💡 需要配置币安API密钥以获取用户特定的手续费和杠杆限制</p>
         </div>
       </CardContent>
@@ -0,0 +1,28 @@
+import { trpc } from "@/lib/trpc";
+import type { ContractType } from "@shared/contractCalculator";
+import type { ExchangeId } from "@shared/exchanges";
+
+/**
+ * 订阅币安实时标记价格与买一/卖一价（WebSocket）
+ * 其他交易所不支持推送，返回 undefined，由调用方继续轮询
+ */
+export function useLivePrice(
+  exchange: ExchangeId,
+  contractType: ContractType,
+  symbol: string
+) {
+  const supported = exchange === "binance" && !!symbol;
+  const { data } = trpc.binance.priceStream.useSubscription(
+    { symbol, market: contractType === "inverse" ? "coinm" : "usdm" },
+    { enabled: supported }
+  );
+
+  // 切换交易对后、新订阅收到数据前忽略旧交易对的行情
+  const live = supported && data?.symbol === symbol ? data : undefined;
+  const midPrice =
+    live?.bidPrice != null && live.askPrice != null
+      ? (live.bidPrice + live.askPrice) / 2
+      : undefined;
+
+  return { supported, live, midPrice };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  backtestKlineSegments,
+  chooseBacktestInterval,
+  runBacktest,
+  type BacktestKline,
+} from "./backtest";
+import type { ContractParams } from "@shared/contractCalculator";
+
+const HOUR = 3_600_000;
+const t0 = 1_699_999_200_000; // 整点
+
+const kline = (i: number, open: number, high: number, low: number, close: number): BacktestKline => ({
+  openTime: t0 + i * HOUR,
+  open,
+  high,
+  low,
+  close,
+  closeTime: t0 + (i + 1) * HOUR - 1,
+});
+
+const klines = [
+  kline(0, 60000, 60500, 59500, 60200),
+  kline(1, 60200, 61000, 60000, 60800),
+  kline(2, 60800, 60900, 50000, 52000),
+  kline(3, 52000, 53000, 51000, 52500),
+];
+
+const params: ContractParams = {
+  openPrice: 0,
+  margin: 1000,
+  leverage: 10,
+  marginMode: "isolated",
+  positionType: "long",
+  maintainanceRate: 0.004,
+  openFee: 0,
+  closeFee: 0,
+};
+
+const fundingRates = [{ fundingTime: t0 + HOUR + 10, fundingRate: 0.0001 }];
+
+describe("chooseBacktestInterval", () => {
+  it("picks the finest interval within the kline budget", () => {
+    expect(chooseBacktestInterval(t0, t0 + 2 * 24 * HOUR)).toBe("1m");
+    expect(chooseBacktestInterval(t0, t0 + 30 * 24 * HOUR)).toBe("15m");
+    expect(chooseBacktestInterval(t0, t0 + 5 * 365 * 24 * HOUR)).toBe("1d");
+  });
+});
+
+describe("runBacktest", () => {
+  it("liquidates on the first candle whose wick reaches the liquidation price", () => {
+    const result = runBacktest({ params, klines, fundingRates, entryTime: t0, exitTime: t0 + 4 * HOUR });
+    expect(result?.entryPrice).toBe(60000);
+    expect(result?.liquidationPrice).toBeCloseTo((60000 * 0.9) / 0.996, 6);
+    expect(result?.liquidated).toBe(true);
+    expect(result?.liquidationTime).toBe(t0 + 2 * HOUR);
+    expect(result?.mae.price).toBe(result?.liquidationPrice);
+    expect(result?.mfe.price).toBe(61000);
+    expect(result?.timeline).toHaveLength(3);
+  });
+
+  it("charges funding at the settlement candle's open price", () => {
+    const long = runBacktest({ params, klines, fundingRates, entryTime: t0, exitTime: t0 + 2 * HOUR });
+    // 0.0001 × (10000 / 60000) BTC × 60200
+    expect(long?.fundingEvents).toBe(1);
+    expect(long?.fundingPaid).toBeCloseTo(1.0033333333, 8);
+    expect(long?.liquidated).toBe(false);
+    expect(long?.exitPrice).toBe(60800);
+    expect(long?.exitPnl).toBeCloseTo((10000 / 60000) * 800 - 1.0033333333, 6);
+
+    const short = runBacktest({
+      params: { ...params, positionType: "short" },
+      klines,
+      fundingRates,
+      entryTime: t0,
+      exitTime: t0 + 2 * HOUR,
+    });
+    expect(short?.fundingPaid).toBeCloseTo(-1.0033333333, 8);
+  });
+
+  it("checks the candle that contains the exit time", () => {
+    // 平仓时间在第3根K线中间，该K线的插针仍在持仓期间内
+    const result = runBacktest({
+      params,
+      klines,
+      fundingRates: [],
+      entryTime: t0,
+      exitTime: t0 + 2.5 * HOUR,
+    });
+    expect(result?.liquidated).toBe(true);
+    expect(result?.liquidationTime).toBe(t0 + 2 * HOUR);
+  });
+
+  it("returns null without candles after entry", () => {
+    expect(
+      runBacktest({ params, klines, fundingRates, entryTime: t0 + 10 * HOUR, exitTime: t0 + 11 * HOUR })
+    ).toBeNull();
+  });
+});
+
+describe("backtestKlineSegments", () => {
+  const MINUTE = 60_000;
+  const DAY = 24 * HOUR;
+  const day0 = 1_699_920_000_000; // UTC 0点
+
+  it("uses 1m candles for the partial head and tail around whole candles", () => {
+    const entryTime = day0 + 10 * HOUR + 30 * MINUTE;
+    const exitTime = day0 + 600 * DAY + 15 * HOUR;
+    expect(backtestKlineSegments(entryTime, exitTime, "1d")).toEqual([
+      { interval: "1m", startTime: entryTime, endTime: day0 + DAY - 1 },
+      { interval: "1d", startTime: day0 + DAY, endTime: day0 + 600 * DAY - 1 },
+      { interval: "1m", startTime: day0 + 600 * DAY, endTime: exitTime - 1 },
+    ]);
+  });
+
+  it("needs no 1m candles when both ends are aligned", () => {
+    expect(backtestKlineSegments(t0, t0 + 100 * HOUR, "1h")).toEqual([
+      { interval: "1h", startTime: t0, endTime: t0 + 100 * HOUR - 1 },
+    ]);
+    expect(backtestKlineSegments(t0 + 30 * 1000, t0 + 10 * MINUTE, "1m")).toEqual([
+      { interval: "1m", startTime: t0 + MINUTE, endTime: t0 + 10 * MINUTE - 1 },
+    ]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * 历史回测：从开仓时间起按标记价格K线回放，判断是否以及何时爆仓
+ * 同时统计最大不利/有利波动（MAE/MFE）、期间支付的资金费以及平仓时的盈亏。
+ * 开仓价格取开仓时刻所在K线的开盘标记价格，保证金、杠杆等其余参数与计算器一致。
+ */
+
+import { calculateContract, type ContractParams } from "@shared/contractCalculator";
+
+export interface BacktestKline {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  closeTime: number;
+}
+
+export interface BacktestFunding {
+  fundingTime: number;
+  fundingRate: number;
+}
+
+export type BacktestInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+const INTERVAL_MS: Record<BacktestInterval, number> = {
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "1h": 3_600_000,
+  "4h": 4 * 3_600_000,
+  "1d": 86_400_000,
+};
+
+const MAX_BACKTEST_KLINES = 3000;
+
+/**
+ * 选择回测使用的K线周期：K线数量不超过 MAX_BACKTEST_KLINES 的最小周期
+ * K线最高/最低价已包含周期内的插针，周期只影响爆仓时间的精度
+ */
+export function chooseBacktestInterval(entryTime: number, exitTime: number): BacktestInterval {
+  const span = Math.max(exitTime - entryTime, 0);
+  const intervals = Object.keys(INTERVAL_MS) as BacktestInterval[];
+  return (
+    intervals.find((interval) => span / INTERVAL_MS[interval] <= MAX_BACKTEST_KLINES) ?? "1d"
+  );
+}
+
+export interface BacktestKlineSegment {
+  interval: BacktestInterval;
+  startTime: number;
+  endTime: number; // 最后一根K线的开盘时间不晚于此时间
+}
+
+/**
+ * 回测需要请求的K线区间：中间整根的部分使用所选周期，首尾不足一根的部分使用1分钟K线，
+ * 使开仓和平仓时刻都落在K线边界上，首根K线不含开仓前的价格、末根K线覆盖到平仓时刻
+ */
+export function backtestKlineSegments(
+  entryTime: number,
+  exitTime: number,
+  interval: BacktestInterval
+): BacktestKlineSegment[] {
+  const minute = INTERVAL_MS["1m"];
+  const start = Math.ceil(entryTime / minute) * minute;
+  const end = Math.floor(exitTime / minute) * minute;
+  const step = INTERVAL_MS[interval];
+  const bodyStart = Math.ceil(start / step) * step;
+  const bodyEnd = Math.floor(end / step) * step;
+  if (interval === "1m" || bodyStart >= bodyEnd) {
+    return [{ interval: "1m", startTime: start, endTime: end - 1 }];
+  }
+
+  const segments: BacktestKlineSegment[] = [];
+  if (start < bodyStart) {
+    segments.push({ interval: "1m", startTime: start, endTime: bodyStart - 1 });
+  }
+  segments.push({ interval, startTime: bodyStart, endTime: bodyEnd - 1 });
+  if (bodyEnd < end) {
+    segments.push({ interval: "1m", startTime: bodyEnd, endTime: end - 1 });
+  }
+  return segments;
+}
+
+export interface BacktestInput {
+  params: ContractParams;
+  klines: BacktestKline[]; // 标记价格K线（按时间升序，可混合不同周期，见 backtestKlineSegments）
+  fundingRates: BacktestFunding[];
+  entryTime: number;
+  exitTime: number;
+}
+
+// 价格极值及其出现时间
+export interface Excursion {
+  price: number;
+  time: number;
+  percent: number; // 相对开仓价格的不利/有利幅度（%），不利为负
+  pnl: number; // 在该价格平仓的盈亏（含手续费，不含资金费）
+}
+
+export interface BacktestTimelinePoint {
+  time: number; // K线收盘时间
+  price: number; // 收盘标记价格
+  pnl: number; // 含已付资金费的盈亏
+}
+
+export interface BacktestResult {
+  entryPrice: number;
+  liquidationPrice: number; // 0 表示不会爆仓
+  liquidated: boolean;
+  liquidationTime?: number; // 触及爆仓价格的K线开盘时间
+  mae: Excursion; // 最大不利波动
+  mfe: Excursion; // 最大有利波动
+  fundingPaid: number; // 支付的资金费（负数表示收到），保证金币种
+  fundingEvents: number;
+  exitTime: number; // 实际结束时间（爆仓时为爆仓时间）
+  exitPrice: number;
+  exitPnl: number; // 平仓（或爆仓）时的盈亏，含手续费和资金费
+  exitPnlPercent: number;
+  timeline: BacktestTimelinePoint[];
+}
+
+/**
+ * 运行回测，开仓时间之后没有K线时返回 null
+ * 爆仓价格按开仓时计算，未计入资金费对保证金的影响；同一根K线内先按不利方向判断爆仓。
+ * 开仓或平仓时刻落在K线内部时，该K线按整根的最高/最低价判断（偏保守），
+ * 需要精确结果时首尾使用1分钟K线。
+ */
+export function runBacktest(input: BacktestInput): BacktestResult | null {
+  const klines = input.klines.filter(
+    (k) => k.closeTime >= input.entryTime && k.openTime < input.exitTime
+  );
+  if (klines.length === 0) {
+    return null;
+  }
+
+  const isLong = input.params.positionType === "long";
+  const side = isLong ? 1 : -1;
+  const entryPrice = klines[0].open;
+  const params: ContractParams = { ...input.params, openPrice: entryPrice, accumulatedFunding: 0 };
+  const result = calculateContract(params);
+  const inverse = params.contractType === "inverse";
+  const liquidationPrice = result.liquidationPrice;
+
+  const excursion = (price: number, time: number): Excursion => ({
+    price,
+    time,
+    percent: ((price - entryPrice) / entryPrice) * 100 * side,
+    pnl: result.profitAtPrice(price),
+  });
+  let mae = excursion(entryPrice, klines[0].openTime);
+  let mfe = excursion(entryPrice, klines[0].openTime);
+
+  // 资金费：多头在费率为正时支付，按结算时刻的标记价格计算名义价值
+  const fundings = input.fundingRates
+    .filter((f) => f.fundingTime > input.entryTime)
+    .sort((a, b) => a.fundingTime - b.fundingTime);
+  let fundingIndex = 0;
+  let fundingPaid = 0;
+  let fundingEvents = 0;
+  const fundingAmount = (rate: number, price: number) =>
+    side * rate * (inverse ? result.positionSize / price : result.positionSizeInCoin * price);
+
+  const timeline: BacktestTimelinePoint[] = [];
+  let liquidationTime: number | undefined;
+  let exitTime = input.exitTime;
+  let exitPrice = klines[klines.length - 1].close;
+
+  for (const kline of klines) {
+    // 结算时刻落在本根K线内的资金费，按开盘价近似结算价格
+    while (
+      fundingIndex < fundings.length &&
+      fundings[fundingIndex].fundingTime <= Math.min(kline.closeTime, input.exitTime)
+    ) {
+      const funding = fundings[fundingIndex++];
+      if (funding.fundingTime >= kline.openTime) {
+        fundingPaid += fundingAmount(funding.fundingRate, kline.open);
+        fundingEvents++;
+      }
+    }
+
+    const adverse = isLong ? kline.low : kline.high;
+    const favourable = isLong ? kline.high : kline.low;
+    if (side * (adverse - mae.price) < 0) mae = excursion(adverse, kline.openTime);
+    if (side * (favourable - mfe.price) > 0) mfe = excursion(favourable, kline.openTime);
+
+    if (liquidationPrice > 0 && side * (adverse - liquidationPrice) <= 0) {
+      liquidationTime = kline.openTime;
+      exitTime = kline.openTime;
+      exitPrice = liquidationPrice;
+      if (side * (mae.price - liquidationPrice) < 0) {
+        mae = excursion(liquidationPrice, kline.openTime);
+      }
+      timeline.push({
+        time: kline.closeTime,
+        price: liquidationPrice,
+        pnl: result.profitAtPrice(liquidationPrice) - fundingPaid,
+      });
+      break;
+    }
+
+    // 平仓时间落在本根K线内（包括尚未收盘的最新K线）时按开盘价近似平仓价格
+    const partialExit = kline.closeTime >= input.exitTime;
+    exitPrice = partialExit ? kline.open : kline.close;
+    timeline.push({
+      time: Math.min(kline.closeTime, input.exitTime),
+      price: exitPrice,
+      pnl: result.profitAtPrice(exitPrice) - fundingPaid,
+    });
+  }
+
+  const exitPnl = result.profitAtPrice(exitPrice) - fundingPaid;
+  return {
+    entryPrice,
+    liquidationPrice,
+    liquidated: liquidationTime !== undefined,
+    liquidationTime,
+    mae,
+    mfe,
+    fundingPaid,
+    fundingEvents,
+    exitTime,
+    exitPrice,
+    exitPnl,
+    exitPnlPercent: (exitPnl / params.margin) * 100,
+    timeline,
+  };
+}
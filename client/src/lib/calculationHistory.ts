@@ -0,0 +1,142 @@
+/**
+ * 计算历史记录
+ * 登录用户保存在服务端（calculations 表），未登录时保存在localStorage；
+ * 两者使用相同的记录结构，保存完整的计算参数和结果快照
+ */
+
+import type { ExchangeId } from "@shared/exchanges";
+import type { CalculationResult, ContractParams } from "@shared/contractCalculator";
+
+const STORAGE_KEY = "calculation_history";
+const MAX_LOCAL_ENTRIES = 100; // localStorage 最多保留的记录数，超出时删除最早的记录
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+// 结果快照：去掉按价格计算盈亏的函数，只保留可序列化的数值
+export type CalculationResultSnapshot = Omit<
+  CalculationResult,
+  "profitAtPrice" | "profitPercentAtPrice"
+>;
+
+export interface SavedCalculation {
+  id: number;
+  name: string;
+  exchange: ExchangeId;
+  symbol: string;
+  tags: string[];
+  params: ContractParams;
+  result: CalculationResultSnapshot;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NewCalculation = Omit<SavedCalculation, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * 服务端返回的记录（params/result 为JSON）
+ */
+interface StoredCalculation {
+  id: number;
+  name: string;
+  exchange: string;
+  symbol: string;
+  tags: string[];
+  params: Record<string, unknown>;
+  result: Record<string, unknown>;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export function toResultSnapshot(result: CalculationResult): CalculationResultSnapshot {
+  const { profitAtPrice, profitPercentAtPrice, ...snapshot } = result;
+  return snapshot;
+}
+
+export function toSavedCalculation(stored: StoredCalculation): SavedCalculation {
+  return {
+    ...stored,
+    exchange: stored.exchange as ExchangeId,
+    params: stored.params as unknown as ContractParams,
+    result: stored.result as unknown as CalculationResultSnapshot,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  };
+}
+
+/**
+ * 解析标签输入：逗号（中英文）或空格分隔，去重并限制数量和长度
+ */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(/[,，\s]+/)
+    .map((tag) => tag.trim().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+/**
+ * 读取本地历史记录（按更新时间倒序）
+ */
+export function getLocalCalculations(): SavedCalculation[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed
+      .map(toSavedCalculation)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  } catch (error) {
+    console.error("Failed to read calculation history:", error);
+    return [];
+  }
+}
+
+function writeLocalCalculations(calculations: SavedCalculation[]): SavedCalculation[] {
+  const kept = calculations.slice(0, MAX_LOCAL_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error("Failed to save calculation history:", error);
+  }
+  return kept;
+}
+
+/**
+ * 保存一条本地记录，返回新的记录列表
+ */
+export function saveLocalCalculation(calculation: NewCalculation): SavedCalculation[] {
+  const current = getLocalCalculations();
+  const now = new Date();
+  const id = current.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+  return writeLocalCalculations([
+    { ...calculation, id, createdAt: now, updatedAt: now },
+    ...current,
+  ]);
+}
+
+/**
+ * 重命名或修改标签，返回新的记录列表
+ */
+export function updateLocalCalculation(
+  id: number,
+  changes: Partial<Pick<SavedCalculation, "name" | "tags">>
+): SavedCalculation[] {
+  const current = getLocalCalculations();
+  return writeLocalCalculations(
+    current
+      .map((c) => (c.id === id ? { ...c, ...changes, updatedAt: new Date() } : c))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  );
+}
+
+/**
+ * 删除一条本地记录，返回新的记录列表
+ */
+export function deleteLocalCalculation(id: number): SavedCalculation[] {
+  return writeLocalCalculations(getLocalCalculations().filter((c) => c.id !== id));
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { calculateContract } from "@shared/contractCalculator";
+import { planLadder } from "./dcaPlanner";
+
+describe("planLadder", () => {
+  const base = {
+    marginMode: "isolated" as const,
+    positionType: "long" as const,
+    maintainanceRate: 0.004,
+  };
+
+  it("accumulates a quantity weighted average entry", () => {
+    const steps = planLadder(base, [
+      { price: 60000, size: 6000, marginAdded: 600 },
+      { price: 50000, size: 5000, marginAdded: 0 },
+    ]);
+    expect(steps[0].effectiveLeverage).toBe(10);
+    expect(steps[1].totalQuantity).toBeCloseTo(0.2, 12);
+    expect(steps[1].averageEntry).toBeCloseTo(55000, 8);
+    expect(steps[1].effectiveLeverage).toBeCloseTo(11000 / 600, 12);
+  });
+
+  it("prices every step with the calculator", () => {
+    const [step] = planLadder(base, [{ price: 60000, size: 6000, marginAdded: 600 }]);
+    const direct = calculateContract({ ...base, openPrice: 60000, margin: 600, leverage: 10 });
+    expect(step.liquidationPrice).toBe(direct.liquidationPrice);
+    expect(step.breakEvenPrice).toBe(direct.breakEvenPrice);
+  });
+
+  it("averages inverse entries harmonically", () => {
+    const steps = planLadder({ ...base, contractType: "inverse" }, [
+      { price: 60000, size: 6000, marginAdded: 0.01 },
+      { price: 40000, size: 6000, marginAdded: 0 },
+    ]);
+    expect(steps[1].averageEntry).toBeCloseTo(48000, 8);
+  });
+});
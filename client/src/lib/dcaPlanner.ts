@@ -0,0 +1,91 @@
+/**
+ * 分批建仓（DCA）阶梯规划
+ * 按计划成交逐笔累加仓位，复用合约计算器的手续费和维持保证金逻辑
+ */
+
+import {
+  calculateContract,
+  CalculationResult,
+  ContractParams,
+} from "@shared/contractCalculator";
+
+/**
+ * 计划成交的一笔加仓
+ */
+export interface LadderFill {
+  price: number; // 成交价格
+  size: number; // 加仓名义价值（USD），为0表示仅追加保证金
+  marginAdded: number; // 本次投入的保证金（保证金币种）
+}
+
+/**
+ * 每笔成交后的累计仓位状态
+ */
+export interface LadderStep {
+  fill: LadderFill;
+  averageEntry: number; // 累计均价
+  totalNotional: number; // 累计名义价值（USD，按成交价计）
+  totalQuantity: number; // 累计持仓数量（币）
+  totalMargin: number; // 累计保证金（保证金币种）
+  effectiveLeverage: number; // 实际杠杆 = 名义价值 / 保证金价值
+  liquidationPrice: number;
+  breakEvenPrice: number;
+  result: CalculationResult; // 以累计仓位计算的完整结果
+}
+
+/**
+ * 阶梯规划共用的合约参数（开仓价、保证金、杠杆由成交累计得出）
+ */
+export type LadderBaseParams = Omit<
+  ContractParams,
+  "openPrice" | "margin" | "leverage"
+>;
+
+/**
+ * 逐笔计算加仓后的均价、名义价值、实际杠杆、爆仓价格和保本价格
+ *
+ * 均价按数量加权：均价 = Σ名义价值 / Σ(名义价值 / 成交价)，
+ * U本位和币本位均适用（币本位即为调和平均）。
+ */
+export function planLadder(
+  base: LadderBaseParams,
+  fills: LadderFill[]
+): LadderStep[] {
+  const inverse = base.contractType === "inverse";
+  let totalNotional = 0;
+  let totalQuantity = 0;
+  let totalMargin = 0;
+
+  return fills.map((fill) => {
+    if (fill.price > 0 && fill.size > 0) {
+      totalNotional += fill.size;
+      totalQuantity += fill.size / fill.price;
+    }
+    totalMargin += fill.marginAdded;
+
+    const averageEntry =
+      totalQuantity > 0 ? totalNotional / totalQuantity : fill.price;
+    // 币本位保证金以币计，需按均价折算为USD后再求杠杆
+    const marginValue = inverse ? totalMargin * averageEntry : totalMargin;
+    const effectiveLeverage = marginValue > 0 ? totalNotional / marginValue : 0;
+
+    const result = calculateContract({
+      ...base,
+      openPrice: averageEntry,
+      margin: totalMargin,
+      leverage: effectiveLeverage,
+    });
+
+    return {
+      fill,
+      averageEntry,
+      totalNotional,
+      totalQuantity,
+      totalMargin,
+      effectiveLeverage,
+      liquidationPrice: result.liquidationPrice,
+      breakEvenPrice: result.breakEvenPrice,
+      result,
+    };
+  });
+}
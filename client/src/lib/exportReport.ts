@@ -0,0 +1,168 @@
+/**
+ * 计算结果导出：CSV、JSON 和风险报告（PDF，见 shared/riskReport）
+ * 生成的文件可直接下载，也可上传到服务端存储生成分享链接
+ */
+
+import { EXCHANGE_NAMES } from "@shared/exchanges";
+import {
+  calculationWarnings,
+  exportTimestamp,
+  pnlScenarios,
+  summarySections,
+  type CalculationExportInput,
+  type ExportFile,
+  type ReportCell,
+} from "@shared/riskReport";
+import { toResultSnapshot, type SavedCalculation } from "./calculationHistory";
+
+function csvCell(value: ReportCell): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "number" ? (isFinite(value) ? String(value) : "") : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 生成CSV文本，带 BOM 以便 Excel 正确识别中文
+ */
+export function toCsv(rows: ReportCell[][]): string {
+  return "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+export function exportCalculationCsv(input: CalculationExportInput): ExportFile<"text/csv"> {
+  const rows: ReportCell[][] = [["分类", "项目", "数值"]];
+  for (const section of summarySections(input)) {
+    for (const [label, value] of section.rows) {
+      rows.push([section.title, label, value]);
+    }
+  }
+  rows.push([], ["盈亏情景", "价格", "盈亏", "收益率 (%)"]);
+  for (const scenario of pnlScenarios(input.params, input.result)) {
+    rows.push([scenario.label, scenario.price, scenario.pnl, scenario.roe]);
+  }
+  return {
+    fileName: `${input.symbol}-calculation-${exportTimestamp()}.csv`,
+    contentType: "text/csv",
+    content: toCsv(rows),
+  };
+}
+
+export function exportCalculationJson(input: CalculationExportInput): ExportFile<"application/json"> {
+  const data = {
+    exportedAt: new Date().toISOString(),
+    exchange: input.exchange,
+    symbol: input.symbol,
+    marginAsset: input.marginAsset,
+    markPrice: input.markPrice ?? null,
+    params: input.params,
+    result: toResultSnapshot(input.result),
+    scenarios: pnlScenarios(input.params, input.result),
+    warnings: calculationWarnings(input),
+  };
+  return {
+    fileName: `${input.symbol}-calculation-${exportTimestamp()}.json`,
+    contentType: "application/json",
+    content: JSON.stringify(data, null, 2),
+  };
+}
+
+/**
+ * 多仓位对比表的一行
+ */
+export interface ComparisonExportRow {
+  name: string;
+  symbol?: string;
+  positionType: "long" | "short";
+  marginMode: "isolated" | "cross";
+  openPrice: number;
+  margin: number;
+  leverage: number;
+  positionSize: number;
+  liquidationPrice: number;
+  exchangeLiquidationPrice?: number;
+  riskPercentage: number;
+  profit: number;
+  profitPercent: number;
+}
+
+export function exportComparisonCsv(rows: ComparisonExportRow[]): ExportFile<"text/csv"> {
+  return {
+    fileName: `position-comparison-${exportTimestamp()}.csv`,
+    contentType: "text/csv",
+    content: toCsv([
+      ["仓位", "交易对", "方向", "保证金模式", "开仓价格", "保证金", "杠杆", "头寸价值", "爆仓价格", "交易所强平价", "距爆仓 (%)", "当前盈亏", "盈亏 (%)"],
+      ...rows.map((r) => [
+        r.name,
+        r.symbol,
+        r.positionType === "long" ? "多头" : "空头",
+        r.marginMode === "isolated" ? "逐仓" : "全仓",
+        r.openPrice,
+        r.margin,
+        r.leverage,
+        r.positionSize,
+        r.liquidationPrice,
+        r.exchangeLiquidationPrice,
+        r.riskPercentage,
+        r.profit,
+        r.profitPercent,
+      ]),
+    ]),
+  };
+}
+
+export function exportComparisonJson(rows: ComparisonExportRow[]): ExportFile<"application/json"> {
+  return {
+    fileName: `position-comparison-${exportTimestamp()}.json`,
+    contentType: "application/json",
+    content: JSON.stringify({ exportedAt: new Date().toISOString(), positions: rows }, null, 2),
+  };
+}
+
+export function exportHistoryCsv(calculations: SavedCalculation[]): ExportFile<"text/csv"> {
+  return {
+    fileName: `calculation-history-${exportTimestamp()}.csv`,
+    contentType: "text/csv",
+    content: toCsv([
+      ["名称", "标签", "交易所", "交易对", "方向", "保证金模式", "开仓价格", "保证金", "杠杆", "爆仓价格", "保本价格", "总手续费", "保存时间"],
+      ...calculations.map((c) => [
+        c.name,
+        c.tags.join(" "),
+        EXCHANGE_NAMES[c.exchange] ?? c.exchange,
+        c.symbol,
+        c.params.positionType === "long" ? "多头" : "空头",
+        c.params.marginMode === "isolated" ? "逐仓" : "全仓",
+        c.params.openPrice,
+        c.params.margin,
+        c.params.leverage,
+        c.result.liquidationPrice,
+        c.result.breakEvenPrice,
+        c.result.totalFeeAmount,
+        c.updatedAt.toISOString(),
+      ]),
+    ]),
+  };
+}
+
+export function exportHistoryJson(calculations: SavedCalculation[]): ExportFile<"application/json"> {
+  return {
+    fileName: `calculation-history-${exportTimestamp()}.json`,
+    contentType: "application/json",
+    content: JSON.stringify({ exportedAt: new Date().toISOString(), calculations }, null, 2),
+  };
+}
+
+/**
+ * 在浏览器中下载文件
+ */
+export function downloadExportFile(file: ExportFile): void {
+  const type =
+    file.contentType === "application/pdf" ? file.contentType : `${file.contentType};charset=utf-8`;
+  const blob = new Blob([file.content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,50 @@
+/**
+ * 收藏的交易对（保存在localStorage中，在币种选择器中置顶显示）
+ */
+
+const STORAGE_KEY = "favorite_symbols";
+
+// 未设置收藏时默认置顶的主流交易对
+const DEFAULT_FAVORITES = [
+  "BTCUSDT",
+  "ETHUSDT",
+  "BNBUSDT",
+  "SOLUSDT",
+  "XRPUSDT",
+  "DOGEUSDT",
+  "BTCUSD_PERP",
+  "ETHUSD_PERP",
+];
+
+/**
+ * 读取收藏列表
+ */
+export function getFavoriteSymbols(): string[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return DEFAULT_FAVORITES;
+    }
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed : DEFAULT_FAVORITES;
+  } catch (error) {
+    console.error("Failed to read favorite symbols:", error);
+    return DEFAULT_FAVORITES;
+  }
+}
+
+/**
+ * 切换某个交易对的收藏状态，返回新的收藏列表
+ */
+export function toggleFavoriteSymbol(symbol: string): string[] {
+  const current = getFavoriteSymbols();
+  const next = current.includes(symbol)
+    ? current.filter((s) => s !== symbol)
+    : [...current, symbol];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.error("Failed to save favorite symbols:", error);
+  }
+  return next;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeFeeRate,
+  getVipFeeTier,
+  resolveFeeRates,
+  type FeeSettings,
+} from "./feeSchedule";
+
+const settings: FeeSettings = {
+  exchange: "binance",
+  source: "schedule",
+  vipTier: 0,
+  entryRole: "maker",
+  exitRole: "taker",
+  bnbDiscount: false,
+  contractType: "linear",
+  manualOpenFee: 0.001,
+  manualCloseFee: 0.002,
+};
+
+describe("getVipFeeTier", () => {
+  it("clamps out-of-range tiers to the schedule", () => {
+    expect(getVipFeeTier("binance", 12).label).toBe("VIP9");
+    expect(getVipFeeTier("bybit", -1).label).toBe("Non-VIP");
+    expect(getVipFeeTier("okx", 3).label).toBe("Lv1");
+  });
+});
+
+describe("resolveFeeRates", () => {
+  it("prices each leg by its order role from the selected tier", () => {
+    const { open, close } = resolveFeeRates({ ...settings, vipTier: 1 });
+    expect(open).toMatchObject({ rate: 0.00016, role: "maker", source: "schedule", tierLabel: "VIP1" });
+    expect(close).toMatchObject({ rate: 0.0004, role: "taker", source: "schedule" });
+  });
+
+  it("prefers account rates over the detected tier, and the detected tier over the selected one", () => {
+    const detected = resolveFeeRates({ ...settings, detectedTier: 3 });
+    expect(detected.close).toMatchObject({ rate: 0.00032, source: "detected", tierLabel: "VIP3" });
+
+    const account = resolveFeeRates({
+      ...settings,
+      detectedTier: 3,
+      accountRates: { maker: 0.0001, taker: 0.0003 },
+    });
+    expect(account.open).toMatchObject({ rate: 0.0001, source: "account" });
+    expect(account.close).toMatchObject({ rate: 0.0003, source: "account" });
+  });
+
+  it("applies the BNB discount only to Binance USDⓈ-M contracts", () => {
+    expect(resolveFeeRates({ ...settings, bnbDiscount: true }).close.rate).toBeCloseTo(0.00045, 12);
+    expect(
+      resolveFeeRates({ ...settings, bnbDiscount: true, contractType: "inverse" }).close.rate
+    ).toBe(0.0005);
+    expect(
+      resolveFeeRates({ ...settings, bnbDiscount: true, exchange: "bybit" }).close.rate
+    ).toBe(0.00055);
+  });
+
+  it("uses the manual rates as entered", () => {
+    const { open, close } = resolveFeeRates({ ...settings, source: "manual", bnbDiscount: true });
+    expect(open).toEqual({ rate: 0.001, source: "manual", bnbDiscount: false });
+    expect(close.rate).toBe(0.002);
+  });
+});
+
+describe("describeFeeRate", () => {
+  it("names the role, source and discount", () => {
+    const { open } = resolveFeeRates({ ...settings, bnbDiscount: true });
+    expect(describeFeeRate(open)).toBe("Maker · VIP0 费率表 · BNB 9折");
+    expect(describeFeeRate(resolveFeeRates({ ...settings, source: "manual" }).close)).toBe(
+      "手动输入"
+    );
+  });
+});
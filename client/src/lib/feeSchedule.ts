@@ -0,0 +1,166 @@
+/**
+ * 合约手续费模型
+ * 开仓和平仓分别按挂单（maker）或吃单（taker）计费，费率取自VIP等级费率表
+ */
+
+import type { ExchangeId } from "@shared/exchanges";
+import { ContractType } from "@shared/contractCalculator";
+
+export type OrderRole = "maker" | "taker";
+
+/**
+ * 费率来源
+ * - schedule：内置VIP费率表（手动选择等级）
+ * - detected：内置VIP费率表（通过API密钥检测账户等级）
+ * - account：通过API密钥获取的该交易对账户实际费率
+ * - manual：高级参数中手动输入的费率
+ */
+export type FeeRateSource = "schedule" | "detected" | "account" | "manual";
+
+export interface VipFeeTier {
+  tier: number;
+  label: string; // 交易所对该等级的称呼，如 VIP0、Lv1
+  maker: number;
+  taker: number;
+}
+
+/**
+ * 币安合约VIP费率表（U本位与币本位相同）
+ */
+export const BINANCE_FUTURES_FEE_SCHEDULE: VipFeeTier[] = [
+  { tier: 0, label: "VIP0", maker: 0.0002, taker: 0.0005 },
+  { tier: 1, label: "VIP1", maker: 0.00016, taker: 0.0004 },
+  { tier: 2, label: "VIP2", maker: 0.00014, taker: 0.00035 },
+  { tier: 3, label: "VIP3", maker: 0.00012, taker: 0.00032 },
+  { tier: 4, label: "VIP4", maker: 0.0001, taker: 0.0003 },
+  { tier: 5, label: "VIP5", maker: 0.00008, taker: 0.00027 },
+  { tier: 6, label: "VIP6", maker: 0.00006, taker: 0.00025 },
+  { tier: 7, label: "VIP7", maker: 0.00004, taker: 0.00022 },
+  { tier: 8, label: "VIP8", maker: 0.00002, taker: 0.0002 },
+  { tier: 9, label: "VIP9", maker: 0, taker: 0.00017 },
+];
+
+/**
+ * Bybit 合约VIP费率表
+ */
+export const BYBIT_FUTURES_FEE_SCHEDULE: VipFeeTier[] = [
+  { tier: 0, label: "Non-VIP", maker: 0.0002, taker: 0.00055 },
+  { tier: 1, label: "VIP1", maker: 0.00018, taker: 0.0004 },
+  { tier: 2, label: "VIP2", maker: 0.00016, taker: 0.000375 },
+  { tier: 3, label: "VIP3", maker: 0.00014, taker: 0.00035 },
+  { tier: 4, label: "VIP4", maker: 0.00012, taker: 0.00032 },
+  { tier: 5, label: "VIP5", maker: 0.0001, taker: 0.00032 },
+  { tier: 6, label: "Supreme VIP", maker: 0, taker: 0.0003 },
+];
+
+/**
+ * OKX 永续合约费率（普通用户Lv1，更高等级按资产与交易量评定，请手动输入）
+ */
+export const OKX_FUTURES_FEE_SCHEDULE: VipFeeTier[] = [
+  { tier: 0, label: "Lv1", maker: 0.0002, taker: 0.0005 },
+];
+
+export const FEE_SCHEDULES: Record<ExchangeId, VipFeeTier[]> = {
+  binance: BINANCE_FUTURES_FEE_SCHEDULE,
+  okx: OKX_FUTURES_FEE_SCHEDULE,
+  bybit: BYBIT_FUTURES_FEE_SCHEDULE,
+};
+
+// 币安使用BNB抵扣U本位合约手续费享受10%折扣，币本位合约不支持
+export const BNB_FEE_DISCOUNT = 0.1;
+
+export interface FeeSettings {
+  exchange: ExchangeId;
+  source: "schedule" | "manual";
+  vipTier: number; // 手动选择的VIP等级
+  detectedTier?: number; // 通过API密钥检测到的VIP等级，存在时优先于手动选择
+  accountRates?: { maker: number; taker: number }; // 交易对的账户实际费率，存在时优先使用
+  entryRole: OrderRole;
+  exitRole: OrderRole;
+  bnbDiscount: boolean;
+  contractType: ContractType;
+  manualOpenFee: number; // 手动开仓费率（小数）
+  manualCloseFee: number; // 手动平仓费率（小数）
+}
+
+export interface AppliedFeeRate {
+  rate: number; // 实际使用的费率（小数）
+  role?: OrderRole;
+  source: FeeRateSource;
+  tierLabel?: string;
+  bnbDiscount: boolean; // 是否已计入BNB抵扣折扣
+}
+
+/**
+ * 查找VIP等级对应的费率，超出范围时取最接近的等级
+ */
+export function getVipFeeTier(exchange: ExchangeId, tier: number): VipFeeTier {
+  const schedule = FEE_SCHEDULES[exchange];
+  const index = Math.min(Math.max(Math.floor(tier), 0), schedule.length - 1);
+  return schedule[index];
+}
+
+function resolveLeg(settings: FeeSettings, role: OrderRole, manualRate: number): AppliedFeeRate {
+  if (settings.source === "manual") {
+    return { rate: manualRate, source: "manual", bnbDiscount: false };
+  }
+
+  const discount =
+    settings.bnbDiscount &&
+    settings.exchange === "binance" &&
+    settings.contractType === "linear";
+  const applyDiscount = (rate: number) =>
+    discount ? rate * (1 - BNB_FEE_DISCOUNT) : rate;
+
+  if (settings.accountRates) {
+    const rate =
+      role === "maker" ? settings.accountRates.maker : settings.accountRates.taker;
+    return {
+      rate: applyDiscount(rate),
+      role,
+      source: "account",
+      bnbDiscount: discount,
+    };
+  }
+
+  const detected = settings.detectedTier !== undefined;
+  const tier = getVipFeeTier(
+    settings.exchange,
+    detected ? settings.detectedTier! : settings.vipTier
+  );
+  return {
+    rate: applyDiscount(role === "maker" ? tier.maker : tier.taker),
+    role,
+    source: detected ? "detected" : "schedule",
+    tierLabel: tier.label,
+    bnbDiscount: discount,
+  };
+}
+
+/**
+ * 根据手续费设置计算开仓和平仓费率
+ */
+export function resolveFeeRates(settings: FeeSettings): {
+  open: AppliedFeeRate;
+  close: AppliedFeeRate;
+} {
+  return {
+    open: resolveLeg(settings, settings.entryRole, settings.manualOpenFee),
+    close: resolveLeg(settings, settings.exitRole, settings.manualCloseFee),
+  };
+}
+
+/**
+ * 费率来源说明，如 "Taker · VIP0 费率表 · BNB 9折"
+ */
+export function describeFeeRate(fee: AppliedFeeRate): string {
+  if (fee.source === "manual") return "手动输入";
+  const sourceLabel = {
+    schedule: `${fee.tierLabel} 费率表`,
+    detected: `${fee.tierLabel}（API检测）`,
+    account: "账户实际费率",
+  }[fee.source];
+  const parts = [fee.role === "maker" ? "Maker" : "Taker", sourceLabel];
+  if (fee.bnbDiscount) parts.push("BNB 9折");
+  return parts.join(" · ");
+}
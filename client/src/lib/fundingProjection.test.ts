@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { ContractParams } from "@shared/contractCalculator";
+import { projectFunding } from "./fundingProjection";
+
+const params: ContractParams = {
+  openPrice: 60000,
+  margin: 1000,
+  leverage: 10,
+  marginMode: "isolated",
+  positionType: "long",
+  maintainanceRate: 0.004,
+  openFee: 0.0002,
+  closeFee: 0.0005,
+};
+
+describe("projectFunding", () => {
+  it("replays historical rates in order over the settlements in the holding period", () => {
+    // 50 小时内 8 小时结算 6 次，名义价值 10000
+    const projection = projectFunding({
+      params,
+      holdingHours: 50,
+      fundingIntervalHours: 8,
+      rates: [0.0001, -0.0002],
+    });
+    expect(projection.periods).toBe(6);
+    expect(projection.payments).toEqual([1, -2, 1, -2, 1, -2]);
+    expect(projection.totalFunding).toBeCloseTo(-3, 10);
+    expect(projection.averageRate).toBeCloseTo(-0.00005, 12);
+    expect(projection.marginBuffer).toBeCloseTo(1000 - 10000 * 0.004, 10);
+    expect(projection.bufferErosionPercent).toBeCloseTo((-3 / 960) * 100, 10);
+  });
+
+  it("shifts the break-even price by the funding cost", () => {
+    const projection = projectFunding({
+      params,
+      holdingHours: 24,
+      fundingIntervalHours: 8,
+      rates: [0.0001],
+    });
+    // 多头支付 3，保本价格上移 3 / 数量 / (1 - 平仓费率)
+    expect(projection.totalFunding).toBeCloseTo(3, 10);
+    expect(projection.breakEvenShift).toBeCloseTo(3 / (1 / 6) / 0.9995, 8);
+
+    const withPaid = projectFunding({
+      params: { ...params, accumulatedFunding: 3 },
+      holdingHours: 24,
+      fundingIntervalHours: 8,
+      rates: [0.0001],
+    });
+    expect(withPaid.breakEvenPrice - projection.breakEvenPrice).toBeCloseTo(
+      projection.breakEvenShift,
+      8
+    );
+  });
+
+  it("lets shorts receive positive funding", () => {
+    const projection = projectFunding({
+      params: { ...params, positionType: "short" },
+      holdingHours: 24,
+      fundingIntervalHours: 8,
+      rates: [0.0001],
+    });
+    expect(projection.payments).toEqual([-1, -1, -1]);
+    expect(projection.breakEvenShift).toBeGreaterThan(0);
+  });
+
+  it("moves the liquidation price as funding drains the isolated margin", () => {
+    const paying = projectFunding({
+      params,
+      holdingHours: 800,
+      fundingIntervalHours: 8,
+      rates: [0.0005],
+    });
+    expect(paying.totalFunding).toBeCloseTo(500, 8);
+    // 保证金剩余 500，相当于 20x：60000 × 0.95 / 0.996
+    expect(paying.liquidationPriceAfter).toBeCloseTo((60000 * 0.95) / 0.996, 6);
+
+    const exhausted = projectFunding({
+      params,
+      holdingHours: 800,
+      fundingIntervalHours: 8,
+      rates: [0.002],
+    });
+    expect(exhausted.liquidationPriceAfter).toBe(params.openPrice);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * 持仓期间资金费用预测
+ * 支持固定费率、当前费率和历史资金费率回放
+ */
+
+import {
+  calculateContract,
+  ContractParams,
+  solveBreakEvenPrice,
+} from "@shared/contractCalculator";
+
+/**
+ * 资金费率来源
+ * - constant：手动输入的固定费率
+ * - current：交易所当前资金费率（premiumIndex）
+ * - history：按顺序回放历史资金费率
+ */
+export type FundingSource = "constant" | "current" | "history";
+
+export interface FundingProjectionInput {
+  params: ContractParams;
+  holdingHours: number; // 持仓时长（小时）
+  fundingIntervalHours: number; // 资金费结算周期（小时，通常为4或8）
+  rates: number[]; // 每次结算的资金费率；固定/当前费率为单个元素，历史回放按时间顺序循环使用
+}
+
+export interface FundingProjectionResult {
+  periods: number; // 持仓期间的结算次数
+  payments: number[]; // 每次结算支付的资金费（正数为支付，负数为收取）
+  totalFunding: number; // 资金费合计（保证金币种，正数为支付）
+  averageRate: number; // 实际使用的平均费率
+  breakEvenPrice: number; // 计入资金费后的保本价格
+  breakEvenShift: number; // 保本价格因资金费产生的变化
+  liquidationPriceAfter: number; // 资金费从保证金中扣除后的爆仓价格
+  marginBuffer: number; // 开仓时距离爆仓的保证金缓冲（保证金 - 维持保证金）
+  bufferErosionPercent: number; // 资金费占用的缓冲比例（%）
+}
+
+/**
+ * 计算持仓期间的资金费用及其对保本价格和爆仓缓冲的影响
+ *
+ * 资金费按名义价值结算：支付额 = 方向 × 名义价值 × 费率，
+ * 多头在费率为正时支付，空头在费率为正时收取。
+ */
+export function projectFunding(
+  input: FundingProjectionInput
+): FundingProjectionResult {
+  const { params } = input;
+  const result = calculateContract(params);
+  const side = params.positionType === "long" ? 1 : -1;
+  // 以保证金币种计的名义价值
+  const notional =
+    params.contractType === "inverse"
+      ? result.positionSizeInCoin
+      : result.positionSize;
+
+  const periods =
+    input.fundingIntervalHours > 0
+      ? Math.floor(input.holdingHours / input.fundingIntervalHours)
+      : 0;
+  const payments: number[] = [];
+  for (let i = 0; i < periods && input.rates.length > 0; i++) {
+    const rate = input.rates[i % input.rates.length];
+    payments.push(side * notional * rate);
+  }
+  const totalFunding = payments.reduce((sum, p) => sum + p, 0);
+  const averageRate =
+    payments.length > 0 && notional > 0
+      ? totalFunding / (side * notional * payments.length)
+      : 0;
+
+  const breakEvenInput = {
+    contractType: params.contractType ?? "linear",
+    positionType: params.positionType,
+    openPrice: params.openPrice,
+    quantity: result.positionSizeInCoin,
+    openFeeRate: params.openFee ?? 0.0002,
+    closeFeeRate: params.closeFee ?? 0.0002,
+  } as const;
+  const breakEvenPrice = solveBreakEvenPrice({
+    ...breakEvenInput,
+    fundingCost: (params.accumulatedFunding ?? 0) + totalFunding,
+  });
+
+  // 资金费从逐仓保证金或全仓钱包余额中扣除，头寸名义价值保持不变
+  const crossAccount =
+    params.marginMode === "cross" ? params.crossAccount : undefined;
+  const reducedMargin = params.margin - totalFunding;
+  let liquidationPriceAfter: number;
+  if (crossAccount) {
+    liquidationPriceAfter = calculateContract({
+      ...params,
+      crossAccount: {
+        ...crossAccount,
+        walletBalance: crossAccount.walletBalance - totalFunding,
+      },
+    }).liquidationPrice;
+  } else if (reducedMargin > 0) {
+    liquidationPriceAfter = calculateContract({
+      ...params,
+      margin: reducedMargin,
+      leverage: (params.margin * params.leverage) / reducedMargin,
+    }).liquidationPrice;
+  } else {
+    // 保证金被资金费耗尽，按开仓价格即被强平处理
+    liquidationPriceAfter = params.openPrice;
+  }
+
+  const marginBuffer =
+    (crossAccount
+      ? crossAccount.walletBalance -
+        crossAccount.otherMaintenanceMargin +
+        crossAccount.otherUnrealizedPnl
+      : params.margin) - result.maintenanceMargin;
+  const bufferErosionPercent =
+    marginBuffer > 0 ? (totalFunding / marginBuffer) * 100 : 0;
+
+  return {
+    periods,
+    payments,
+    totalFunding,
+    averageRate,
+    breakEvenPrice,
+    breakEvenShift: breakEvenPrice - solveBreakEvenPrice(breakEvenInput),
+    liquidationPriceAfter,
+    marginBuffer,
+    bufferErosionPercent,
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { calculateGridBot, gridPrices, type GridBotInput } from "./gridBot";
+
+const input: GridBotInput = {
+  lowerPrice: 50000,
+  upperPrice: 70000,
+  gridCount: 10,
+  spacing: "arithmetic",
+  investment: 1000,
+  leverage: 5,
+  direction: "long",
+  currentPrice: 60000,
+  makerFee: 0.0002,
+  takerFee: 0.0005,
+};
+
+describe("gridPrices", () => {
+  it("spaces levels evenly or by a constant ratio", () => {
+    expect(gridPrices(100, 200, 4, "arithmetic")).toEqual([100, 125, 150, 175, 200]);
+    const geometric = gridPrices(100, 400, 2, "geometric");
+    expect(geometric[1]).toBeCloseTo(200, 10);
+  });
+});
+
+describe("calculateGridBot", () => {
+  it("sizes grids so a fully filled side uses the whole investment", () => {
+    const result = calculateGridBot({}, input)!;
+    // 买入价高于启动价格的4格按启动价格吃单成交，其余6格按买入价挂单成交
+    const perUnit =
+      4 * (60000 / 5 + 60000 * 0.0005) +
+      [50000, 52000, 54000, 56000, 58000, 60000].reduce((sum, p) => sum + p / 5 + p * 0.0002, 0);
+    expect(result.quantityPerGrid).toBeCloseTo(1000 / perUnit, 12);
+    expect(result.initialQuantity).toBeCloseTo(4 * result.quantityPerGrid, 12);
+    expect(result.requiredMargin).toBeCloseTo(1000, 8);
+    // 每格利润 = 数量 × (卖价 - 买价) - 数量 × (卖价 + 买价) × 挂单费率
+    const q = result.quantityPerGrid;
+    expect(result.profitPerGrid.min).toBeCloseTo(q * 2000 - q * 138000 * 0.0002, 8);
+    expect(result.profitPerGrid.max).toBeCloseTo(q * 2000 - q * 102000 * 0.0002, 8);
+  });
+
+  it("reports the liquidation price once every long grid has filled", () => {
+    const [worst] = calculateGridBot({}, input)!.worstCases;
+    expect(worst.side).toBe("long");
+    expect(worst.boundPrice).toBe(50000);
+    expect(worst.averageEntry).toBeCloseTo(57000, 6);
+    expect(worst.liquidationPrice).toBeCloseTo(45810.45226130652, 6);
+    expect(worst.liquidatesInRange).toBe(false);
+  });
+
+  it("flags a leverage that liquidates before the range is left", () => {
+    const result = calculateGridBot({}, { ...input, leverage: 50 })!;
+    expect(result.worstCases[0].liquidatesInRange).toBe(true);
+    expect(result.warnings).toContain("做多网格在价格离开区间前就会爆仓，请降低杠杆或缩小区间");
+  });
+
+  it("places neutral grids on both sides of the start price", () => {
+    const result = calculateGridBot({}, { ...input, direction: "neutral", currentPrice: 61000 })!;
+    expect(result.initialQuantity).toBe(0);
+    expect(result.grids.filter((grid) => grid.side === null)).toHaveLength(1);
+    expect(result.worstCases.map((c) => c.side)).toEqual(["long", "short"]);
+  });
+
+  it("rejects an empty range", () => {
+    expect(calculateGridBot({}, { ...input, upperPrice: 50000 })).toBeNull();
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * 合约网格机器人参数计算（U本位）
+ * 按价格区间和网格数量生成网格，计算每格数量、扣除挂单手续费后的每格利润，
+ * 以及价格单边穿出区间、所有网格成交后的最坏爆仓价格。
+ * 持仓累计和爆仓价格复用分批建仓规划（planLadder → calculateContract）的计算。
+ */
+
+import { roundToStep } from "@shared/contractCalculator";
+import { planLadder, type LadderBaseParams, type LadderFill } from "./dcaPlanner";
+
+export type GridSpacing = "arithmetic" | "geometric";
+export type GridDirection = "long" | "short" | "neutral";
+
+export interface GridBotInput {
+  lowerPrice: number;
+  upperPrice: number;
+  gridCount: number; // 网格数量（价格档位数 = 网格数 + 1）
+  spacing: GridSpacing; // 等差或等比
+  investment: number; // 投入保证金（USD）
+  leverage: number;
+  direction: GridDirection;
+  currentPrice: number; // 启动时的价格
+  makerFee: number; // 挂单费率（网格限价单）
+  takerFee: number; // 吃单费率（启动时市价建立初始仓位）
+}
+
+/**
+ * 单个网格：在买入价和卖出价之间往返一次赚取一格利润
+ * 做多网格先买后卖，做空网格先卖后买
+ */
+export interface GridLine {
+  buyPrice: number;
+  sellPrice: number;
+  side: "long" | "short" | null; // null 表示中性网格中跨越启动价格、不挂单的一格
+  initial: boolean; // 是否在启动时按市价成交
+  profit: number; // 往返一次的利润（扣除两次挂单手续费）
+  profitPercent: number; // 利润占该格名义价值的百分比（不含杠杆）
+}
+
+/**
+ * 价格单边穿出区间后的最坏情况：该方向的网格全部成交
+ */
+export interface GridWorstCase {
+  side: "long" | "short";
+  boundPrice: number; // 穿出的区间边界
+  quantity: number; // 累计持仓数量（币）
+  averageEntry: number;
+  notional: number; // 累计名义价值（USD，按成交价计）
+  liquidationPrice: number;
+  liquidatesInRange: boolean; // 网格尚未全部成交就已爆仓
+  pnlAtBound: number; // 在区间边界的未实现盈亏（含手续费，不含已实现的网格利润）
+  maxLeverage: number; // 累计名义价值所在分层允许的最大杠杆
+}
+
+export interface GridBotResult {
+  prices: number[]; // 网格价格档位（升序）
+  grids: GridLine[];
+  quantityPerGrid: number; // 每格数量（币，按交易所数量精度向下取整）
+  profitPerGrid: { min: number; max: number };
+  profitPercentPerGrid: { min: number; max: number };
+  initialQuantity: number; // 启动时市价成交的数量
+  requiredMargin: number; // 单边网格全部成交所需的保证金（初始保证金 + 开仓手续费）
+  worstCases: GridWorstCase[];
+  warnings: string[];
+}
+
+/**
+ * 生成网格价格档位：等差为固定价差，等比为固定比例
+ */
+export function gridPrices(
+  lowerPrice: number,
+  upperPrice: number,
+  gridCount: number,
+  spacing: GridSpacing
+): number[] {
+  const prices: number[] = [];
+  for (let i = 0; i <= gridCount; i++) {
+    prices.push(
+      spacing === "geometric"
+        ? lowerPrice * (upperPrice / lowerPrice) ** (i / gridCount)
+        : lowerPrice + ((upperPrice - lowerPrice) * i) / gridCount
+    );
+  }
+  return prices;
+}
+
+/**
+ * 网格方向：做多网格在启动价格之上的格子市价买入，其余挂买单；
+ * 做空网格在启动价格之下的格子市价卖出，其余挂卖单；
+ * 中性网格不建立初始仓位，启动价格之下挂买单（做多）、之上挂卖单（做空）
+ */
+function gridSide(
+  direction: GridDirection,
+  buyPrice: number,
+  sellPrice: number,
+  currentPrice: number
+): Pick<GridLine, "side" | "initial"> {
+  if (direction === "long") {
+    return { side: "long", initial: buyPrice > currentPrice };
+  }
+  if (direction === "short") {
+    return { side: "short", initial: sellPrice < currentPrice };
+  }
+  if (sellPrice <= currentPrice) return { side: "long", initial: false };
+  if (buyPrice >= currentPrice) return { side: "short", initial: false };
+  return { side: null, initial: false };
+}
+
+/**
+ * 计算网格参数，输入无效时返回 null
+ *
+ * 每格数量相同，按单边网格全部成交时的保证金与开仓手续费之和等于投入资金计算：
+ *   每格数量 = 投入 / Σ(成交价 / 杠杆 + 成交价 × 费率)
+ * 中性网格取两侧中需要保证金较多的一侧。
+ * 最坏爆仓价格按投入资金作为逐仓保证金计算，不计入已实现的网格利润。
+ */
+export function calculateGridBot(
+  base: LadderBaseParams,
+  input: GridBotInput
+): GridBotResult | null {
+  const { lowerPrice, upperPrice, gridCount, investment, leverage, currentPrice } = input;
+  if (
+    !(lowerPrice > 0) ||
+    !(upperPrice > lowerPrice) ||
+    !Number.isInteger(gridCount) ||
+    gridCount < 1 ||
+    !(investment > 0) ||
+    !(leverage > 0) ||
+    !(currentPrice > 0)
+  ) {
+    return null;
+  }
+
+  const prices = gridPrices(lowerPrice, upperPrice, gridCount, input.spacing);
+  const layout = prices.slice(0, -1).map((buyPrice, i) => ({
+    buyPrice,
+    sellPrice: prices[i + 1],
+    ...gridSide(input.direction, buyPrice, prices[i + 1], currentPrice),
+  }));
+
+  // 每格的开仓价格和费率：初始仓位按启动价格吃单成交，其余按挂单价格成交
+  const entryOf = (grid: (typeof layout)[number]) =>
+    grid.initial ? currentPrice : grid.side === "long" ? grid.buyPrice : grid.sellPrice;
+  const feeOf = (grid: (typeof layout)[number]) => (grid.initial ? input.takerFee : input.makerFee);
+  const marginPerUnit = (side: "long" | "short") =>
+    layout
+      .filter((grid) => grid.side === side)
+      .reduce((sum, grid) => sum + entryOf(grid) / leverage + entryOf(grid) * feeOf(grid), 0);
+  const requiredPerUnit = Math.max(marginPerUnit("long"), marginPerUnit("short"));
+
+  const filters = base.symbolFilters;
+  const rawQuantity = requiredPerUnit > 0 ? investment / requiredPerUnit : 0;
+  const quantityPerGrid = filters
+    ? roundToStep(rawQuantity, filters.stepSize, "floor")
+    : rawQuantity;
+
+  const grids: GridLine[] = layout.map((grid) => {
+    const profit =
+      quantityPerGrid * (grid.sellPrice - grid.buyPrice) -
+      quantityPerGrid * (grid.sellPrice + grid.buyPrice) * input.makerFee;
+    return {
+      ...grid,
+      profit,
+      profitPercent:
+        quantityPerGrid > 0 ? (profit / (quantityPerGrid * grid.buyPrice)) * 100 : 0,
+    };
+  });
+  const active = grids.filter((grid) => grid.side !== null);
+  const profits = active.map((grid) => grid.profit);
+  const percents = active.map((grid) => grid.profitPercent);
+
+  const worstCases = (["long", "short"] as const)
+    .map((side) => worstCase(base, input, side, layout, entryOf, quantityPerGrid))
+    .filter((c): c is GridWorstCase => c !== null);
+
+  const warnings: string[] = [];
+  if (currentPrice < lowerPrice || currentPrice > upperPrice) {
+    warnings.push("当前价格不在网格区间内，启动后将单边建仓");
+  }
+  if (percents.some((percent) => percent <= 0)) {
+    warnings.push("网格间距过小，扣除挂单手续费后部分网格没有利润");
+  }
+  if (filters) {
+    if (quantityPerGrid < filters.minQty || quantityPerGrid <= 0) {
+      warnings.push(`每格数量 ${rawQuantity} 低于最小下单数量 ${filters.minQty}`);
+    } else if (quantityPerGrid * lowerPrice < filters.minNotional) {
+      warnings.push(`每格名义价值低于最小名义价值 ${filters.minNotional}`);
+    }
+  }
+  for (const c of worstCases) {
+    const label = c.side === "long" ? "做多" : "做空";
+    if (c.liquidatesInRange) {
+      warnings.push(`${label}网格在价格离开区间前就会爆仓，请降低杠杆或缩小区间`);
+    }
+    if (leverage > c.maxLeverage) {
+      warnings.push(`${label}网格全部成交后的名义价值最高允许 ${c.maxLeverage}x 杠杆`);
+    }
+  }
+
+  return {
+    prices,
+    grids,
+    quantityPerGrid,
+    profitPerGrid: range(profits),
+    profitPercentPerGrid: range(percents),
+    initialQuantity: quantityPerGrid * grids.filter((grid) => grid.initial).length,
+    requiredMargin: quantityPerGrid * requiredPerUnit,
+    worstCases,
+    warnings,
+  };
+}
+
+function range(values: number[]): { min: number; max: number } {
+  return values.length > 0
+    ? { min: Math.min(...values), max: Math.max(...values) }
+    : { min: 0, max: 0 };
+}
+
+/**
+ * 价格单边穿出区间：按价格移动顺序逐格成交，逐步检查爆仓价格是否先于下一笔成交被触及
+ */
+function worstCase(
+  base: LadderBaseParams,
+  input: GridBotInput,
+  side: "long" | "short",
+  layout: Pick<GridLine, "buyPrice" | "sellPrice" | "side" | "initial">[],
+  entryOf: (grid: Pick<GridLine, "buyPrice" | "sellPrice" | "side" | "initial">) => number,
+  quantity: number
+): GridWorstCase | null {
+  const sideGrids = layout.filter((grid) => grid.side === side);
+  if (sideGrids.length === 0 || quantity <= 0) {
+    return null;
+  }
+  const isLong = side === "long";
+
+  // 初始仓位合并为一笔，挂单按价格移动方向排序（做多价格下跌，做空价格上涨）
+  const initialCount = sideGrids.filter((grid) => grid.initial).length;
+  const limitPrices = sideGrids
+    .filter((grid) => !grid.initial)
+    .map(entryOf)
+    .sort((a, b) => (isLong ? b - a : a - b));
+  const fills: LadderFill[] = [
+    ...(initialCount > 0
+      ? [{ price: input.currentPrice, size: quantity * initialCount * input.currentPrice, marginAdded: 0 }]
+      : []),
+    ...limitPrices.map((price) => ({ price, size: quantity * price, marginAdded: 0 })),
+  ];
+  fills[0].marginAdded = input.investment;
+
+  const steps = planLadder(
+    {
+      ...base,
+      contractType: "linear",
+      positionType: side,
+      marginMode: "isolated",
+      crossAccount: undefined,
+      accumulatedFunding: 0,
+      openFee: input.makerFee,
+      closeFee: input.takerFee,
+    },
+    fills
+  );
+
+  // 第一笔满足“爆仓价格在下一笔成交之前被触及”的成交即为实际爆仓的位置
+  const reached = (liquidation: number, price: number) =>
+    liquidation > 0 && (isLong ? liquidation >= price : liquidation <= price);
+  const index = steps.findIndex(
+    (step, i) => i < steps.length - 1 && reached(step.liquidationPrice, fills[i + 1].price)
+  );
+  const step = steps[index === -1 ? steps.length - 1 : index];
+  const boundPrice = isLong ? input.lowerPrice : input.upperPrice;
+
+  return {
+    side,
+    boundPrice,
+    quantity: step.totalQuantity,
+    averageEntry: step.averageEntry,
+    notional: step.totalNotional,
+    liquidationPrice: step.liquidationPrice,
+    liquidatesInRange: index !== -1 || reached(step.liquidationPrice, boundPrice),
+    pnlAtBound: step.result.profitAtPrice(boundPrice),
+    maxLeverage: step.result.maxLeverage,
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { calculateContract, type LeverageBracket } from "@shared/contractCalculator";
+import { calculateHedge, solveCrossLiquidation } from "./hedgeMode";
+
+const BRACKETS: LeverageBracket[] = [
+  { bracket: 1, initialLeverage: 125, notionalFloor: 0, notionalCap: 50000, maintMarginRatio: 0.004, cum: 0 },
+  { bracket: 2, initialLeverage: 100, notionalFloor: 50000, notionalCap: 250000, maintMarginRatio: 0.005, cum: 50 },
+  { bracket: 3, initialLeverage: 50, notionalFloor: 250000, notionalCap: Infinity, maintMarginRatio: 0.01, cum: 1300 },
+];
+
+const crossAccount = { walletBalance: 2000, otherMaintenanceMargin: 0, otherUnrealizedPnl: 0 };
+const base = {
+  marginMode: "cross" as const,
+  positionType: "long" as const,
+  leverageBrackets: BRACKETS,
+  crossAccount,
+};
+
+describe("solveCrossLiquidation", () => {
+  it("matches the closed-form cross liquidation price for a single leg", () => {
+    const single = calculateContract({ ...base, openPrice: 60000, margin: 500, leverage: 20 });
+    const { down, up } = solveCrossLiquidation(
+      base,
+      2000,
+      [{ side: 1, quantity: single.positionSizeInCoin, openPrice: 60000 }],
+      60000
+    );
+    expect(down).toBeCloseTo(single.liquidationPrice, 6);
+    expect(up).toBe(0);
+  });
+});
+
+describe("calculateHedge", () => {
+  const result = calculateHedge({
+    base,
+    long: { openPrice: 60000, margin: 500, leverage: 20 },
+    short: { openPrice: 62000, margin: 300, leverage: 20 },
+    referencePrice: 61000,
+  });
+
+  it("prices each leg as an isolated position", () => {
+    expect(result.long.isolatedLiquidationPrice).toBeCloseTo(57228.91566265061, 6);
+    expect(result.short.isolatedLiquidationPrice).toBeCloseTo(64840.6374501992, 6);
+  });
+
+  it("nets the legs against the shared cross wallet", () => {
+    expect(result.netQuantity).toBeCloseTo(10000 / 60000 - 6000 / 62000, 12);
+    expect(result.hedgeRatio).toBeCloseTo((6000 / 62000 / (10000 / 60000)) * 100, 10);
+    // 净多头：账户只会向下爆仓，且远低于单独持有多头腿时的价格
+    expect(result.crossLiquidation.up).toBe(0);
+    expect(result.crossLiquidation.down).toBeCloseTo(29053.420805998117, 4);
+    expect(result.long.crossLiquidationPrice).toBe(result.crossLiquidation.down);
+  });
+
+  it("adds the combined profit of both legs", () => {
+    expect(result.profitAtPrice(61000)).toBeCloseTo(
+      result.long.unrealizedPnl + result.short.unrealizedPnl,
+      10
+    );
+  });
+
+  it("subtracts accumulated funding once for the whole hedge", () => {
+    const withFunding = calculateHedge({
+      base: { ...base, accumulatedFunding: 5 },
+      long: { openPrice: 60000, margin: 500, leverage: 20 },
+      short: { openPrice: 62000, margin: 300, leverage: 20 },
+      referencePrice: 61000,
+    });
+    expect(withFunding.long.unrealizedPnl).toBeCloseTo(result.long.unrealizedPnl, 10);
+    expect(withFunding.profitAtPrice(61000)).toBeCloseTo(result.profitAtPrice(61000) - 5, 10);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * 双向持仓（对冲模式）
+ * 同一交易对同时持有多头和空头两条腿，分别按逐仓和全仓计算爆仓价格，
+ * 并计算净敞口、合并盈亏以及平掉其中一条腿后的影响。
+ */
+
+import {
+  calculateContract,
+  findBracket,
+  type CalculationResult,
+} from "@shared/contractCalculator";
+import type { LadderBaseParams } from "./dcaPlanner";
+
+export type HedgeSide = "long" | "short";
+
+/**
+ * 一条腿的开仓参数（保证金以保证金币种计）
+ */
+export interface HedgeLeg {
+  openPrice: number;
+  margin: number;
+  leverage: number;
+}
+
+export interface HedgeInput {
+  base: LadderBaseParams; // 全仓账户状态取自 base.crossAccount
+  long: HedgeLeg;
+  short: HedgeLeg;
+  referencePrice: number; // 当前标记价格，用于净敞口和平仓影响
+}
+
+export interface HedgeLegResult {
+  side: HedgeSide;
+  result: CalculationResult; // 逐仓计算结果
+  isolatedLiquidationPrice: number; // 0 表示不会爆仓
+  crossLiquidationPrice: number; // 全仓账户在该腿不利方向上的爆仓价格，0 表示不会爆仓
+  unrealizedPnl: number; // 参考价格处的盈亏（含手续费）
+}
+
+/**
+ * 平掉一条腿（按参考价格）后的账户状态
+ */
+export interface HedgeCloseEffect {
+  closedSide: HedgeSide;
+  realizedPnl: number; // 平仓盈亏（含手续费），计入全仓钱包余额
+  remainingSide: HedgeSide;
+  netQuantity: number; // 剩余净持仓（币，多为正）
+  netNotional: number; // 剩余净名义价值（USD，按参考价格）
+  crossLiquidationPrice: number; // 剩余腿的全仓爆仓价格
+}
+
+export interface HedgeResult {
+  long: HedgeLegResult;
+  short: HedgeLegResult;
+  netQuantity: number; // 净持仓（币），多头为正
+  netNotional: number; // 净名义价值（USD，按参考价格），多头为正
+  grossNotional: number; // 两条腿名义价值之和
+  hedgeRatio: number; // 对冲比例（%）= 较小一腿数量 / 较大一腿数量
+  crossLiquidation: { down: number; up: number }; // 全仓账户向下和向上的爆仓价格，0 表示不会爆仓
+  totalMargin: number; // 两条腿保证金之和（合并收益率的分母）
+  profitAtPrice: (price: number) => number; // 合并盈亏（含手续费）
+  profitPercentAtPrice: (price: number) => number;
+  closeEffects: HedgeCloseEffect[]; // 依次为平掉多头、平掉空头
+}
+
+// 全仓爆仓价格求解使用的持仓
+interface CrossPosition {
+  side: 1 | -1;
+  quantity: number; // 币数量
+  openPrice: number;
+}
+
+/**
+ * 全仓账户在价格 P 处的保证金余额（权益 - 维持保证金），不大于0即爆仓
+ * U本位以USD计，币本位以币计；未实现盈亏不含手续费，与交易所强平计算一致
+ */
+function crossMarginBalance(
+  base: LadderBaseParams,
+  walletBalance: number,
+  positions: CrossPosition[],
+  price: number
+): number {
+  const inverse = base.contractType === "inverse";
+  const brackets = base.leverageBrackets?.length ? base.leverageBrackets : undefined;
+  const maintainanceRate = base.maintainanceRate ?? 0.005;
+  const account = base.crossAccount;
+  let balance =
+    walletBalance -
+    (account?.otherMaintenanceMargin ?? 0) +
+    (account?.otherUnrealizedPnl ?? 0);
+  for (const position of positions) {
+    const size = position.quantity * position.openPrice;
+    balance += inverse
+      ? position.side * size * (1 / position.openPrice - 1 / price)
+      : position.side * position.quantity * (price - position.openPrice);
+    // 维持保证金：U本位按当前名义价值，币本位按币数量（分层也依据相同的数值）
+    const value = inverse ? size / price : position.quantity * price;
+    const bracket = brackets
+      ? findBracket(brackets, value)
+      : { maintMarginRatio: maintainanceRate, cum: 0 };
+    balance -= value * bracket.maintMarginRatio - bracket.cum;
+  }
+  return balance;
+}
+
+/**
+ * 全仓爆仓价格：从参考价格分别向下、向上二分查找保证金余额归零的价格
+ * 两条腿互相抵消部分盈亏，因此账户可能只在一个方向、两个方向都会或都不会爆仓
+ */
+export function solveCrossLiquidation(
+  base: LadderBaseParams,
+  walletBalance: number,
+  positions: CrossPosition[],
+  referencePrice: number
+): { down: number; up: number } {
+  const active = positions.filter((p) => p.quantity > 0);
+  if (active.length === 0 || !(referencePrice > 0)) {
+    return { down: 0, up: 0 };
+  }
+  const balanceAt = (price: number) => crossMarginBalance(base, walletBalance, active, price);
+  if (balanceAt(referencePrice) <= 0) {
+    return { down: referencePrice, up: referencePrice };
+  }
+
+  const bisect = (safe: number, liquidated: number) => {
+    for (let i = 0; i < 100; i++) {
+      const mid = (safe + liquidated) / 2;
+      if (balanceAt(mid) > 0) safe = mid;
+      else liquidated = mid;
+    }
+    return liquidated;
+  };
+  const floor = referencePrice * 1e-6;
+  const ceiling = referencePrice * 1e6;
+  return {
+    down: balanceAt(floor) > 0 ? 0 : bisect(referencePrice, floor),
+    up: balanceAt(ceiling) > 0 ? 0 : bisect(referencePrice, ceiling),
+  };
+}
+
+/**
+ * 计算双向持仓
+ * 逐仓时两条腿互不影响，各自按 calculateContract 计算；
+ * 全仓时两条腿共用钱包余额（base.crossAccount），账户整体只有向下和向上两个爆仓价格，
+ * 多头腿取向下的价格，空头腿取向上的价格。
+ */
+export function calculateHedge(input: HedgeInput): HedgeResult {
+  const { base, referencePrice } = input;
+  const walletBalance = base.crossAccount?.walletBalance ?? 0;
+
+  // 已累计资金费属于整个账户，各腿按0计算，合并盈亏中只扣除一次
+  const accumulatedFunding = base.accumulatedFunding ?? 0;
+  const legResult = (side: HedgeSide) =>
+    calculateContract({
+      ...base,
+      ...input[side],
+      positionType: side,
+      marginMode: "isolated",
+      accumulatedFunding: 0,
+    });
+  const longResult = legResult("long");
+  const shortResult = legResult("short");
+
+  const crossPosition = (side: HedgeSide, result: CalculationResult): CrossPosition => ({
+    side: side === "long" ? 1 : -1,
+    quantity: result.positionSizeInCoin,
+    openPrice: input[side].openPrice,
+  });
+  const positions = [crossPosition("long", longResult), crossPosition("short", shortResult)];
+  const crossLiquidation = solveCrossLiquidation(base, walletBalance, positions, referencePrice);
+
+  const leg = (side: HedgeSide, result: CalculationResult): HedgeLegResult => ({
+    side,
+    result,
+    isolatedLiquidationPrice: result.liquidationPrice,
+    crossLiquidationPrice: side === "long" ? crossLiquidation.down : crossLiquidation.up,
+    unrealizedPnl: result.profitAtPrice(referencePrice),
+  });
+
+  const netQuantity = longResult.positionSizeInCoin - shortResult.positionSizeInCoin;
+  const largerQuantity = Math.max(longResult.positionSizeInCoin, shortResult.positionSizeInCoin);
+  const totalMargin = input.long.margin + input.short.margin;
+  const profitAtPrice = (price: number) =>
+    longResult.profitAtPrice(price) + shortResult.profitAtPrice(price) - accumulatedFunding;
+
+  // 平掉一条腿：平仓盈亏计入钱包余额，剩余一条腿单独按全仓计算
+  const closeEffect = (closedSide: HedgeSide): HedgeCloseEffect => {
+    const remainingSide: HedgeSide = closedSide === "long" ? "short" : "long";
+    const closed = closedSide === "long" ? longResult : shortResult;
+    const remaining = closedSide === "long" ? shortResult : longResult;
+    const realizedPnl = closed.profitAtPrice(referencePrice);
+    const remainingLiquidation = solveCrossLiquidation(
+      base,
+      walletBalance + realizedPnl,
+      [crossPosition(remainingSide, remaining)],
+      referencePrice
+    );
+    const sign = remainingSide === "long" ? 1 : -1;
+    return {
+      closedSide,
+      realizedPnl,
+      remainingSide,
+      netQuantity: sign * remaining.positionSizeInCoin,
+      netNotional: sign * remaining.positionSizeInCoin * referencePrice,
+      crossLiquidationPrice:
+        remainingSide === "long" ? remainingLiquidation.down : remainingLiquidation.up,
+    };
+  };
+
+  return {
+    long: leg("long", longResult),
+    short: leg("short", shortResult),
+    netQuantity,
+    netNotional: netQuantity * referencePrice,
+    grossNotional:
+      (longResult.positionSizeInCoin + shortResult.positionSizeInCoin) * referencePrice,
+    hedgeRatio:
+      largerQuantity > 0
+        ? (Math.min(longResult.positionSizeInCoin, shortResult.positionSizeInCoin) /
+            largerQuantity) *
+          100
+        : 0,
+    crossLiquidation,
+    totalMargin,
+    profitAtPrice,
+    profitPercentAtPrice: (price: number) =>
+      totalMargin > 0 ? (profitAtPrice(price) / totalMargin) * 100 : 0,
+    closeEffects: [closeEffect("long"), closeEffect("short")],
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  createRng,
+  estimateVolatility,
+  simulateHitProbabilities,
+  type SimulationInput,
+} from "./liquidationProbability";
+
+describe("createRng", () => {
+  it("reproduces the mulberry32 sequence for a seed", () => {
+    const rng = createRng(42);
+    expect([rng(), rng(), rng()]).toEqual([
+      0.6011037519201636, 0.44829055899754167, 0.8524657934904099,
+    ]);
+  });
+});
+
+describe("estimateVolatility", () => {
+  it("annualizes the hourly standard deviation of log returns", () => {
+    // 收益率交替为 ±ln(1.01)，标准差即 ln(1.01)
+    const closes = Array.from({ length: 21 }, (_, i) => (i % 2 === 0 ? 100 : 101));
+    const estimate = estimateVolatility(closes, 1);
+    expect(estimate?.samples).toBe(20);
+    expect(estimate?.hourlyVolatility).toBeCloseTo(Math.log(1.01), 2);
+    expect(estimate?.annualizedVolatility).toBeCloseTo(
+      estimate!.hourlyVolatility * Math.sqrt(365 * 24),
+      10
+    );
+  });
+
+  it("needs enough returns", () => {
+    expect(estimateVolatility([100, 101, 102], 1)).toBeNull();
+  });
+});
+
+describe("simulateHitProbabilities", () => {
+  const input: SimulationInput = {
+    startPrice: 60000,
+    positionType: "long",
+    liquidationPrice: 54000,
+    stopLossPrice: 57000,
+    targetPrice: 66000,
+    hourlyVolatility: 0.01,
+    horizonHours: 72,
+    paths: 2000,
+  };
+
+  it("returns identical results for the same seed", () => {
+    const first = simulateHitProbabilities({ ...input, seed: 7 });
+    const second = simulateHitProbabilities({ ...input, seed: 7 });
+    expect(second).toEqual(first);
+    expect(simulateHitProbabilities({ ...input, seed: 8 })).not.toEqual(first);
+  });
+
+  it("counts only the first barrier each path reaches", () => {
+    const { probabilities } = simulateHitProbabilities({ ...input, seed: 7 });
+    // 止损位于爆仓价格之前，下跌路径都先触发止损
+    expect(probabilities.liquidation).toBe(0);
+    expect(
+      probabilities.liquidation + probabilities.stopLoss + probabilities.target + probabilities.none
+    ).toBeCloseTo(100, 8);
+
+    const withoutStop = simulateHitProbabilities({
+      ...input,
+      stopLossPrice: undefined,
+      targetPrice: undefined,
+      seed: 7,
+    });
+    expect(withoutStop.probabilities.liquidation).toBeGreaterThan(0);
+    expect(withoutStop.probabilities.stopLoss).toBe(0);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * 爆仓概率估算（蒙特卡洛）
+ * 用最近K线收盘价的对数收益率估算已实现波动率，按零漂移的几何布朗运动模拟价格路径，
+ * 统计在给定时长内先触及爆仓、止损或目标价格的概率。
+ * 随机数使用固定种子，相同输入的结果完全一致。
+ */
+
+export type VolatilityInterval = "15m" | "1h" | "4h" | "1d";
+
+export const VOLATILITY_INTERVAL_HOURS: Record<VolatilityInterval, number> = {
+  "15m": 0.25,
+  "1h": 1,
+  "4h": 4,
+  "1d": 24,
+};
+
+const HOURS_PER_YEAR = 365 * 24; // 合约全天交易
+const MIN_RETURNS = 10;
+const TIMELINE_POINTS = 48;
+
+/**
+ * 可设置种子的伪随机数生成器（mulberry32），返回 [0, 1) 的均匀分布
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 标准正态分布样本（Box-Muller）
+ */
+export function normalSample(rng: () => number): number {
+  const u = 1 - rng(); // 避免 log(0)
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export interface VolatilityEstimate {
+  hourlyVolatility: number; // 每小时对数收益率的标准差
+  annualizedVolatility: number; // 年化波动率
+  samples: number; // 收益率样本数
+}
+
+/**
+ * 由收盘价序列估算已实现波动率，样本不足时返回 null
+ * @param closes - 按时间升序的收盘价
+ * @param intervalHours - 每根K线的时长（小时）
+ */
+export function estimateVolatility(
+  closes: number[],
+  intervalHours: number
+): VolatilityEstimate | null {
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    if (closes[i - 1] > 0 && closes[i] > 0) {
+      returns.push(Math.log(closes[i] / closes[i - 1]));
+    }
+  }
+  if (returns.length < MIN_RETURNS) {
+    return null;
+  }
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const hourlyVolatility = Math.sqrt(variance / intervalHours);
+  return {
+    hourlyVolatility,
+    annualizedVolatility: hourlyVolatility * Math.sqrt(HOURS_PER_YEAR),
+    samples: returns.length,
+  };
+}
+
+export type SimulationOutcome = "liquidation" | "stopLoss" | "target";
+
+export interface SimulationInput {
+  startPrice: number; // 模拟起始价格（当前标记价格）
+  positionType: "long" | "short";
+  liquidationPrice: number; // 0 表示不会爆仓
+  stopLossPrice?: number;
+  targetPrice?: number;
+  hourlyVolatility: number;
+  horizonHours: number;
+  paths?: number;
+  seed?: number;
+}
+
+export interface SimulationTimelinePoint {
+  hours: number;
+  liquidation: number; // 截至该时间的累计触及概率（%）
+  stopLoss: number;
+  target: number;
+}
+
+export interface SimulationResult {
+  paths: number;
+  steps: number;
+  probabilities: Record<SimulationOutcome | "none", number>; // 各结果的概率（%），合计100
+  timeline: SimulationTimelinePoint[];
+  terminalPrice: { p5: number; p50: number; p95: number }; // 到期价格分布（不考虑提前离场）
+}
+
+interface Barrier {
+  outcome: SimulationOutcome;
+  price: number;
+}
+
+/**
+ * 蒙特卡洛模拟：每条路径记录最先触及的价格（爆仓、止损或目标），到期前未触及记为 none
+ * 同一步内跨过多个价格时，按离上一步价格最近的价格计为先触及
+ */
+export function simulateHitProbabilities(input: SimulationInput): SimulationResult {
+  const paths = input.paths ?? 5000;
+  const steps = Math.min(Math.max(Math.round(input.horizonHours * 4), 50), 500);
+  const dt = input.horizonHours / steps;
+  const stepVolatility = input.hourlyVolatility * Math.sqrt(dt);
+  const drift = -0.5 * stepVolatility * stepVolatility; // 价格期望不变
+  const rng = createRng(input.seed ?? 42);
+
+  // 按方向把价格分为下方和上方两组
+  const isLong = input.positionType === "long";
+  const barriers: Barrier[] = [];
+  if (input.liquidationPrice > 0) {
+    barriers.push({ outcome: "liquidation", price: input.liquidationPrice });
+  }
+  if (input.stopLossPrice && input.stopLossPrice > 0) {
+    barriers.push({ outcome: "stopLoss", price: input.stopLossPrice });
+  }
+  if (input.targetPrice && input.targetPrice > 0) {
+    barriers.push({ outcome: "target", price: input.targetPrice });
+  }
+  const below = barriers
+    .filter((b) => (b.outcome === "target" ? !isLong : isLong))
+    .sort((a, b) => b.price - a.price);
+  const above = barriers
+    .filter((b) => (b.outcome === "target" ? isLong : !isLong))
+    .sort((a, b) => a.price - b.price);
+
+  const hitCounts: Record<SimulationOutcome, number[]> = {
+    liquidation: new Array(steps + 1).fill(0),
+    stopLoss: new Array(steps + 1).fill(0),
+    target: new Array(steps + 1).fill(0),
+  };
+  const terminal = new Float64Array(paths);
+  let none = 0;
+
+  for (let p = 0; p < paths; p++) {
+    let price = input.startPrice;
+    let hit: SimulationOutcome | null = null;
+    let hitStep = 0;
+    for (let step = 0; step <= steps; step++) {
+      if (step > 0) {
+        price *= Math.exp(drift + stepVolatility * normalSample(rng));
+      }
+      // 第0步检查起始价格，已越过的价格立即计为触及
+      if (hit === null) {
+        const down = below.find((b) => price <= b.price);
+        const up = above.find((b) => price >= b.price);
+        const first = down ?? up;
+        if (first) {
+          hit = first.outcome;
+          hitStep = step;
+        }
+      }
+    }
+    terminal[p] = price;
+    if (hit) {
+      hitCounts[hit][hitStep]++;
+    } else {
+      none++;
+    }
+  }
+
+  // 累计概率曲线，按固定点数取样
+  const cumulative = (counts: number[]) => {
+    const result: number[] = [];
+    let total = 0;
+    for (const count of counts) {
+      total += count;
+      result.push((total / paths) * 100);
+    }
+    return result;
+  };
+  const liquidation = cumulative(hitCounts.liquidation);
+  const stopLoss = cumulative(hitCounts.stopLoss);
+  const target = cumulative(hitCounts.target);
+  const timeline: SimulationTimelinePoint[] = [];
+  for (let i = 0; i <= TIMELINE_POINTS; i++) {
+    const step = Math.round((steps * i) / TIMELINE_POINTS);
+    timeline.push({
+      hours: step * dt,
+      liquidation: liquidation[step],
+      stopLoss: stopLoss[step],
+      target: target[step],
+    });
+  }
+
+  terminal.sort();
+  const percentile = (q: number) =>
+    terminal[Math.min(paths - 1, Math.floor(q * paths))];
+
+  return {
+    paths,
+    steps,
+    probabilities: {
+      liquidation: liquidation[steps],
+      stopLoss: stopLoss[steps],
+      target: target[steps],
+      none: (none / paths) * 100,
+    },
+    timeline,
+    terminalPrice: { p5: percentile(0.05), p50: percentile(0.5), p95: percentile(0.95) },
+  };
+}
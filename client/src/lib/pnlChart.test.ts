@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { calculateContract } from "@shared/contractCalculator";
+import { autoRangePercent, buildPnlCurve, clampRangePercent, metricKey } from "./pnlChart";
+
+describe("autoRangePercent", () => {
+  it("covers the farthest marker with a 25% margin", () => {
+    // 爆仓价格距开仓 10%，区间取 12.5% 向上取整
+    expect(autoRangePercent(60000, [54000, 63000])).toBe(13);
+  });
+
+  it("ignores invalid markers and stays within bounds", () => {
+    expect(autoRangePercent(60000, [0, Infinity, 60300])).toBe(5);
+    expect(autoRangePercent(60000, [1000])).toBe(95);
+    expect(autoRangePercent(0, [54000])).toBe(5);
+  });
+});
+
+describe("clampRangePercent", () => {
+  it("keeps the lower bound above zero", () => {
+    expect(clampRangePercent(200)).toBe(95);
+    expect(clampRangePercent(1)).toBe(5);
+  });
+});
+
+describe("buildPnlCurve", () => {
+  const result = calculateContract({
+    openPrice: 60000,
+    margin: 1000,
+    leverage: 10,
+    marginMode: "isolated",
+    positionType: "long",
+  });
+
+  it("samples evenly across the range and evaluates every series", () => {
+    const points = buildPnlCurve(
+      [
+        { key: "current", result },
+        { key: "p1", result: { profitAtPrice: () => 1, profitPercentAtPrice: () => 2 } },
+      ],
+      60000,
+      10,
+      4
+    );
+    expect(points.map((p) => p.price)).toEqual([54000, 57000, 60000, 63000, 66000]);
+    expect(points[4].current).toBeCloseTo(result.profitAtPrice(66000), 10);
+    expect(points[4].current_roe).toBeCloseTo(result.profitPercentAtPrice(66000), 10);
+    expect(points[0]).toMatchObject({ p1: 1, p1_roe: 2 });
+  });
+
+  it("clamps the requested range", () => {
+    const points = buildPnlCurve([{ key: "current", result }], 60000, 150, 2);
+    expect(points[0].price).toBeCloseTo(3000, 8);
+    expect(points[2].price).toBeCloseTo(117000, 8);
+  });
+});
+
+describe("metricKey", () => {
+  it("maps the metric to the data field", () => {
+    expect(metricKey("p1", "pnl")).toBe("p1");
+    expect(metricKey("p1", "roe")).toBe("p1_roe");
+  });
+});
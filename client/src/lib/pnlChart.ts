@@ -0,0 +1,68 @@
+/**
+ * 盈亏曲线数据
+ * 在开仓价格上下的价格区间内等距取样，计算每条曲线的盈亏金额和收益率（ROE）
+ */
+
+import type { CalculationResult } from "@shared/contractCalculator";
+
+export type PnlMetric = "pnl" | "roe";
+
+/**
+ * 一条曲线（当前计算或对比仓位）
+ */
+export interface PnlSeries {
+  key: string; // 图表数据字段名
+  result: Pick<CalculationResult, "profitAtPrice" | "profitPercentAtPrice">;
+}
+
+export type PnlPoint = { price: number } & Record<string, number>;
+
+const MIN_RANGE_PERCENT = 5;
+const MAX_RANGE_PERCENT = 95; // 价格下限不能到0（币本位盈亏在0附近发散）
+
+/**
+ * 自动选择价格区间：覆盖所有标记价格（爆仓、目标、止损止盈等）并留出25%余量
+ */
+export function autoRangePercent(openPrice: number, markers: number[]): number {
+  if (openPrice <= 0) return MIN_RANGE_PERCENT;
+  const farthest = markers
+    .filter((price) => price > 0 && Number.isFinite(price))
+    .reduce((max, price) => Math.max(max, Math.abs(price - openPrice) / openPrice), 0);
+  return clampRangePercent(Math.ceil(farthest * 125));
+}
+
+export function clampRangePercent(percent: number): number {
+  return Math.min(Math.max(percent, MIN_RANGE_PERCENT), MAX_RANGE_PERCENT);
+}
+
+/**
+ * 生成曲线数据：每个取样点包含 `<key>` 盈亏金额 和 `<key>_roe` 收益率（%）
+ */
+export function buildPnlCurve(
+  series: PnlSeries[],
+  openPrice: number,
+  rangePercent: number,
+  steps: number = 160
+): PnlPoint[] {
+  const percent = clampRangePercent(rangePercent);
+  const min = openPrice * (1 - percent / 100);
+  const max = openPrice * (1 + percent / 100);
+  const points: PnlPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const price = min + ((max - min) * i) / steps;
+    const point: PnlPoint = { price };
+    for (const { key, result } of series) {
+      point[key] = result.profitAtPrice(price);
+      point[`${key}_roe`] = result.profitPercentAtPrice(price);
+    }
+    points.push(point);
+  }
+  return points;
+}
+
+/**
+ * 曲线在图表中使用的数据字段
+ */
+export function metricKey(key: string, metric: PnlMetric): string {
+  return metric === "pnl" ? key : `${key}_roe`;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { planRisk, type RiskPlanInput } from "./riskPlanner";
+
+const input: RiskPlanInput = {
+  base: {
+    marginMode: "isolated",
+    positionType: "long",
+    maintainanceRate: 0.004,
+    openFee: 0.0005,
+    closeFee: 0.0005,
+  },
+  entryPrice: 60000,
+  stopLossPrice: 57000,
+  takeProfits: [],
+  leverage: 5,
+  riskBudget: 100,
+  riskBudgetType: "amount",
+  accountBalance: 0,
+};
+
+describe("planRisk", () => {
+  it("sizes the position so the stop loses the percentage budget", () => {
+    const plan = planRisk({
+      ...input,
+      leverage: 20,
+      riskBudget: 1,
+      riskBudgetType: "percent",
+      accountBalance: 10000,
+      takeProfits: [
+        { price: 66000, closePercent: 50 },
+        { price: 69000, closePercent: 60 },
+      ],
+    });
+    expect(plan.riskAmount).toBe(100);
+    expect(plan.lossAtStop).toBeCloseTo(100, 6);
+    expect(plan.margin).toBeCloseTo(plan.positionSize / 20, 10);
+
+    // 20x 的爆仓价格高于止损，18x 是止损前不会爆仓的最高杠杆
+    expect(plan.liquidationPrice).toBeCloseTo(57228.915662650594, 6);
+    expect(plan.maxLeverage).toBe(18);
+    expect(plan.warnings).toEqual([
+      "止损价格 57000 位于爆仓价格 57228.92 之外，会先被强平",
+      "止盈平仓比例合计 110% 超过100%",
+    ]);
+  });
+
+  it("computes risk/reward and expected profit for each take profit", () => {
+    const plan = planRisk({
+      ...input,
+      takeProfits: [
+        { price: 66000, closePercent: 50 },
+        { price: 69000, closePercent: 50 },
+      ],
+    });
+    const [first, second] = plan.takeProfits;
+    expect(first.riskReward).toBeCloseTo(first.profit / plan.lossAtStop, 10);
+    // 全仓位在 66000 平仓：涨幅 10% 减去开平仓手续费
+    expect(first.profit).toBeCloseTo(plan.positionSize * (0.1 - 0.0005 - 0.0005 * 1.1), 8);
+    expect(plan.totalExpectedProfit).toBeCloseTo((first.profit + second.profit) / 2, 8);
+  });
+
+  it("warns about levels on the wrong side of the entry", () => {
+    const plan = planRisk({
+      ...input,
+      stopLossPrice: 61000,
+      takeProfits: [{ price: 59000, closePercent: 100 }],
+    });
+    expect(plan.warnings).toEqual([
+      "多头止损价格应低于开仓价格",
+      "止盈价格 59000 位于开仓价格的亏损一侧",
+    ]);
+    expect(plan.positionSize).toBe(0);
+    expect(plan.maxLeverage).toBe(0);
+  });
+});
+
+describe("planRisk accumulated funding", () => {
+  // 单位亏损 = 止损跌幅 5% + 开仓手续费 0.05% + 按止损价收取的平仓手续费 0.0475%
+  const expectedSize = 100 / (0.05 + 0.0005 + 0.0005 * 0.95);
+
+  it("sizes the position from the risk budget alone", () => {
+    const plan = planRisk(input);
+    expect(plan.positionSize).toBeCloseTo(expectedSize, 6);
+    expect(plan.lossAtStop).toBeCloseTo(100, 6);
+    expect(plan.accumulatedFunding).toBe(0);
+  });
+
+  it("reports already paid funding separately instead of resizing the position", () => {
+    for (const accumulatedFunding of [5, -5]) {
+      const plan = planRisk({
+        ...input,
+        base: { ...input.base, accumulatedFunding },
+        accumulatedFunding,
+      });
+      expect(plan.positionSize).toBeCloseTo(expectedSize, 6);
+      expect(plan.lossAtStop).toBeCloseTo(100, 6);
+      expect(plan.accumulatedFunding).toBe(accumulatedFunding);
+    }
+  });
+});
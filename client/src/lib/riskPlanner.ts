@@ -0,0 +1,200 @@
+/**
+ * 止损/止盈规划
+ * 根据止损距离和风险预算反推仓位大小，并计算各止盈位的盈亏比
+ */
+
+import { calculateContract, CalculationResult } from "@shared/contractCalculator";
+import { LadderBaseParams } from "./dcaPlanner";
+
+/**
+ * 止盈位（可部分平仓）
+ */
+export interface TakeProfitLevel {
+  price: number; // 止盈价格
+  closePercent: number; // 在该价位平仓的仓位比例（%）
+}
+
+export interface RiskPlanInput {
+  base: LadderBaseParams;
+  entryPrice: number; // 开仓价格
+  stopLossPrice: number; // 止损价格
+  takeProfits: TakeProfitLevel[];
+  leverage: number; // 计划使用的杠杆
+  riskBudget: number; // 最大亏损预算（金额或百分比）
+  riskBudgetType: "amount" | "percent"; // 预算类型：保证金币种金额 / 账户百分比
+  accountBalance: number; // 账户余额（百分比预算时使用）
+  accumulatedFunding?: number; // 当前持仓已累计的资金费，单独列出，不参与仓位计算
+}
+
+export interface TakeProfitResult extends TakeProfitLevel {
+  riskReward: number; // 盈亏比（全仓位在该价位的盈利 / 止损亏损）
+  profit: number; // 全仓位在该价位平仓的盈亏
+  expectedProfit: number; // 按平仓比例计的盈亏
+}
+
+export interface RiskPlanResult {
+  riskAmount: number; // 风险预算（保证金币种）
+  positionSize: number; // 满足预算的名义价值（USD）
+  margin: number; // 所需保证金（保证金币种）
+  leverage: number;
+  maxLeverage: number; // 爆仓价格仍在止损之外的最高杠杆
+  lossAtStop: number; // 止损时的亏损（含手续费，不含已累计资金费）
+  accumulatedFunding: number; // 已累计资金费（保证金币种，收取为负）
+  liquidationPrice: number;
+  takeProfits: TakeProfitResult[];
+  totalExpectedProfit: number; // 所有止盈位按比例平仓的合计盈亏
+  warnings: string[];
+  result: CalculationResult;
+}
+
+/**
+ * 按名义价值（USD）构造合约参数所需的保证金
+ * 币本位的保证金以币计，需按开仓价格折算
+ */
+function marginForNotional(
+  base: LadderBaseParams,
+  notional: number,
+  entryPrice: number,
+  leverage: number
+): number {
+  const margin = notional / leverage;
+  return base.contractType === "inverse" ? margin / entryPrice : margin;
+}
+
+/**
+ * 判断止损是否落在爆仓价格之外（即先爆仓后止损）
+ */
+function stopBeyondLiquidation(
+  positionType: "long" | "short",
+  stopLossPrice: number,
+  liquidationPrice: number
+): boolean {
+  return positionType === "long"
+    ? stopLossPrice <= liquidationPrice
+    : stopLossPrice >= liquidationPrice;
+}
+
+/**
+ * 计算止损/止盈规划
+ *
+ * 手续费和盈亏与合约计算器一致且与仓位大小成正比，因此先按1 USD名义价值
+ * 求出止损时的单位亏损，再按风险预算放大得到仓位大小。
+ */
+export function planRisk(input: RiskPlanInput): RiskPlanResult {
+  const { entryPrice, stopLossPrice, leverage } = input;
+  // 已付资金费是固定金额，不随仓位大小变化，计入单位亏损会使仓位被放大或缩小
+  const base: LadderBaseParams = { ...input.base, accumulatedFunding: 0 };
+  const positionType = base.positionType;
+  const warnings: string[] = [];
+
+  const riskAmount =
+    input.riskBudgetType === "percent"
+      ? (input.accountBalance * input.riskBudget) / 100
+      : input.riskBudget;
+
+  const wrongSide =
+    positionType === "long"
+      ? stopLossPrice >= entryPrice
+      : stopLossPrice <= entryPrice;
+  if (wrongSide) {
+    warnings.push(
+      positionType === "long"
+        ? "多头止损价格应低于开仓价格"
+        : "空头止损价格应高于开仓价格"
+    );
+  }
+
+  // 1 USD 名义价值在止损时的亏损（含开平仓手续费）
+  // 单位仓位不受交易所数量精度限制，否则会被取整为0
+  const unit = calculateContract({
+    ...base,
+    symbolFilters: undefined,
+    openPrice: entryPrice,
+    margin: marginForNotional(base, 1, entryPrice, leverage),
+    leverage,
+  });
+  const unitLoss = -unit.profitAtPrice(stopLossPrice);
+  const positionSize = unitLoss > 0 ? riskAmount / unitLoss : 0;
+  const margin = marginForNotional(base, positionSize, entryPrice, leverage);
+
+  const result = calculateContract({
+    ...base,
+    openPrice: entryPrice,
+    margin,
+    leverage,
+  });
+  const lossAtStop = -result.profitAtPrice(stopLossPrice);
+
+  if (
+    positionSize > 0 &&
+    stopBeyondLiquidation(positionType, stopLossPrice, result.liquidationPrice)
+  ) {
+    warnings.push(
+      `止损价格 ${stopLossPrice} 位于爆仓价格 ${result.liquidationPrice.toFixed(2)} 之外，会先被强平`
+    );
+  }
+  if (leverage > result.maxLeverage) {
+    warnings.push(`该仓位所在分层最高只允许 ${result.maxLeverage}x 杠杆`);
+  }
+
+  // 逐档降低杠杆，找到爆仓价格仍在止损之外的最高杠杆
+  let maxLeverage = 0;
+  if (positionSize > 0 && !wrongSide) {
+    for (let lev = Math.floor(result.maxLeverage); lev >= 1; lev--) {
+      const candidate = calculateContract({
+        ...base,
+        openPrice: entryPrice,
+        margin: marginForNotional(base, positionSize, entryPrice, lev),
+        leverage: lev,
+      });
+      if (
+        !stopBeyondLiquidation(positionType, stopLossPrice, candidate.liquidationPrice)
+      ) {
+        maxLeverage = lev;
+        break;
+      }
+    }
+  }
+
+  const totalPercent = input.takeProfits.reduce(
+    (sum, tp) => sum + tp.closePercent,
+    0
+  );
+  if (totalPercent > 100) {
+    warnings.push(`止盈平仓比例合计 ${totalPercent}% 超过100%`);
+  }
+
+  const takeProfits = input.takeProfits.map((tp) => {
+    const profit = result.profitAtPrice(tp.price);
+    const tpWrongSide =
+      positionType === "long" ? tp.price <= entryPrice : tp.price >= entryPrice;
+    if (tpWrongSide) {
+      warnings.push(`止盈价格 ${tp.price} 位于开仓价格的亏损一侧`);
+    }
+    return {
+      ...tp,
+      profit,
+      expectedProfit: (profit * tp.closePercent) / 100,
+      riskReward: lossAtStop > 0 ? profit / lossAtStop : 0,
+    };
+  });
+  const totalExpectedProfit = takeProfits.reduce(
+    (sum, tp) => sum + tp.expectedProfit,
+    0
+  );
+
+  return {
+    riskAmount,
+    positionSize,
+    margin,
+    leverage,
+    maxLeverage,
+    lossAtStop,
+    accumulatedFunding: input.accumulatedFunding ?? 0,
+    liquidationPrice: result.liquidationPrice,
+    takeProfits,
+    totalExpectedProfit,
+    warnings,
+    result,
+  };
+}
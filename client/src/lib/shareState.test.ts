@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { decodeShareState, encodeShareState, type CalculatorState } from "./shareState";
+
+const state: CalculatorState = {
+  exchange: "binance",
+  contractType: "linear",
+  symbol: "BTCUSDT",
+  openPrice: 60000,
+  margin: 1000,
+  leverage: 10,
+  marginMode: "cross",
+  positionType: "short",
+  walletBalance: 5000,
+  otherMaintenanceMargin: 12.5,
+  otherUnrealizedPnl: -40,
+  maintainanceRate: 0.5,
+  openFee: 0.02,
+  closeFee: 0.05,
+  fundingRate: 0.01,
+  feeSource: "schedule",
+  vipTier: 2,
+  autoDetectTier: false,
+  entryRole: "maker",
+  exitRole: "taker",
+  bnbDiscount: true,
+  accumulatedFunding: 1.5,
+  breakEvenBuffer: 0.1,
+  targetPrice: 55000,
+  positions: [
+    {
+      id: "p1",
+      name: "对冲仓位",
+      openPrice: 61000,
+      margin: 300,
+      leverage: 20,
+      positionType: "long",
+      marginMode: "isolated",
+      symbol: "BTCUSDT",
+      leverageBrackets: [
+        { bracket: 1, initialLeverage: 125, notionalFloor: 0, notionalCap: 50000, maintMarginRatio: 0.004, cum: 0 },
+      ],
+      exchangeLiquidationPrice: 58200,
+    },
+  ],
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("decodeShareState", () => {
+  it("round-trips the encoded calculator state", () => {
+    const decoded = decodeShareState(encodeShareState(state));
+    expect(decoded).toEqual({
+      ...state,
+      positions: [{ ...state.positions[0], markPrice: undefined, crossAccount: undefined }],
+    });
+  });
+
+  it("rejects unknown versions and tampered payloads", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const encoded = encodeShareState(state);
+    expect(decodeShareState(`2${encoded.slice(1)}`)).toBeNull();
+    expect(decodeShareState(`${encoded.slice(0, -4)}`)).toBeNull();
+    expect(decodeShareState("1.e30")).toBeNull();
+    expect(decodeShareState(null)).toBeNull();
+  });
+});
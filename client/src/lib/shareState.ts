@@ -0,0 +1,311 @@
+/**
+ * 计算器状态的URL编码（分享链接）
+ *
+ * 格式：`<版本>.<base64url(JSON)>`，JSON 使用短字段名；仓位和杠杆分层编码为数组。
+ * 解码时按版本校验，字段缺失或不合法时整体视为无效，避免恢复出半套参数。
+ * 开仓价格以链接中的值为准，打开链接后不跟随实时价格。
+ */
+
+import { z } from "zod";
+import { EXCHANGE_IDS, type ExchangeId } from "@shared/exchanges";
+import type { ContractType, LeverageBracket } from "@shared/contractCalculator";
+import type { OrderRole } from "./feeSchedule";
+
+export const SHARE_STATE_VERSION = 1;
+export const SHARE_STATE_PARAM = "s";
+
+export interface SharedPosition {
+  id: string;
+  name: string;
+  openPrice: number;
+  margin: number;
+  leverage: number;
+  positionType: "long" | "short";
+  marginMode: "isolated" | "cross";
+  symbol?: string;
+  markPrice?: number;
+  leverageBrackets?: LeverageBracket[];
+  crossAccount?: {
+    walletBalance: number;
+    otherMaintenanceMargin: number;
+    otherUnrealizedPnl: number;
+  };
+  exchangeLiquidationPrice?: number;
+}
+
+/**
+ * 计算器的完整输入状态（百分比字段与界面输入一致，如 0.5 表示 0.5%）
+ */
+export interface CalculatorState {
+  exchange: ExchangeId;
+  contractType: ContractType;
+  symbol: string;
+  openPrice: number;
+  margin: number;
+  leverage: number;
+  marginMode: "isolated" | "cross";
+  positionType: "long" | "short";
+  walletBalance: number;
+  otherMaintenanceMargin: number;
+  otherUnrealizedPnl: number;
+  maintainanceRate: number;
+  openFee: number;
+  closeFee: number;
+  fundingRate: number;
+  feeSource: "schedule" | "manual";
+  vipTier: number;
+  autoDetectTier: boolean;
+  entryRole: OrderRole;
+  exitRole: OrderRole;
+  bnbDiscount: boolean;
+  accumulatedFunding: number;
+  breakEvenBuffer: number;
+  targetPrice: number;
+  positions: SharedPosition[];
+}
+
+const num = z.number().finite();
+const side = z.enum(["long", "short"]);
+const mode = z.enum(["isolated", "cross"]);
+const role = z.enum(["maker", "taker"]);
+
+// 杠杆分层：[层级, 最大杠杆, 名义价值下限, 名义价值上限, 维持保证金率, 速算额]
+const bracketTuple = z.tuple([num, num, num, num, num, num]);
+
+// 仓位：[id, 名称, 开仓价, 保证金, 杠杆, 方向, 模式, 可选字段]
+const positionTuple = z.tuple([
+  z.string(),
+  z.string(),
+  num,
+  num,
+  num,
+  side,
+  mode,
+  z
+    .object({
+      s: z.string().optional(),
+      mp: num.optional(),
+      lb: z.array(bracketTuple).optional(),
+      ca: z.tuple([num, num, num]).optional(),
+      xl: num.optional(),
+    })
+    .optional(),
+]);
+
+// 版本1的字段，短字段名与 CalculatorState 一一对应
+const stateV1 = z.object({
+  e: z.enum(EXCHANGE_IDS),
+  c: z.enum(["linear", "inverse"]),
+  s: z.string().min(1).max(64),
+  p: num,
+  m: num,
+  l: num,
+  mm: mode,
+  ps: side,
+  wb: num,
+  om: num,
+  ou: num,
+  mr: num,
+  of: num,
+  cf: num,
+  fr: num,
+  fs: z.enum(["schedule", "manual"]),
+  vt: z.number().int().min(0),
+  ad: z.boolean(),
+  er: role,
+  xr: role,
+  bnb: z.boolean(),
+  af: num,
+  bb: num,
+  tp: num,
+  cp: z.array(positionTuple).max(50),
+});
+
+type StateV1 = z.infer<typeof stateV1>;
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+function encodePosition(position: SharedPosition): StateV1["cp"][number] {
+  const extra = {
+    s: position.symbol,
+    mp: position.markPrice,
+    lb: position.leverageBrackets?.map(
+      (b): [number, number, number, number, number, number] => [
+        b.bracket,
+        b.initialLeverage,
+        b.notionalFloor,
+        b.notionalCap,
+        b.maintMarginRatio,
+        b.cum,
+      ]
+    ),
+    ca: position.crossAccount
+      ? ([
+          position.crossAccount.walletBalance,
+          position.crossAccount.otherMaintenanceMargin,
+          position.crossAccount.otherUnrealizedPnl,
+        ] as [number, number, number])
+      : undefined,
+    xl: position.exchangeLiquidationPrice,
+  };
+  const hasExtra = Object.values(extra).some((v) => v !== undefined);
+  return [
+    position.id,
+    position.name,
+    position.openPrice,
+    position.margin,
+    position.leverage,
+    position.positionType,
+    position.marginMode,
+    hasExtra ? extra : undefined,
+  ];
+}
+
+function decodePosition(tuple: StateV1["cp"][number]): SharedPosition {
+  const [id, name, openPrice, margin, leverage, positionType, marginMode, extra] = tuple;
+  return {
+    id,
+    name,
+    openPrice,
+    margin,
+    leverage,
+    positionType,
+    marginMode,
+    symbol: extra?.s,
+    markPrice: extra?.mp,
+    leverageBrackets: extra?.lb?.map(
+      ([bracket, initialLeverage, notionalFloor, notionalCap, maintMarginRatio, cum]) => ({
+        bracket,
+        initialLeverage,
+        notionalFloor,
+        notionalCap,
+        maintMarginRatio,
+        cum,
+      })
+    ),
+    crossAccount: extra?.ca
+      ? {
+          walletBalance: extra.ca[0],
+          otherMaintenanceMargin: extra.ca[1],
+          otherUnrealizedPnl: extra.ca[2],
+        }
+      : undefined,
+    exchangeLiquidationPrice: extra?.xl,
+  };
+}
+
+export function encodeShareState(state: CalculatorState): string {
+  const data: StateV1 = {
+    e: state.exchange,
+    c: state.contractType,
+    s: state.symbol,
+    p: state.openPrice,
+    m: state.margin,
+    l: state.leverage,
+    mm: state.marginMode,
+    ps: state.positionType,
+    wb: state.walletBalance,
+    om: state.otherMaintenanceMargin,
+    ou: state.otherUnrealizedPnl,
+    mr: state.maintainanceRate,
+    of: state.openFee,
+    cf: state.closeFee,
+    fr: state.fundingRate,
+    fs: state.feeSource,
+    vt: state.vipTier,
+    ad: state.autoDetectTier,
+    er: state.entryRole,
+    xr: state.exitRole,
+    bnb: state.bnbDiscount,
+    af: state.accumulatedFunding,
+    bb: state.breakEvenBuffer,
+    tp: state.targetPrice,
+    cp: state.positions.map(encodePosition),
+  };
+  return `${SHARE_STATE_VERSION}.${toBase64Url(JSON.stringify(data))}`;
+}
+
+/**
+ * 解码分享状态，版本不支持或内容不合法时返回 null
+ */
+export function decodeShareState(encoded: string | null | undefined): CalculatorState | null {
+  if (!encoded) return null;
+  const dot = encoded.indexOf(".");
+  const version = dot > 0 ? parseInt(encoded.slice(0, dot)) : NaN;
+  if (version !== 1) {
+    console.warn(`Unsupported share state version: ${encoded.slice(0, dot)}`);
+    return null;
+  }
+
+  let parsed: StateV1;
+  try {
+    const result = stateV1.safeParse(JSON.parse(fromBase64Url(encoded.slice(dot + 1))));
+    if (!result.success) {
+      console.warn("Invalid share state:", result.error);
+      return null;
+    }
+    parsed = result.data;
+  } catch (error) {
+    console.warn("Failed to decode share state:", error);
+    return null;
+  }
+
+  return {
+    exchange: parsed.e,
+    contractType: parsed.c,
+    symbol: parsed.s,
+    openPrice: parsed.p,
+    margin: parsed.m,
+    leverage: parsed.l,
+    marginMode: parsed.mm,
+    positionType: parsed.ps,
+    walletBalance: parsed.wb,
+    otherMaintenanceMargin: parsed.om,
+    otherUnrealizedPnl: parsed.ou,
+    maintainanceRate: parsed.mr,
+    openFee: parsed.of,
+    closeFee: parsed.cf,
+    fundingRate: parsed.fr,
+    feeSource: parsed.fs,
+    vipTier: parsed.vt,
+    autoDetectTier: parsed.ad,
+    entryRole: parsed.er,
+    exitRole: parsed.xr,
+    bnbDiscount: parsed.bnb,
+    accumulatedFunding: parsed.af,
+    breakEvenBuffer: parsed.bb,
+    targetPrice: parsed.tp,
+    positions: parsed.cp.map(decodePosition),
+  };
+}
+
+/**
+ * 读取当前页面URL中的分享状态
+ */
+export function readShareStateFromUrl(): CalculatorState | null {
+  return decodeShareState(
+    new URLSearchParams(window.location.search).get(SHARE_STATE_PARAM)
+  );
+}
+
+/**
+ * 生成包含状态的完整链接
+ */
+export function buildShareUrl(encoded: string): string {
+  const url = new URL(window.location.href);
+  url.pathname = "/";
+  url.search = `?${SHARE_STATE_PARAM}=${encoded}`;
+  url.hash = "";
+  return url.toString();
+}
@@ -1,7 +1,13 @@
 import { trpc } from "@/lib/trpc";
 import { UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink, TRPCClientError } from "@trpc/client";
+import {
+  createWSClient,
+  httpBatchLink,
+  splitLink,
+  TRPCClientError,
+  wsLink,
+} from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
@@ -41,18 +47,30 @@ queryClient.getMutationCache().subscribe((event: any) => {
   }
 });
 
+// Subscriptions (live prices) go over WebSocket; the client reconnects with
+// backoff and resubscribes automatically. Connects only while subscribed.
+const wsClient = createWSClient({
+  url: `${window.location.protocol === "https:" ? "wss" : "ws"}://${window.location.host}/api/trpc`,
+  lazy: { enabled: true, closeMs: 10000 },
+  retryDelayMs: attempt => Math.min(1000 * 2 ** attempt, 30000),
+});
+
 const trpcClient = trpc.createClient({
   links: [
-    httpBatchLink({
-      url: "/api/trpc",
-      transformer: superjson,
-      fetch(input: any, init: any) {
-        return globalThis.fetch(input, {
-          ...(init ?? {}),
-          credentials: "include",
-        });
-      },
-    } as any),
+    splitLink({
+      condition: op => op.type === "subscription",
+      true: wsLink({ client: wsClient, transformer: superjson }),
+      false: httpBatchLink({
+        url: "/api/trpc",
+        transformer: superjson,
+        fetch(input: any, init: any) {
+          return globalThis.fetch(input, {
+            ...(init ?? {}),
+            credentials: "include",
+          });
+        },
+      } as any),
+    }),
   ],
 });
 
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useEffect, useState, useMemo } from "react";
 import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,63 +12,391 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
 import { AlertCircle, TrendingDown, TrendingUp } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { PositionComparison } from "@/components/PositionComparison";
+import {
+  DEFAULT_COMPARISON_POSITIONS,
+  PositionComparison,
+  type Position,
+} from "@/components/PositionComparison";
+import { DcaLadderPlanner } from "@/components/DcaLadderPlanner";
+import { GridBotCalculator } from "@/components/GridBotCalculator";
+import { HedgeMode } from "@/components/HedgeMode";
+import { defaultRiskLevels, RiskPlanner, type RiskLevels } from "@/components/RiskPlanner";
+import { PnlChart } from "@/components/PnlChart";
+import { LiquidationProbability } from "@/components/LiquidationProbability";
+import { PositionBacktest } from "@/components/PositionBacktest";
+import { FundingProjection } from "@/components/FundingProjection";
 import { SymbolSelector } from "@/components/SymbolSelector";
 import { ApiKeyManager } from "@/components/ApiKeyManager";
+import { CalculationHistory } from "@/components/CalculationHistory";
+import { ExportMenu } from "@/components/ExportMenu";
+import { exportCalculationCsv, exportCalculationJson } from "@/lib/exportReport";
+import type { CalculationExportInput } from "@shared/riskReport";
+import type { SavedCalculation } from "@/lib/calculationHistory";
+import { ShareLink } from "@/components/ShareLink";
+import {
+  encodeShareState,
+  readShareStateFromUrl,
+  SHARE_STATE_PARAM,
+} from "@/lib/shareState";
+import { trpc } from "@/lib/trpc";
+import { useLivePrice } from "@/hooks/useLivePrice";
+import { getDecryptedApiKeys } from "@/lib/encryption";
 import {
   calculateContract,
   ContractParams,
+  ContractType,
+  decimalsForStep,
+  formatAmount,
   formatCurrency,
   formatPercent,
   formatPrice,
-} from "@/lib/contractCalculator";
+  liquidationDistancePercent,
+  SymbolFilters,
+} from "@shared/contractCalculator";
+import { LadderBaseParams } from "@/lib/dcaPlanner";
+import {
+  describeFeeRate,
+  FEE_SCHEDULES,
+  FeeSettings,
+  OrderRole,
+  resolveFeeRates,
+} from "@/lib/feeSchedule";
+import {
+  DEFAULT_EXCHANGE_SYMBOLS,
+  EXCHANGE_IDS,
+  EXCHANGE_NAMES,
+  type ExchangeId,
+} from "@shared/exchanges";
 
 export default function Home() {
   // The userAuth hooks provides authentication state
   // To implement login/logout functionality, simply call logout() or redirect to getLoginUrl()
   let { user, loading, error, isAuthenticated, logout } = useAuth();
 
-  // 币种选择
-  const [selectedSymbol, setSelectedSymbol] = useState<string>("BTCUSDT");
+  // 从分享链接打开时，以链接中的状态作为初始值
+  const [shared] = useState(() => readShareStateFromUrl());
+
+  // 交易所、合约类型与币种选择
+  const [exchange, setExchange] = useState<ExchangeId>(shared?.exchange ?? "binance");
+  const [contractType, setContractType] = useState<ContractType>(shared?.contractType ?? "linear");
+  const [selectedSymbol, setSelectedSymbol] = useState<string>(shared?.symbol ?? "BTCUSDT");
+  const inverse = contractType === "inverse";
+  const isBinance = exchange === "binance";
+
+  const handleContractTypeChange = (type: ContractType) => {
+    setContractType(type);
+    setSelectedSymbol(
+      type === "inverse" ? "BTCUSD_PERP" : DEFAULT_EXCHANGE_SYMBOLS[exchange]
+    );
+  };
+
+  // 币本位合约、VIP等级检测和账户费率仅支持币安
+  const handleExchangeChange = (id: ExchangeId) => {
+    setExchange(id);
+    setContractType("linear");
+    setSelectedSymbol(DEFAULT_EXCHANGE_SYMBOLS[id]);
+    setVipTier(0);
+  };
 
   // 基础参数
-  const [openPrice, setOpenPrice] = useState<number>(60000);
-  const [margin, setMargin] = useState<number>(20);
-  const [leverage, setLeverage] = useState<number>(5);
-  const [marginMode, setMarginMode] = useState<"isolated" | "cross">("isolated");
-  const [positionType, setPositionType] = useState<"long" | "short">("long");
+  const [openPrice, setOpenPrice] = useState<number>(shared?.openPrice ?? 60000);
+  const [margin, setMargin] = useState<number>(shared?.margin ?? 20);
+  const [leverage, setLeverage] = useState<number>(shared?.leverage ?? 5);
+  const [marginMode, setMarginMode] = useState<"isolated" | "cross">(shared?.marginMode ?? "isolated");
+  const [positionType, setPositionType] = useState<"long" | "short">(shared?.positionType ?? "long");
+
+  // 全仓账户状态
+  const [walletBalance, setWalletBalance] = useState<number>(shared?.walletBalance ?? 1000);
+  const [otherMaintenanceMargin, setOtherMaintenanceMargin] = useState<number>(shared?.otherMaintenanceMargin ?? 0);
+  const [otherUnrealizedPnl, setOtherUnrealizedPnl] = useState<number>(shared?.otherUnrealizedPnl ?? 0);
 
   // 高级参数
-  const [maintainanceRate, setMaintainanceRate] = useState<number>(0.5);
-  const [openFee, setOpenFee] = useState<number>(0.02);
-  const [closeFee, setCloseFee] = useState<number>(0.02);
-  const [fundingRate, setFundingRate] = useState<number>(0);
+  const [maintainanceRate, setMaintainanceRate] = useState<number>(shared?.maintainanceRate ?? 0.5);
+  const [openFee, setOpenFee] = useState<number>(shared?.openFee ?? 0.02);
+  const [closeFee, setCloseFee] = useState<number>(shared?.closeFee ?? 0.02);
+  const [fundingRate, setFundingRate] = useState<number>(shared?.fundingRate ?? 0);
+
+  // 手续费模型：开平仓分别按挂单/吃单计费，费率取自VIP费率表或手动输入
+  const [feeSource, setFeeSource] = useState<"schedule" | "manual">(shared?.feeSource ?? "schedule");
+  const [vipTier, setVipTier] = useState<number>(shared?.vipTier ?? 0);
+  const [autoDetectTier, setAutoDetectTier] = useState<boolean>(shared?.autoDetectTier ?? false);
+  const [entryRole, setEntryRole] = useState<OrderRole>(shared?.entryRole ?? "taker");
+  const [exitRole, setExitRole] = useState<OrderRole>(shared?.exitRole ?? "taker");
+  const [bnbDiscount, setBnbDiscount] = useState<boolean>(shared?.bnbDiscount ?? false);
+  const [accumulatedFunding, setAccumulatedFunding] = useState<number>(shared?.accumulatedFunding ?? 0);
+  const [breakEvenBuffer, setBreakEvenBuffer] = useState<number>(shared?.breakEvenBuffer ?? 0);
+
+  // 交易所杠杆分层（维持保证金阶梯），API密钥仅发送给币安
+  const apiKeys = useMemo(() => getDecryptedApiKeys(), []);
+  const bracketInput = {
+    symbol: selectedSymbol,
+    apiKey: isBinance ? apiKeys?.apiKey : undefined,
+    apiSecret: isBinance ? apiKeys?.apiSecret : undefined,
+  };
+  const { data: linearBracketData } = trpc.exchange.brackets.useQuery(
+    { exchange, ...bracketInput },
+    { enabled: !!selectedSymbol && !inverse }
+  );
+  const { data: coinBracketData } = trpc.binance.coinLeverageBrackets.useQuery(
+    bracketInput,
+    { enabled: !!selectedSymbol && inverse }
+  );
+  const bracketData = inverse ? coinBracketData : linearBracketData;
+  const leverageBrackets =
+    bracketData?.success ? bracketData.brackets : undefined;
+
+  // 通过API密钥检测VIP等级
+  const { data: feeTierData } = trpc.binance.feeTier.useQuery(
+    { apiKey: apiKeys?.apiKey ?? "", apiSecret: apiKeys?.apiSecret ?? "" },
+    { enabled: autoDetectTier && !!apiKeys && isBinance }
+  );
+  const detectedTier =
+    autoDetectTier && isBinance && feeTierData?.success
+      ? feeTierData.feeTier
+      : undefined;
+  // 当前交易对的账户实际费率（币本位暂不支持）
+  const { data: accountFeeData } = trpc.exchange.fees.useQuery(
+    {
+      exchange: "binance",
+      symbol: selectedSymbol,
+      apiKey: apiKeys?.apiKey,
+      apiSecret: apiKeys?.apiSecret,
+    },
+    { enabled: autoDetectTier && !!apiKeys && !!selectedSymbol && !inverse && isBinance }
+  );
+  const accountRates = useMemo(
+    () =>
+      autoDetectTier &&
+      !inverse &&
+      isBinance &&
+      accountFeeData?.success &&
+      accountFeeData.source === "account"
+        ? {
+            maker: accountFeeData.maker!,
+            taker: accountFeeData.taker!,
+          }
+        : undefined,
+    [autoDetectTier, inverse, isBinance, accountFeeData]
+  );
+  const feeSettings = useMemo<FeeSettings>(
+    () => ({
+      exchange,
+      source: feeSource,
+      vipTier,
+      detectedTier,
+      accountRates,
+      entryRole,
+      exitRole,
+      bnbDiscount,
+      contractType,
+      manualOpenFee: openFee / 100,
+      manualCloseFee: closeFee / 100,
+    }),
+    [exchange, feeSource, vipTier, detectedTier, accountRates, entryRole, exitRole, bnbDiscount, contractType, openFee, closeFee]
+  );
+  const appliedFees = useMemo(() => resolveFeeRates(feeSettings), [feeSettings]);
+  // 网格限价单按挂单成交，启动时的市价单按吃单成交
+  const gridFees = useMemo(
+    () => resolveFeeRates({ ...feeSettings, entryRole: "maker", exitRole: "taker" }),
+    [feeSettings]
+  );
+
+  // 币本位合约面值与保证金币种
+  const { data: coinSymbols } = trpc.binance.coinSymbols.useQuery(undefined, {
+    enabled: inverse,
+  });
+  const coinContract = coinSymbols?.contracts?.find(
+    (c) => c.symbol === selectedSymbol
+  );
+  // 交易所精度与下单限制（U本位）
+  const { data: symbolInfoData } = trpc.exchange.symbolInfo.useQuery(
+    { exchange, symbol: selectedSymbol },
+    { enabled: !!selectedSymbol && !inverse }
+  );
+  const linearInfo =
+    !inverse && symbolInfoData?.success ? symbolInfoData.info : undefined;
+  const baseAsset = inverse
+    ? coinContract?.baseAsset ?? selectedSymbol.replace(/USD_.*$/, "")
+    : linearInfo?.baseAsset ?? selectedSymbol.replace(/-?USDT(-SWAP)?$/, "");
+  const marginAsset = inverse ? coinContract?.marginAsset ?? baseAsset : "USD";
+  const contractSize =
+    coinContract?.contractSize ?? (baseAsset === "BTC" ? 100 : 10);
+  const formatMargin = (value: number) => formatAmount(value, marginAsset);
+
+  const symbolFilters = useMemo<SymbolFilters | undefined>(() => {
+    if (!linearInfo) return undefined;
+    return {
+      tickSize: linearInfo.tickSize,
+      stepSize: linearInfo.stepSize,
+      minQty: linearInfo.minQty,
+      maxQty: linearInfo.maxQty,
+      minNotional: linearInfo.minNotional,
+    };
+  }, [linearInfo]);
+  const priceDecimals = symbolFilters
+    ? decimalsForStep(symbolFilters.tickSize)
+    : undefined;
+  const quantityDecimals = symbolFilters
+    ? decimalsForStep(symbolFilters.stepSize)
+    : 4;
+
+  // 标记价格（交易所以标记价格触发强平）：币安实时推送，其他交易所轮询
+  const { live } = useLivePrice(exchange, contractType, selectedSymbol);
+  const { data: markData } = trpc.exchange.markPrice.useQuery(
+    { exchange, symbol: selectedSymbol },
+    {
+      enabled: !!selectedSymbol && !inverse && live?.markPrice == null,
+      refetchInterval: 30000,
+    }
+  );
+  const markPrice =
+    live?.markPrice ??
+    (!inverse && markData?.success ? markData.markPrice : undefined);
 
   // 盈亏计算
-  const [targetPrice, setTargetPrice] = useState<number>(62000);
-  // 处理价格更新
+  const [targetPrice, setTargetPrice] = useState<number>(shared?.targetPrice ?? 62000);
+  // 处理价格更新（开启跟随时开仓价格随当前价格变化）
+  const [followPrice, setFollowPrice] = useState<boolean>(!shared);
+  // 止损止盈价格（同时在盈亏曲线上标出）
+  const [riskLevels, setRiskLevels] = useState<RiskLevels>(() =>
+    defaultRiskLevels(openPrice, positionType)
+  );
+  // 多仓位对比（保存在此处以便写入分享链接）
+  const [comparisonPositions, setComparisonPositions] = useState<Position[]>(
+    () => shared?.positions ?? DEFAULT_COMPARISON_POSITIONS
+  );
   const handlePriceUpdate = (price: number) => {
     setOpenPrice(price);
   };
 
+  // 载入历史记录：恢复保存时的参数，手续费按保存时实际使用的费率手动填入
+  const handleLoadCalculation = (calculation: SavedCalculation) => {
+    const saved = calculation.params;
+    setFollowPrice(false);
+    setExchange(calculation.exchange);
+    setContractType(saved.contractType ?? "linear");
+    setSelectedSymbol(calculation.symbol);
+    setPositionType(saved.positionType);
+    setMarginMode(saved.marginMode);
+    setOpenPrice(saved.openPrice);
+    setMargin(saved.margin);
+    setLeverage(saved.leverage);
+    if (saved.maintainanceRate !== undefined) {
+      setMaintainanceRate(saved.maintainanceRate * 100);
+    }
+    if (saved.crossAccount) {
+      setWalletBalance(saved.crossAccount.walletBalance);
+      setOtherMaintenanceMargin(saved.crossAccount.otherMaintenanceMargin);
+      setOtherUnrealizedPnl(saved.crossAccount.otherUnrealizedPnl);
+    }
+    setFeeSource("manual");
+    setOpenFee((saved.openFee ?? 0.0002) * 100);
+    setCloseFee((saved.closeFee ?? 0.0002) * 100);
+    setFundingRate((saved.fundingRate ?? 0) * 100);
+    setAccumulatedFunding(saved.accumulatedFunding ?? 0);
+    setBreakEvenBuffer((saved.breakEvenBuffer ?? 0) * 100);
+  };
+
 
   // 计算结果
-  const result = useMemo(() => {
-    const params: ContractParams = {
-      openPrice,
-      margin,
-      leverage,
+  // 与开仓价格、保证金、杠杆无关的共用参数（分批建仓规划也使用）
+  // 已累计资金费只属于当前仓位，不放在共用参数里，避免各规划器重复扣除
+  const baseParams = useMemo<LadderBaseParams>(
+    () => ({
       marginMode,
       positionType,
+      contractType,
+      contractSize,
       maintainanceRate: maintainanceRate / 100,
-      openFee: openFee / 100,
-      closeFee: closeFee / 100,
+      leverageBrackets,
+      crossAccount: {
+        walletBalance,
+        otherMaintenanceMargin,
+        otherUnrealizedPnl,
+      },
+      symbolFilters,
+      openFee: appliedFees.open.rate,
+      closeFee: appliedFees.close.rate,
       fundingRate: fundingRate / 100,
-    };
-    return calculateContract(params);
-  }, [openPrice, margin, leverage, marginMode, positionType, maintainanceRate, openFee, closeFee, fundingRate]);
+      breakEvenBuffer: breakEvenBuffer / 100,
+    }),
+    [marginMode, positionType, contractType, contractSize, maintainanceRate, leverageBrackets, walletBalance, otherMaintenanceMargin, otherUnrealizedPnl, symbolFilters, appliedFees, fundingRate, breakEvenBuffer]
+  );
+
+  const params = useMemo<ContractParams>(
+    () => ({
+      ...baseParams,
+      openPrice,
+      margin,
+      leverage,
+      accumulatedFunding,
+    }),
+    [baseParams, openPrice, margin, leverage, accumulatedFunding]
+  );
+
+  const result = useMemo(() => calculateContract(params), [params]);
+
+  // 标记价格距爆仓价格的百分比
+  const markDistance =
+    markPrice !== undefined
+      ? liquidationDistancePercent(result.liquidationPrice, markPrice, positionType)
+      : undefined;
+
+  // 导出当前计算
+  const exportInput: CalculationExportInput = {
+    exchange,
+    symbol: selectedSymbol,
+    marginAsset,
+    params,
+    result,
+    markPrice,
+  };
+
+  // 当前状态编码到URL，刷新页面或复制地址栏即可恢复
+  const encodedState = useMemo(
+    () =>
+      encodeShareState({
+        exchange,
+        contractType,
+        symbol: selectedSymbol,
+        openPrice,
+        margin,
+        leverage,
+        marginMode,
+        positionType,
+        walletBalance,
+        otherMaintenanceMargin,
+        otherUnrealizedPnl,
+        maintainanceRate,
+        openFee,
+        closeFee,
+        fundingRate,
+        feeSource,
+        vipTier,
+        autoDetectTier,
+        entryRole,
+        exitRole,
+        bnbDiscount,
+        accumulatedFunding,
+        breakEvenBuffer,
+        targetPrice,
+        positions: comparisonPositions,
+      }),
+    [exchange, contractType, selectedSymbol, openPrice, margin, leverage, marginMode, positionType, walletBalance, otherMaintenanceMargin, otherUnrealizedPnl, maintainanceRate, openFee, closeFee, fundingRate, feeSource, vipTier, autoDetectTier, entryRole, exitRole, bnbDiscount, accumulatedFunding, breakEvenBuffer, targetPrice, comparisonPositions]
+  );
+
+  // 实时价格会频繁改变开仓价格，延迟写入避免频繁替换历史记录
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const url = new URL(window.location.href);
+      url.searchParams.set(SHARE_STATE_PARAM, encodedState);
+      window.history.replaceState(window.history.state, "", url);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [encodedState]);
 
   // 目标价格的盈亏
   const targetProfit = useMemo(() => {
@@ -83,13 +411,30 @@ export default function Home() {
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
       <div className="container mx-auto px-4 py-8">
         {/* 页面标题 */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-white mb-2">
-            🚀 加密货币合约计算器
-          </h1>
-          <p className="text-slate-300 text-lg">
-            专业的合约交易风险计算工具 - 帮助您理解开仓参数和风险
-          </p>
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-white mb-2">
+              🚀 加密货币合约计算器
+            </h1>
+            <p className="text-slate-300 text-lg">
+              专业的合约交易风险计算工具 - 帮助您理解开仓参数和风险
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <ExportMenu
+              csv={() => exportCalculationCsv(exportInput)}
+              json={() => exportCalculationJson(exportInput)}
+              report={() => exportInput}
+            />
+            <ShareLink encodedState={encodedState} />
+            <CalculationHistory
+              exchange={exchange}
+              symbol={selectedSymbol}
+              params={params}
+              result={result}
+              onLoad={handleLoadCalculation}
+            />
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -105,11 +450,60 @@ export default function Home() {
               <CardContent className="space-y-4">
                 {/* 开仓价格 */}
                 <div>
+                {/* 交易所 */}
+                <div className="mb-4">
+                  <Label className="text-slate-300 mb-2 block">
+                    交易所
+                  </Label>
+                  <Select
+                    value={exchange}
+                    onValueChange={(v) => handleExchangeChange(v as ExchangeId)}
+                  >
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      {EXCHANGE_IDS.map((id) => (
+                        <SelectItem key={id} value={id} className="text-white">
+                          {EXCHANGE_NAMES[id]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* 合约类型 */}
+                <div className="mb-4">
+                  <Label className="text-slate-300 mb-2 block">
+                    合约类型
+                  </Label>
+                  <Select
+                    value={contractType}
+                    onValueChange={(v) => handleContractTypeChange(v as ContractType)}
+                  >
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      <SelectItem value="linear" className="text-white">
+                        U本位 (USDT-M)
+                      </SelectItem>
+                      <SelectItem value="inverse" className="text-white" disabled={!isBinance}>
+                        币本位 (COIN-M){!isBinance && "（仅币安）"}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 {/* 币种选择器 */}
                 <SymbolSelector
+                  exchange={exchange}
+                  contractType={contractType}
                   selectedSymbol={selectedSymbol}
                   onSymbolChange={setSelectedSymbol}
                   onPriceUpdate={handlePriceUpdate}
+                  followPrice={followPrice}
+                  onFollowPriceChange={setFollowPrice}
                 />
 
                   <Label className="text-slate-300 mb-2 block">
@@ -128,7 +522,7 @@ export default function Home() {
                 {/* 保证金 */}
                 <div>
                   <Label className="text-slate-300 mb-2 block">
-                    保证金 (USD)
+                    保证金 ({marginAsset})
                   </Label>
                   <Input
                     type="number"
@@ -222,6 +616,54 @@ export default function Home() {
                   </Select>
                 </div>
 
+                {/* 全仓账户状态 */}
+                {marginMode === "cross" && (
+                  <div className="space-y-4 p-3 bg-slate-700/50 rounded-lg border border-slate-600">
+                    <div>
+                      <Label className="text-slate-300 mb-2 block">
+                        钱包余额 ({marginAsset})
+                      </Label>
+                      <Input
+                        type="number"
+                        value={walletBalance}
+                        onChange={(e) => setWalletBalance(parseFloat(e.target.value) || 0)}
+                        className="bg-slate-700 border-slate-600 text-white"
+                        placeholder="1000"
+                        step="10"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-slate-300 mb-2 block">
+                        其他仓位维持保证金 ({marginAsset})
+                      </Label>
+                      <Input
+                        type="number"
+                        value={otherMaintenanceMargin}
+                        onChange={(e) => setOtherMaintenanceMargin(parseFloat(e.target.value) || 0)}
+                        className="bg-slate-700 border-slate-600 text-white"
+                        placeholder="0"
+                        step="1"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-slate-300 mb-2 block">
+                        其他仓位未实现盈亏 ({marginAsset})
+                      </Label>
+                      <Input
+                        type="number"
+                        value={otherUnrealizedPnl}
+                        onChange={(e) => setOtherUnrealizedPnl(parseFloat(e.target.value) || 0)}
+                        className="bg-slate-700 border-slate-600 text-white"
+                        placeholder="0"
+                        step="1"
+                      />
+                    </div>
+                    <p className="text-xs text-slate-400">
+                      全仓模式下爆仓价格由整个账户决定：钱包余额减去其他仓位的维持保证金，再加上其他仓位的未实现盈亏。
+                    </p>
+                  </div>
+                )}
+
                 {/* 高级参数折叠 */}
                 <Tabs defaultValue="basic" className="w-full">
                   <TabsList className="grid w-full grid-cols-2 bg-slate-700">
@@ -246,52 +688,231 @@ export default function Home() {
                         className="bg-slate-700 border-slate-600 text-white"
                         placeholder="0.5"
                         step="0.1"
+                        disabled={!!leverageBrackets}
                       />
+                      {leverageBrackets && (
+                        <p className="text-xs text-slate-400 mt-1">
+                          已使用{EXCHANGE_NAMES[exchange]} {selectedSymbol} 杠杆分层，按头寸名义价值自动选取
+                        </p>
+                      )}
+                    </div>
+
+                    {/* 手续费来源 */}
+                    <div>
+                      <Label className="text-slate-300 mb-2 block">
+                        手续费来源
+                      </Label>
+                      <Select
+                        value={feeSource}
+                        onValueChange={(v) => setFeeSource(v as "schedule" | "manual")}
+                      >
+                        <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-700 border-slate-600">
+                          <SelectItem value="schedule" className="text-white">
+                            VIP费率表
+                          </SelectItem>
+                          <SelectItem value="manual" className="text-white">
+                            手动输入
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
 
-                    {/* 开仓手续费 */}
+                    {feeSource === "schedule" ? (
+                      <>
+                        {/* VIP等级 */}
+                        <div>
+                          <Label className="text-slate-300 mb-2 block">
+                            VIP等级
+                          </Label>
+                          <Select
+                            value={(detectedTier ?? vipTier).toString()}
+                            onValueChange={(v) => setVipTier(parseInt(v))}
+                            disabled={detectedTier !== undefined}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-slate-700 border-slate-600">
+                              {FEE_SCHEDULES[exchange].map((tier) => (
+                                <SelectItem
+                                  key={tier.tier}
+                                  value={tier.tier.toString()}
+                                  className="text-white"
+                                >
+                                  {tier.label}（{formatPercent(tier.maker * 100, 4)} / {formatPercent(tier.taker * 100, 4)}）
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="auto-detect-tier" className="text-slate-300">
+                            通过API密钥获取账户费率
+                          </Label>
+                          <Switch
+                            id="auto-detect-tier"
+                            checked={autoDetectTier}
+                            onCheckedChange={setAutoDetectTier}
+                            disabled={!apiKeys || !isBinance}
+                          />
+                        </div>
+                        {autoDetectTier && feeTierData && !feeTierData.success && (
+                          <p className="text-xs text-yellow-400">
+                            VIP等级检测失败，使用手动选择的等级
+                          </p>
+                        )}
+                        {accountRates && (
+                          <p className="text-xs text-slate-400">
+                            已使用 {selectedSymbol} 账户实际费率：Maker {formatPercent(accountRates.maker * 100, 4)} / Taker {formatPercent(accountRates.taker * 100, 4)}
+                          </p>
+                        )}
+
+                        <div>
+                          <Label className="text-slate-300 mb-2 block">开仓方式</Label>
+                          <Select
+                            value={entryRole}
+                            onValueChange={(v) => setEntryRole(v as OrderRole)}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-slate-700 border-slate-600">
+                              <SelectItem value="maker" className="text-white">
+                                挂单 (Maker)
+                              </SelectItem>
+                              <SelectItem value="taker" className="text-white">
+                                吃单 (Taker)
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div>
+                          <Label className="text-slate-300 mb-2 block">平仓方式</Label>
+                          <Select
+                            value={exitRole}
+                            onValueChange={(v) => setExitRole(v as OrderRole)}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-slate-700 border-slate-600">
+                              <SelectItem value="maker" className="text-white">
+                                挂单 (Maker)
+                              </SelectItem>
+                              <SelectItem value="taker" className="text-white">
+                                吃单 (Taker)
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="bnb-discount" className="text-slate-300">
+                            使用BNB抵扣手续费（9折）
+                          </Label>
+                          <Switch
+                            id="bnb-discount"
+                            checked={bnbDiscount}
+                            onCheckedChange={setBnbDiscount}
+                            disabled={inverse || !isBinance}
+                          />
+                        </div>
+                        {(inverse || !isBinance) && (
+                          <p className="text-xs text-slate-400">
+                            {isBinance
+                              ? "币本位合约不支持BNB抵扣手续费"
+                              : "BNB抵扣仅适用于币安U本位合约"}
+                          </p>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        {/* 开仓手续费 */}
+                        <div>
+                          <Label className="text-slate-300 mb-2 block">
+                            开仓手续费 (%)
+                          </Label>
+                          <Input
+                            type="number"
+                            value={openFee}
+                            onChange={(e) => setOpenFee(parseFloat(e.target.value) || 0)}
+                            className="bg-slate-700 border-slate-600 text-white"
+                            placeholder="0.02"
+                            step="0.01"
+                          />
+                        </div>
+
+                        {/* 平仓手续费 */}
+                        <div>
+                          <Label className="text-slate-300 mb-2 block">
+                            平仓手续费 (%)
+                          </Label>
+                          <Input
+                            type="number"
+                            value={closeFee}
+                            onChange={(e) => setCloseFee(parseFloat(e.target.value) || 0)}
+                            className="bg-slate-700 border-slate-600 text-white"
+                            placeholder="0.02"
+                            step="0.01"
+                          />
+                        </div>
+                      </>
+                    )}
+
+                    {/* 资金费率 */}
                     <div>
                       <Label className="text-slate-300 mb-2 block">
-                        开仓手续费 (%)
+                        资金费率 (%)
                       </Label>
                       <Input
                         type="number"
-                        value={openFee}
-                        onChange={(e) => setOpenFee(parseFloat(e.target.value) || 0)}
+                        value={fundingRate}
+                        onChange={(e) => setFundingRate(parseFloat(e.target.value) || 0)}
                         className="bg-slate-700 border-slate-600 text-white"
-                        placeholder="0.02"
+                        placeholder="0"
                         step="0.01"
                       />
                     </div>
 
-                    {/* 平仓手续费 */}
+                    {/* 已累计资金费 */}
                     <div>
                       <Label className="text-slate-300 mb-2 block">
-                        平仓手续费 (%)
+                        已累计资金费 ({marginAsset})
                       </Label>
                       <Input
                         type="number"
-                        value={closeFee}
-                        onChange={(e) => setCloseFee(parseFloat(e.target.value) || 0)}
+                        value={accumulatedFunding}
+                        onChange={(e) => setAccumulatedFunding(parseFloat(e.target.value) || 0)}
                         className="bg-slate-700 border-slate-600 text-white"
-                        placeholder="0.02"
-                        step="0.01"
+                        placeholder="0"
+                        step="0.1"
                       />
+                      <p className="text-xs text-slate-500 mt-1">
+                        持仓期间已支付的资金费计入保本价格，收取的资金费填负数
+                      </p>
                     </div>
 
-                    {/* 资金费率 */}
+                    {/* 保本缓冲 */}
                     <div>
                       <Label className="text-slate-300 mb-2 block">
-                        资金费率 (%)
+                        保本缓冲 (%)
                       </Label>
                       <Input
                         type="number"
-                        value={fundingRate}
-                        onChange={(e) => setFundingRate(parseFloat(e.target.value) || 0)}
+                        value={breakEvenBuffer}
+                        onChange={(e) => setBreakEvenBuffer(parseFloat(e.target.value) || 0)}
                         className="bg-slate-700 border-slate-600 text-white"
                         placeholder="0"
                         step="0.01"
                       />
+                      <p className="text-xs text-slate-500 mt-1">
+                        在精确保本价格之外额外预留的价格余量，默认不加缓冲
+                      </p>
                     </div>
                   </TabsContent>
                 </Tabs>
@@ -309,6 +930,25 @@ export default function Home() {
               </AlertDescription>
             </Alert>
 
+            {result.orderWarnings.length > 0 && (
+              <Alert className="bg-yellow-900/20 border-yellow-700">
+                <AlertCircle className="h-4 w-4 text-yellow-500" />
+                <AlertDescription className="text-yellow-300 ml-2">
+                  {result.orderWarnings.join("；")}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {leverage > result.maxLeverage && (
+              <Alert className="bg-yellow-900/20 border-yellow-700">
+                <AlertCircle className="h-4 w-4 text-yellow-500" />
+                <AlertDescription className="text-yellow-300 ml-2">
+                  头寸价值 {formatCurrency(result.positionSize)} 所在分层最高只允许{" "}
+                  {result.maxLeverage}x 杠杆，当前杠杆无法在交易所开仓。
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* 核心指标卡片 */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* 头寸价值 */}
@@ -323,7 +963,8 @@ export default function Home() {
                     {formatCurrency(result.positionSize)}
                   </div>
                   <p className="text-xs text-slate-400 mt-1">
-                    {formatPrice(result.positionSizeInCoin, 4)} BTC
+                    {formatPrice(result.positionSizeInCoin, inverse ? 4 : quantityDecimals)} {baseAsset}
+                    {inverse && ` · ${formatPrice(result.contracts, 0)} 张 × ${contractSize} USD`}
                   </p>
                 </CardContent>
               </Card>
@@ -343,13 +984,24 @@ export default function Home() {
                   <div className={`text-2xl font-bold ${
                     positionType === "long" ? "text-red-400" : "text-green-400"
                   }`}>
-                    {formatPrice(result.liquidationPrice)}
+                    {formatPrice(result.liquidationPrice, priceDecimals)}
                   </div>
                   <p className={`text-xs mt-1 ${
                     positionType === "long" ? "text-red-300" : "text-green-300"
                   }`}>
                     {formatPercent(result.liquidationPricePercent)}
                   </p>
+                  {marginMode === "cross" && (
+                    <p className="text-xs text-slate-400 mt-1">
+                      全仓：基于账户余额 {formatMargin(walletBalance)} 计算
+                    </p>
+                  )}
+                  <p className="text-xs text-slate-400 mt-1">
+                    分层 {result.maintenanceBracket.bracket} · 维持保证金率{" "}
+                    {formatPercent(result.maintenanceBracket.maintMarginRatio * 100)}
+                    {result.maintenanceBracket.cum > 0 &&
+                      ` · 速算额 ${formatMargin(result.maintenanceBracket.cum)}`}
+                  </p>
                 </CardContent>
               </Card>
 
@@ -361,12 +1013,30 @@ export default function Home() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-yellow-400">
-                    {formatPercent(result.riskPercentage)}
-                  </div>
-                  <p className="text-xs text-slate-400 mt-1">
-                    价格需要变化此幅度才会爆仓
-                  </p>
+                  {markDistance !== undefined && markPrice !== undefined ? (
+                    <>
+                      <div className={`text-2xl font-bold ${
+                        markDistance > 0 ? "text-yellow-400" : "text-red-500"
+                      }`}>
+                        {formatPercent(markDistance)}
+                      </div>
+                      <p className="text-xs text-slate-400 mt-1">
+                        {live?.markPrice != null ? "实时" : ""}标记价格 {formatPrice(markPrice, priceDecimals)} 距爆仓价格（强平以标记价格触发）
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1">
+                        相对开仓价格：{formatPercent(result.riskPercentage)}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {formatPercent(result.riskPercentage)}
+                      </div>
+                      <p className="text-xs text-slate-400 mt-1">
+                        价格需要变化此幅度才会爆仓
+                      </p>
+                    </>
+                  )}
                 </CardContent>
               </Card>
 
@@ -379,17 +1049,31 @@ export default function Home() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold text-red-400">
-                    {formatCurrency(result.maxLoss)}
+                    {formatMargin(result.maxLoss)}
                   </div>
                   <p className="text-xs text-slate-400 mt-1">
                     {marginMode === "isolated"
                       ? "逐仓模式：仅限保证金"
-                      : "全仓模式：整个账户"}
+                      : "全仓模式：账户权益（钱包余额 + 其他仓位未实现盈亏）"}
                   </p>
                 </CardContent>
               </Card>
             </div>
 
+            {/* 爆仓概率（蒙特卡洛） */}
+            <LiquidationProbability
+              exchange={exchange}
+              symbol={selectedSymbol}
+              contractType={contractType}
+              baseAsset={baseAsset}
+              startPrice={markPrice ?? openPrice}
+              positionType={positionType}
+              liquidationPrice={result.liquidationPrice}
+              stopLossPrice={riskLevels.stopLossPrice}
+              targetPrice={targetPrice}
+              priceDecimals={priceDecimals}
+            />
+
             {/* 费用和资金费率 */}
             <Card className="bg-slate-800 border-slate-700">
               <CardHeader>
@@ -400,19 +1084,25 @@ export default function Home() {
                   <div>
                     <p className="text-xs text-slate-400 mb-1">开仓手续费</p>
                     <p className="text-lg font-semibold text-white">
-                      {formatCurrency(result.openFeeAmount)}
+                      {formatMargin(result.openFeeAmount)}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatPercent(appliedFees.open.rate * 100, 4)} · {describeFeeRate(appliedFees.open)}
                     </p>
                   </div>
                   <div>
                     <p className="text-xs text-slate-400 mb-1">平仓手续费</p>
                     <p className="text-lg font-semibold text-white">
-                      {formatCurrency(result.closeFeeAmount)}
+                      {formatMargin(result.closeFeeAmount)}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {formatPercent(appliedFees.close.rate * 100, 4)} · {describeFeeRate(appliedFees.close)}
                     </p>
                   </div>
                   <div>
                     <p className="text-xs text-slate-400 mb-1">总手续费</p>
                     <p className="text-lg font-semibold text-white">
-                      {formatCurrency(result.totalFeeAmount)}
+                      {formatMargin(result.totalFeeAmount)}
                     </p>
                   </div>
                   <div>
@@ -420,13 +1110,21 @@ export default function Home() {
                     <p className={`text-lg font-semibold ${
                       fundingRate >= 0 ? "text-red-400" : "text-green-400"
                     }`}>
-                      {formatCurrency(result.fundingFeePerDay)}
+                      {formatMargin(result.fundingFeePerDay)}
                     </p>
                   </div>
                 </div>
               </CardContent>
             </Card>
 
+            {/* 资金费用预测 */}
+            <FundingProjection
+              exchange={exchange}
+              symbol={selectedSymbol}
+              params={params}
+              marginAsset={marginAsset}
+            />
+
             {/* 盈亏计算 */}
             <Card className="bg-slate-800 border-slate-700">
               <CardHeader>
@@ -460,7 +1158,7 @@ export default function Home() {
                     <p className={`text-2xl font-bold ${
                       targetProfit >= 0 ? "text-green-400" : "text-red-400"
                     }`}>
-                      {formatCurrency(targetProfit)}
+                      {formatMargin(targetProfit)}
                     </p>
                   </div>
 
@@ -480,14 +1178,46 @@ export default function Home() {
 
                 <div className="pt-4 border-t border-slate-700">
                   <p className="text-sm text-slate-400 mb-2">
-                    💡 <strong>保本价格：</strong> {formatPrice(result.breakEvenPrice)}
+                    💡 <strong>保本价格：</strong> {formatPrice(result.breakEvenPrice, priceDecimals)}
                   </p>
+                  {breakEvenBuffer > 0 && (
+                    <p className="text-sm text-slate-400 mb-2">
+                      🛡️ <strong>含 {formatPercent(breakEvenBuffer, 2)} 缓冲的保本价格：</strong>{" "}
+                      {formatPrice(result.breakEvenPriceWithBuffer, priceDecimals)}
+                    </p>
+                  )}
                   <p className="text-xs text-slate-500">
-                    这是考虑所有手续费后，您需要达到的价格才能不亏不盈。
+                    保本价格按开仓手续费、以平仓价格计算的平仓手续费
+                    {accumulatedFunding !== 0 && "以及已累计资金费"}
+                    精确求解，达到该价格平仓恰好不亏不盈。
                   </p>
                 </div>
               </CardContent>
             </Card>
+
+            {/* 盈亏曲线 */}
+            <PnlChart
+              symbol={selectedSymbol}
+              params={params}
+              result={result}
+              targetPrice={targetPrice}
+              riskLevels={riskLevels}
+              positions={comparisonPositions}
+              marginAsset={marginAsset}
+              priceDecimals={priceDecimals}
+            />
+
+            {/* 止损止盈规划 */}
+            <RiskPlanner
+              entryPrice={openPrice}
+              leverage={leverage}
+              baseParams={baseParams}
+              accountBalance={walletBalance}
+              accumulatedFunding={accumulatedFunding}
+              marginAsset={marginAsset}
+              levels={riskLevels}
+              onLevelsChange={setRiskLevels}
+            />
           </div>
         </div>
 
@@ -498,7 +1228,57 @@ export default function Home() {
 
         {/* 多仓位对比分析 */}
         <div className="mt-8">
-          <PositionComparison currentPrice={openPrice} />
+          <PositionComparison
+            currentPrice={markPrice ?? openPrice}
+            positions={comparisonPositions}
+            onPositionsChange={setComparisonPositions}
+          />
+        </div>
+
+        {/* 分批建仓规划 */}
+        <div className="mt-8">
+          <DcaLadderPlanner
+            currentPrice={markPrice ?? openPrice}
+            baseParams={baseParams}
+            marginAsset={marginAsset}
+          />
+        </div>
+
+        {/* 双向持仓 */}
+        <div className="mt-8">
+          <HedgeMode
+            currentPrice={markPrice ?? openPrice}
+            baseParams={baseParams}
+            baseAsset={baseAsset}
+            marginAsset={marginAsset}
+            priceDecimals={priceDecimals}
+            quantityDecimals={quantityDecimals}
+          />
+        </div>
+
+        {/* 合约网格计算器 */}
+        <div className="mt-8">
+          <GridBotCalculator
+            currentPrice={markPrice ?? openPrice}
+            baseParams={baseParams}
+            makerFee={gridFees.open.rate}
+            takerFee={gridFees.close.rate}
+            baseAsset={baseAsset}
+            priceDecimals={priceDecimals}
+            quantityDecimals={quantityDecimals}
+          />
+        </div>
+
+        {/* 历史回测 */}
+        <div className="mt-8">
+          <PositionBacktest
+            exchange={exchange}
+            symbol={selectedSymbol}
+            baseAsset={baseAsset}
+            params={params}
+            marginAsset={marginAsset}
+            priceDecimals={priceDecimals}
+          />
         </div>
 
         {/* 底部说明 */}
@@ -511,11 +1291,20 @@ export default function Home() {
               <strong>基础参数：</strong> 输入您的开仓价格、保证金金额和杠杆倍数。计算器会自动计算爆仓价格、风险百分比等关键指标。
             </p>
             <p>
-              <strong>高级参数：</strong> 可以调整维持保证金率、手续费和资金费率以获得更精确的计算结果。
+              <strong>高级参数：</strong> 可以调整维持保证金率、手续费和资金费率以获得更精确的计算结果。手续费默认按VIP费率表计算，可分别选择开仓和平仓为挂单或吃单、开启BNB抵扣，配置API密钥后还可获取账户VIP等级及当前交易对的实际费率。保本价格为精确解，如需预留余量可设置保本缓冲，带缓冲的价格会单独标注。
+            </p>
+            <p>
+              <strong>全仓模式：</strong> 选择全仓后填写钱包余额以及其他仓位的维持保证金和未实现盈亏，爆仓价格将按整个账户计算。
             </p>
             <p>
               <strong>盈亏计算：</strong> 输入目标价格，查看在该价格下您的预期盈亏。
             </p>
+            <p>
+              <strong>止损止盈：</strong> 设置止损价格、最大亏损预算和多个止盈位，计算满足预算的仓位大小、所需保证金以及各止盈位的盈亏比。
+            </p>
+            <p>
+              <strong>分批建仓：</strong> 在分批建仓规划中列出计划成交的价格、名义价值和追加保证金，查看每笔成交后的均价、实际杠杆、爆仓价格和保本价格。
+            </p>
             <p>
               <strong>风险管理：</strong> 始终使用止损订单来限制风险。低杠杆和充足的保证金是避免爆仓的关键。
             </p>
@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle, Home } from "lucide-react";
+import { SHARE_STATE_PARAM } from "@/lib/shareState";
+
+interface ShortLinkProps {
+  params: { code: string };
+}
+
+/**
+ * 短链接跳转：查询保存的状态后替换为带完整参数的首页地址
+ */
+export default function ShortLink({ params }: ShortLinkProps) {
+  const [, setLocation] = useLocation();
+  const { data, isLoading, isError } = trpc.shareLinks.resolve.useQuery(
+    { code: params.code },
+    { retry: false }
+  );
+
+  useEffect(() => {
+    if (data?.success) {
+      // Home 在首次渲染时读取URL，必须整页跳转后才能恢复状态
+      window.location.replace(`/?${SHARE_STATE_PARAM}=${data.state!}`);
+    }
+  }, [data]);
+
+  const failed = isError || (data && !data.success);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900">
+      <Card className="w-full max-w-lg mx-4 bg-slate-800 border-slate-700">
+        <CardContent className="pt-8 pb-8 text-center text-white">
+          {failed ? (
+            <>
+              <AlertCircle className="h-12 w-12 text-red-400 mx-auto mb-4" />
+              <p className="text-lg font-semibold mb-2">链接无效或已失效</p>
+              <p className="text-slate-400 mb-6">找不到该分享链接对应的计算参数</p>
+              <Button onClick={() => setLocation("/")} className="bg-blue-600 hover:bg-blue-700">
+                <Home className="w-4 h-4 mr-2" />
+                返回计算器
+              </Button>
+            </>
+          ) : (
+            <p className="text-slate-300">{isLoading ? "正在读取分享链接..." : "正在跳转..."}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+CREATE TABLE `calculations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(128) NOT NULL,
+	`exchange` varchar(16) NOT NULL,
+	`symbol` varchar(64) NOT NULL,
+	`tags` json NOT NULL,
+	`params` json NOT NULL,
+	`result` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `calculations_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `calculations` ADD CONSTRAINT `calculations_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX `calculations_userId_idx` ON `calculations` (`userId`);
\ No newline at end of file
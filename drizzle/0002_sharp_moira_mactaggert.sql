@@ -0,0 +1,9 @@
+CREATE TABLE `shareLinks` (
+	`code` varchar(16) NOT NULL,
+	`state` text NOT NULL,
+	`userId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `shareLinks_code` PRIMARY KEY(`code`)
+);
+--> statement-breakpoint
+ALTER TABLE `shareLinks` ADD CONSTRAINT `shareLinks_userId_users_id_fk` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `klines` (
+	`market` varchar(8) NOT NULL,
+	`priceType` varchar(8) NOT NULL,
+	`symbol` varchar(64) NOT NULL,
+	`interval` varchar(4) NOT NULL,
+	`openTime` bigint NOT NULL,
+	`open` double NOT NULL,
+	`high` double NOT NULL,
+	`low` double NOT NULL,
+	`close` double NOT NULL,
+	`volume` double NOT NULL,
+	`closeTime` bigint NOT NULL,
+	CONSTRAINT `klines_market_priceType_symbol_interval_openTime_pk` PRIMARY KEY(`market`,`priceType`,`symbol`,`interval`,`openTime`)
+);
@@ -1,4 +1,16 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import {
+  bigint,
+  double,
+  index,
+  int,
+  json,
+  mysqlEnum,
+  mysqlTable,
+  primaryKey,
+  text,
+  timestamp,
+  varchar,
+} from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -25,4 +37,73 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
-// TODO: Add your tables here
\ No newline at end of file
+/**
+ * Saved calculator runs. `params` holds the full ContractParams used for the
+ * run and `result` the numeric results snapshot, both as JSON so they can be
+ * reloaded into the calculator exactly as saved.
+ */
+export const calculations = mysqlTable(
+  "calculations",
+  {
+    id: int("id").autoincrement().primaryKey(),
+    userId: int("userId")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 128 }).notNull(),
+    exchange: varchar("exchange", { length: 16 }).notNull(),
+    symbol: varchar("symbol", { length: 64 }).notNull(),
+    tags: json("tags").$type<string[]>().notNull(),
+    params: json("params").$type<Record<string, unknown>>().notNull(),
+    result: json("result").$type<Record<string, unknown>>().notNull(),
+    createdAt: timestamp("createdAt").defaultNow().notNull(),
+    updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+  },
+  (table) => [index("calculations_userId_idx").on(table.userId)]
+);
+
+export type Calculation = typeof calculations.$inferSelect;
+export type InsertCalculation = typeof calculations.$inferInsert;
+
+/**
+ * Short links for shared calculator state. `state` is the versioned encoded
+ * string from the client (the same value as the `s` URL parameter); `userId`
+ * is only recorded when the link was created by a signed-in user.
+ */
+export const shareLinks = mysqlTable("shareLinks", {
+  code: varchar("code", { length: 16 }).primaryKey(),
+  state: text("state").notNull(),
+  userId: int("userId").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type InsertShareLink = typeof shareLinks.$inferInsert;
+
+/**
+ * Durable cache of finished (closed) Binance klines. Closed candles never
+ * change, so rows are written once and served instead of refetching.
+ * `priceType` is "last" for trade klines and "mark" for mark price klines.
+ */
+export const klines = mysqlTable(
+  "klines",
+  {
+    market: varchar("market", { length: 8 }).notNull(),
+    priceType: varchar("priceType", { length: 8 }).notNull(),
+    symbol: varchar("symbol", { length: 64 }).notNull(),
+    interval: varchar("interval", { length: 4 }).notNull(),
+    openTime: bigint("openTime", { mode: "number" }).notNull(),
+    open: double("open").notNull(),
+    high: double("high").notNull(),
+    low: double("low").notNull(),
+    close: double("close").notNull(),
+    volume: double("volume").notNull(),
+    closeTime: bigint("closeTime", { mode: "number" }).notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.market, table.priceType, table.symbol, table.interval, table.openTime],
+    }),
+  ]
+);
+
+export type StoredKline = typeof klines.$inferSelect;
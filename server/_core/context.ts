@@ -1,4 +1,5 @@
 import type { CreateExpressContextOptions } from "@trpc/server/adapters/express";
+import type { CreateWSSContextFnOptions } from "@trpc/server/adapters/ws";
 import type { User } from "../../drizzle/schema";
 import { sdk } from "./sdk";
 
@@ -26,3 +27,27 @@ export async function createContext(
     user,
   };
 }
+
+/**
+ * Context for tRPC subscriptions over WebSocket. The session cookie is read
+ * from the upgrade request; there is no Express response, so procedures that
+ * set cookies must stay on the HTTP link.
+ */
+export async function createWsContext(
+  opts: CreateWSSContextFnOptions
+): Promise<TrpcContext> {
+  const req = opts.req as CreateExpressContextOptions["req"];
+  let user: User | null = null;
+
+  try {
+    user = await sdk.authenticateRequest(req);
+  } catch (error) {
+    user = null;
+  }
+
+  return {
+    req,
+    res: opts.res as unknown as CreateExpressContextOptions["res"],
+    user,
+  };
+}
@@ -3,9 +3,11 @@ import express from "express";
 import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
+import { applyWSSHandler } from "@trpc/server/adapters/ws";
+import { WebSocketServer } from "ws";
 import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
-import { createContext } from "./context";
+import { createContext, createWsContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -43,6 +45,21 @@ async function startServer() {
       createContext,
     })
   );
+  // tRPC subscriptions over WebSocket on the same path; other upgrade
+  // requests (e.g. Vite HMR) are left to their own handlers
+  const wss = new WebSocketServer({ noServer: true });
+  applyWSSHandler({
+    wss,
+    router: appRouter,
+    createContext: createWsContext,
+    keepAlive: { enabled: true, pingMs: 30000, pongWaitMs: 5000 },
+  });
+  server.on("upgrade", (req, socket, head) => {
+    if (!req.url?.startsWith("/api/trpc")) return;
+    wss.handleUpgrade(req, socket, head, ws => {
+      wss.emit("connection", ws, req);
+    });
+  });
   // development mode uses Vite, production mode uses static files
   if (process.env.NODE_ENV === "development") {
     await setupVite(app, server);
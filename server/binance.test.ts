@@ -0,0 +1,346 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockBinanceServer, startMockBinance } from "./mockBinance";
+
+const API_KEY = "test-key";
+const API_SECRET = "test-secret";
+const OTHER_KEY = "other-key";
+const OTHER_SECRET = "other-secret";
+
+let mock: MockBinanceServer;
+let binance: typeof import("./binance");
+
+beforeAll(async () => {
+  mock = await startMockBinance({
+    credentials: { [API_KEY]: API_SECRET, [OTHER_KEY]: OTHER_SECRET },
+  });
+  // binance.ts 在加载时读取环境变量，需先指向模拟服务再导入
+  vi.stubEnv("BINANCE_API_BASE", mock.url);
+  vi.stubEnv("BINANCE_API_KEY", "");
+  vi.stubEnv("BINANCE_API_SECRET", "");
+  binance = await import("./binance");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.reset();
+  binance.clearCache();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+const requestsTo = (path: string) =>
+  mock.requests.filter((r) => r.path === path);
+
+describe("getBinancePrice", () => {
+  it("fetches the price and serves repeat calls from cache", async () => {
+    expect(await binance.getBinancePrice("BTCUSDT")).toBe(60000);
+    mock.state.prices.BTCUSDT = 61000;
+    expect(await binance.getBinancePrice("BTCUSDT")).toBe(60000);
+    expect(requestsTo("/fapi/v1/ticker/price")).toHaveLength(1);
+  });
+
+  it("refetches once the cache expires", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await binance.getBinancePrice("BTCUSDT");
+    mock.state.prices.BTCUSDT = 61000;
+    vi.advanceTimersByTime(61 * 1000);
+    expect(await binance.getBinancePrice("BTCUSDT")).toBe(61000);
+    expect(requestsTo("/fapi/v1/ticker/price")).toHaveLength(2);
+  });
+
+  it("falls back to the stale cached price when the API fails", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await binance.getBinancePrice("BTCUSDT");
+    vi.advanceTimersByTime(61 * 1000);
+    mock.failNext("/fapi/v1/ticker/price", { status: 503 });
+    expect(await binance.getBinancePrice("BTCUSDT")).toBe(60000);
+  });
+
+  it("throws when the API fails and nothing is cached", async () => {
+    mock.failNext("/fapi/v1/ticker/price", { status: 500 });
+    await expect(binance.getBinancePrice("BTCUSDT")).rejects.toThrow(
+      "Binance API error"
+    );
+  });
+});
+
+describe("getPremiumIndex", () => {
+  it("parses mark price and last funding rate", async () => {
+    const premium = await binance.getPremiumIndex("BTCUSDT");
+    expect(premium.markPrice).toBe(60010);
+    expect(premium.indexPrice).toBe(60000);
+    expect(premium.lastFundingRate).toBe(-0.0001);
+  });
+});
+
+describe("getSymbolCatalog", () => {
+  it("parses exchange filters and caches the catalogue", async () => {
+    const catalog = await binance.getSymbolCatalog();
+    const btc = catalog.find((s) => s.symbol === "BTCUSDT");
+    expect(btc).toMatchObject({
+      tickSize: 0.1,
+      stepSize: 0.001,
+      minQty: 0.001,
+      minNotional: 100,
+    });
+    // 没有API密钥时分层接口被拒绝，最大杠杆为空
+    expect(btc?.maxLeverage).toBeNull();
+
+    await binance.getSymbolInfo("ETHUSDT");
+    expect(requestsTo("/fapi/v1/exchangeInfo")).toHaveLength(1);
+  });
+});
+
+describe("getLeverageBrackets", () => {
+  it("signs the request and sorts brackets by notional floor", async () => {
+    mock.state.brackets.BTCUSDT = [...mock.state.brackets.BTCUSDT].reverse();
+    const info = await binance.getLeverageBrackets("BTCUSDT", API_KEY, API_SECRET);
+    expect(info.leverageBrackets.map((b) => b.bracket)).toEqual([1, 2, 3]);
+
+    const [request] = requestsTo("/fapi/v1/leverageBracket");
+    expect(request.apiKey).toBe(API_KEY);
+    expect(request.query.signature).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("caches brackets separately for each API key", async () => {
+    await binance.getLeverageBrackets("BTCUSDT", API_KEY, API_SECRET);
+    await binance.getLeverageBrackets("BTCUSDT", OTHER_KEY, OTHER_SECRET);
+    await binance.getLeverageBrackets("BTCUSDT", API_KEY, API_SECRET);
+
+    const requests = requestsTo("/fapi/v1/leverageBracket");
+    expect(requests.map((r) => r.apiKey)).toEqual([API_KEY, OTHER_KEY]);
+  });
+
+  it("rejects a request signed with the wrong secret", async () => {
+    await expect(
+      binance.getLeverageBrackets("BTCUSDT", API_KEY, "wrong-secret")
+    ).rejects.toThrow("Binance API error");
+  });
+});
+
+describe("getBinanceFees", () => {
+  it("fetches commission rates for the requested symbol", async () => {
+    mock.state.commissionRates[API_KEY] = { maker: 0.00016, taker: 0.0004 };
+    const fees = await binance.getBinanceFees("ETHUSDT", API_KEY, API_SECRET);
+    expect(fees).toEqual({
+      symbol: "ETHUSDT",
+      makerCommission: 0.00016,
+      takerCommission: 0.0004,
+    });
+    expect(requestsTo("/fapi/v1/commissionRates")[0].query.symbol).toBe("ETHUSDT");
+  });
+
+  it("caches fees separately for each API key", async () => {
+    mock.state.commissionRates[API_KEY] = { maker: 0.00016, taker: 0.0004 };
+    mock.state.commissionRates[OTHER_KEY] = { maker: 0, taker: 0.00017 };
+
+    const first = await binance.getBinanceFees("BTCUSDT", API_KEY, API_SECRET);
+    const second = await binance.getBinanceFees("BTCUSDT", OTHER_KEY, OTHER_SECRET);
+    const again = await binance.getBinanceFees("BTCUSDT", API_KEY, API_SECRET);
+
+    expect(first.takerCommission).toBe(0.0004);
+    expect(second.takerCommission).toBe(0.00017);
+    expect(again).toEqual(first);
+    expect(requestsTo("/fapi/v1/commissionRates")).toHaveLength(2);
+  });
+
+  it("requires an API key", async () => {
+    await expect(binance.getBinanceFees("BTCUSDT")).rejects.toThrow(
+      "API key is required"
+    );
+    expect(requestsTo("/fapi/v1/commissionRates")).toHaveLength(0);
+  });
+});
+
+describe("getAccountFeeTier", () => {
+  it("reads the fee tier of the caller's account", async () => {
+    mock.state.feeTier = 3;
+    expect(await binance.getAccountFeeTier(API_KEY, API_SECRET)).toBe(3);
+    expect(requestsTo("/fapi/v2/account")[0].apiKey).toBe(API_KEY);
+  });
+
+  it("never signs with server credentials when the caller sends none", async () => {
+    await expect(binance.getAccountFeeTier("", "")).rejects.toThrow(
+      "API key is required"
+    );
+    expect(requestsTo("/fapi/v2/account")).toHaveLength(0);
+  });
+});
+
+describe("getAccountPositions", () => {
+  it("never signs with server credentials when the caller sends none", async () => {
+    await expect(binance.getAccountPositions("", "")).rejects.toThrow(
+      "API key is required"
+    );
+    expect(requestsTo("/fapi/v2/account")).toHaveLength(0);
+    expect(requestsTo("/fapi/v2/positionRisk")).toHaveLength(0);
+  });
+});
+
+describe("getFundingRateHistory", () => {
+  it("returns rates in ascending time order", async () => {
+    mock.state.fundingRates.BTCUSDT.reverse();
+    const history = await binance.getFundingRateHistory("BTCUSDT", 2);
+    expect(history).toHaveLength(2);
+    expect(history[0].fundingTime).toBeLessThan(history[1].fundingTime);
+  });
+
+  it("filters rates by time range from the earliest settlement", async () => {
+    const [first, second, third] = mock.state.fundingRates.BTCUSDT;
+    const history = await binance.getFundingRateHistory(
+      "BTCUSDT",
+      1,
+      first.fundingTime + 1,
+      third.fundingTime
+    );
+    expect(history).toEqual([second]);
+  });
+
+  describe("over a long range", () => {
+    const EIGHT_HOURS = 8 * 60 * 60 * 1000;
+    const startTime = Date.now() - 2500 * EIGHT_HOURS;
+
+    beforeEach(() => {
+      mock.state.fundingRates.BTCUSDT = Array.from({ length: 2500 }, (_, i) => ({
+        fundingTime: startTime + i * EIGHT_HOURS,
+        fundingRate: 0.0001,
+      }));
+    });
+
+    it("paginates past the 1000 entry limit", async () => {
+      const history = await binance.getFundingRateHistory("BTCUSDT", 5000, startTime, Date.now());
+      expect(history).toHaveLength(2500);
+      expect(
+        history.every((e, i) => i === 0 || e.fundingTime - history[i - 1].fundingTime === EIGHT_HOURS)
+      ).toBe(true);
+      expect(requestsTo("/fapi/v1/fundingRate").map((r) => r.query.startTime)).toEqual([
+        startTime.toString(),
+        (startTime + 999 * EIGHT_HOURS + 1).toString(),
+        (startTime + 1999 * EIGHT_HOURS + 1).toString(),
+      ]);
+    });
+
+    it("throws instead of returning a partial history when a later page fails", async () => {
+      // 第一页正常返回，之后的请求失败
+      mock.setResponse("/fapi/v1/fundingRate", (req) => {
+        if (req.query.startTime !== startTime.toString()) {
+          throw new Error("page failed");
+        }
+        return mock.state.fundingRates.BTCUSDT.slice(0, 1000).map((entry) => ({
+          symbol: "BTCUSDT",
+          fundingTime: entry.fundingTime,
+          fundingRate: entry.fundingRate.toString(),
+        }));
+      });
+      await expect(
+        binance.getFundingRateHistory("BTCUSDT", 5000, startTime, Date.now())
+      ).rejects.toThrow("Binance API error");
+    });
+  });
+
+  it("defaults to an 8 hour interval for symbols not in fundingInfo", async () => {
+    mock.state.fundingIntervals.ETHUSDT = 4;
+    expect(await binance.getFundingIntervalHours("ETHUSDT")).toBe(4);
+    expect(await binance.getFundingIntervalHours("BTCUSDT")).toBe(8);
+  });
+});
+
+describe("getKlines", () => {
+  const HOUR = 60 * 60 * 1000;
+  // 已全部收盘的区间：3000根1小时K线
+  const endTime = Math.floor(Date.now() / HOUR) * HOUR - 10 * HOUR;
+  const startTime = endTime - 3000 * HOUR;
+
+  it("paginates past the 1500 candle limit", async () => {
+    const { klines, complete } = await binance.getKlines({
+      symbol: "BTCUSDT",
+      interval: "1h",
+      startTime,
+      endTime: endTime - 1,
+    });
+    expect(complete).toBe(true);
+    expect(klines).toHaveLength(3000);
+    expect(klines[0].openTime).toBe(startTime);
+    expect(klines.every((k, i) => i === 0 || k.openTime - klines[i - 1].openTime === HOUR)).toBe(true);
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(2);
+  });
+
+  it("serves finished candles from cache", async () => {
+    const query = { symbol: "BTCUSDT", interval: "1h" as const, startTime, endTime: endTime - 1 };
+    const first = await binance.getKlines(query);
+    const second = await binance.getKlines(query);
+    const inner = await binance.getKlines({ ...query, startTime: startTime + 100 * HOUR, limit: 200 });
+    expect(second).toEqual(first);
+    expect(inner.klines).toEqual(first.klines.slice(100, 300));
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(2);
+  });
+
+  it("flags the series as incomplete when a later page fails", async () => {
+    const query = { symbol: "BTCUSDT", interval: "1h" as const, startTime, endTime: endTime - 1 };
+    await binance.getKlines({ ...query, limit: 1500 });
+    mock.failNext("/fapi/v1/klines", { status: 503 });
+
+    const { klines, complete } = await binance.getKlines(query);
+    expect(complete).toBe(false);
+    expect(klines).toHaveLength(1500);
+  });
+
+  it("throws when no candle could be fetched", async () => {
+    mock.failNext("/fapi/v1/klines", { status: 503 });
+    await expect(
+      binance.getKlines({ symbol: "BTCUSDT", interval: "1h", startTime, endTime: endTime - 1 })
+    ).rejects.toThrow("Binance API error");
+  });
+
+  it("always refetches the candle that is still open", async () => {
+    await binance.getKlines({ symbol: "BTCUSDT", interval: "1h", limit: 5 });
+    const { klines: latest } = await binance.getKlines({ symbol: "BTCUSDT", interval: "1h", limit: 5 });
+    expect(latest).toHaveLength(5);
+    expect(latest[4].closeTime).toBeGreaterThanOrEqual(Date.now());
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(2);
+    expect(requestsTo("/fapi/v1/klines")[1].query.startTime).toBe(
+      latest[4].openTime.toString()
+    );
+  });
+
+  it("evicts the least recently used series once too many are cached", async () => {
+    const btc = mock.state.symbols.find((s) => s.symbol === "BTCUSDT")!;
+    for (let i = 0; i < 50; i++) {
+      mock.state.symbols.push({ ...btc, symbol: `COIN${i}USDT` });
+    }
+    const query = { interval: "1h" as const, startTime, endTime: startTime + 9 * HOUR };
+    await binance.getKlines({ ...query, symbol: "BTCUSDT" });
+    for (let i = 0; i < 50; i++) {
+      await binance.getKlines({ ...query, symbol: `COIN${i}USDT` });
+    }
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(51);
+
+    // 最近使用的序列仍在缓存中，最早的 BTCUSDT 已被淘汰
+    await binance.getKlines({ ...query, symbol: "COIN49USDT" });
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(51);
+    await binance.getKlines({ ...query, symbol: "BTCUSDT" });
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(52);
+  });
+
+  it("uses the mark price endpoint for mark price klines", async () => {
+    const { klines } = await binance.getKlines({
+      symbol: "BTCUSDT",
+      interval: "1d",
+      priceType: "mark",
+      limit: 10,
+    });
+    expect(klines).toHaveLength(10);
+    expect(klines[0].close).toBeCloseTo(60010, -3);
+    expect(requestsTo("/fapi/v1/markPriceKlines")).toHaveLength(1);
+    expect(requestsTo("/fapi/v1/klines")).toHaveLength(0);
+  });
+});
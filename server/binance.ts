@@ -6,14 +6,18 @@
  * - BINANCE_API_KEY: 币安API密钥（可选）
  * - BINANCE_API_SECRET: 币安API密钥对应的Secret（可选）
  * - BINANCE_API_BASE: 币安API基础URL（默认为https://fapi.binance.com）
+ * - BINANCE_DAPI_BASE: 币安币本位合约API基础URL（默认为https://dapi.binance.com）
  */
 
-import { createHmac } from "crypto";
+import { createHash, createHmac } from "crypto";
+import { getStoredKlines, storeKlines } from "./db";
 
 const BINANCE_API_BASE = process.env.BINANCE_API_BASE || "https://fapi.binance.com";
+const BINANCE_DAPI_BASE = process.env.BINANCE_DAPI_BASE || "https://dapi.binance.com";
 const BINANCE_API_KEY = process.env.BINANCE_API_KEY || "";
 const BINANCE_API_SECRET = process.env.BINANCE_API_SECRET || "";
 const CACHE_DURATION = 60 * 1000; // 缓存60秒
+const SYMBOL_CACHE_DURATION = 60 * 60 * 1000; // 交易对信息变化很少，缓存1小时
 
 interface CacheEntry<T> {
   data: T;
@@ -27,20 +31,12 @@ interface PriceData {
 }
 
 interface FeeData {
+  symbol: string;
   makerCommission: number;
   takerCommission: number;
-  buyerCommission: number;
-  sellerCommission: number;
-  canTrade: boolean;
-  canDeposit: boolean;
-  canWithdraw: boolean;
-  brokered: boolean;
-  requiredSelfTradePreventionMode: string;
-  preventSor: boolean;
-  updateTime: number;
-}
-
-interface LeverageBracket {
+}
+
+export interface LeverageBracket {
   bracket: number;
   initialLeverage: number;
   notionalCap: number;
@@ -49,15 +45,158 @@ interface LeverageBracket {
   cum: number;
 }
 
-interface SymbolLeverageInfo {
+export interface SymbolLeverageInfo {
   symbol: string;
   leverageBrackets: LeverageBracket[];
 }
 
+/**
+ * U本位合约交易对信息（来自 /fapi/v1/exchangeInfo）
+ */
+export interface FuturesSymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  marginAsset: string;
+  contractType: string; // PERPETUAL / CURRENT_QUARTER / NEXT_QUARTER 等
+  status: string; // TRADING / SETTLING / PENDING_TRADING 等
+  onboardDate: number;
+  pricePrecision: number;
+  quantityPrecision: number;
+  tickSize: number; // PRICE_FILTER.tickSize
+  stepSize: number; // LOT_SIZE.stepSize
+  minQty: number; // LOT_SIZE.minQty
+  maxQty: number; // LOT_SIZE.maxQty
+  marketMaxQty: number; // MARKET_LOT_SIZE.maxQty
+  minNotional: number; // MIN_NOTIONAL.notional
+  maxLeverage: number | null; // 第一层分层的最大杠杆（无法获取分层时为null）
+}
+
+interface ExchangeInfoFilter {
+  filterType: string;
+  tickSize?: string;
+  stepSize?: string;
+  minQty?: string;
+  maxQty?: string;
+  notional?: string;
+}
+
+interface ExchangeInfoSymbol {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  marginAsset: string;
+  contractType: string;
+  status: string;
+  onboardDate: number;
+  pricePrecision: number;
+  quantityPrecision: number;
+  filters: ExchangeInfoFilter[];
+}
+
+/**
+ * 溢价指数（标记价格、指数价格与资金费率）
+ */
+export interface PremiumIndexData {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  lastFundingRate: number;
+  nextFundingTime: number;
+  time: number;
+}
+
+export interface FundingRateEntry {
+  fundingTime: number;
+  fundingRate: number;
+}
+
+/**
+ * K线（价格已转为数字）
+ */
+export interface Kline {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+}
+
+export const KLINE_INTERVALS = [
+  "1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "8h", "12h", "1d", "3d", "1w",
+] as const;
+export type KlineInterval = (typeof KLINE_INTERVALS)[number];
+
+/**
+ * 一组K线序列：市场（U本位/币本位）、价格类型（成交价/标记价格）、交易对和周期
+ */
+export interface KlineSeries {
+  market: "usdm" | "coinm";
+  priceType: "last" | "mark";
+  symbol: string;
+  interval: KlineInterval;
+}
+
+export interface KlineQuery {
+  symbol: string;
+  interval: KlineInterval;
+  market?: "usdm" | "coinm"; // 默认U本位
+  priceType?: "last" | "mark"; // 默认成交价K线
+  startTime?: number;
+  endTime?: number;
+  limit?: number; // 最多 MAX_KLINES，超过单次请求上限时自动分页
+}
+
+export interface KlineResult {
+  klines: Kline[];
+  complete: boolean; // false 表示分页请求中途失败，只返回了失败之前已取得的K线
+}
+
+/**
+ * 币本位（COIN-M）合约信息
+ */
+export interface CoinFuturesContract {
+  symbol: string; // 如 BTCUSD_PERP、BTCUSD_250926
+  pair: string; // 如 BTCUSD
+  contractType: string; // PERPETUAL / CURRENT_QUARTER / NEXT_QUARTER
+  contractSize: number; // 每张合约面值（USD）
+  baseAsset: string;
+  marginAsset: string;
+  deliveryDate: number;
+}
+
+// /fapi/v1/leverageBracket 的返回格式，分层字段名为 brackets
+interface LeverageBracketRaw {
+  symbol: string;
+  brackets: LeverageBracket[];
+}
+
+interface CoinLeverageBracketRaw {
+  bracket: number;
+  initialLeverage: number;
+  qtyCap: number;
+  qtyFloor: number;
+  maintMarginRatio: number;
+  cum: number;
+}
+
 // 缓存存储
 const priceCache = new Map<string, CacheEntry<PriceData>>();
 const feeCache = new Map<string, CacheEntry<FeeData>>();
 const leverageCache = new Map<string, CacheEntry<SymbolLeverageInfo>>();
+const coinContractCache = new Map<string, CacheEntry<CoinFuturesContract[]>>();
+const symbolCatalogCache = new Map<string, CacheEntry<FuturesSymbolInfo[]>>();
+const premiumIndexCache = new Map<string, CacheEntry<PremiumIndexData>>();
+const fundingHistoryCache = new Map<string, CacheEntry<FundingRateEntry[]>>();
+const fundingIntervalCache = new Map<string, CacheEntry<Record<string, number>>>();
+// 已收盘的K线不会再变化，按序列缓存（openTime -> K线），并持久化到数据库
+// 序列按最近使用排序，超出上限时淘汰最久未用的序列
+const finishedKlineCache = new Map<string, Map<number, Kline>>();
+
+// 未单独调整资金费周期的交易对默认8小时结算一次
+const DEFAULT_FUNDING_INTERVAL_HOURS = 8;
 
 /**
  * 获取币安现货价格
@@ -100,39 +239,280 @@ export async function getBinancePrice(symbol: string): Promise<number> {
 }
 
 /**
- * 获取币安交易手续费
- * 如果配置了API密钥，会获取用户特定的手续费
- * 否则返回默认的标准手续费
+ * API密钥的摘要，用于区分不同凭证的缓存，避免把一个用户的费率返回给另一个用户
+ */
+function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+}
+
+/**
+ * 获取交易对的手续费率（U本位）
+ * commissionRates 为签名接口，返回API密钥所属账户在该交易对上的实际费率，
+ * 缓存按交易对和API密钥摘要区分
+ * @param symbol - 交易对符号
  * @param clientApiKey - 客户端提供API密钥（可选）
  * @param clientApiSecret - 客户端提供API Secret（可选）
  */
 export async function getBinanceFees(
+  symbol: string,
   clientApiKey?: string,
   clientApiSecret?: string
 ): Promise<FeeData> {
-  const cacheKey = "fees";
+  // 优先使用客户端提供的API密钥，然后是会话中配置的
+  const apiKey = clientApiKey || BINANCE_API_KEY;
+  const apiSecret = clientApiSecret || BINANCE_API_SECRET;
+  if (!apiKey || !apiSecret) {
+    throw new Error("Binance API key is required to fetch commission rates");
+  }
+
+  const cacheKey = `fees:${symbol}:${hashApiKey(apiKey)}`;
   const cached = feeCache.get(cacheKey);
 
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
     return cached.data;
   }
 
+  try {
+    const timestamp = Date.now();
+    const queryString = `symbol=${symbol}&timestamp=${timestamp}`;
+    const signature = createHmac("sha256", apiSecret)
+      .update(queryString)
+      .digest("hex");
+
+    const response = await fetch(
+      `${BINANCE_API_BASE}/fapi/v1/commissionRates?${queryString}&signature=${signature}`,
+      { headers: { "X-MBX-APIKEY": apiKey } }
+    );
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const raw = (await response.json()) as {
+      symbol: string;
+      makerCommissionRate: string;
+      takerCommissionRate: string;
+    };
+    const data: FeeData = {
+      symbol: raw.symbol,
+      makerCommission: parseFloat(raw.makerCommissionRate),
+      takerCommission: parseFloat(raw.takerCommissionRate),
+    };
+
+    feeCache.set(cacheKey, {
+      data,
+      timestamp: Date.now(),
+    });
+
+    return data;
+  } catch (error) {
+    console.error(`[Binance] Failed to fetch fees for ${symbol}:`, error);
+    if (cached) {
+      return cached.data;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 发送签名的账户接口请求（USER_DATA）
+ * 账户数据属于API密钥所属的账户，只使用调用方提供的密钥，
+ * 不回退到服务端配置的密钥，避免匿名用户读取运营者的账户；未提供时直接抛出错误
+ */
+async function signedGet<T>(
+  path: string,
+  apiKey: string,
+  apiSecret: string
+): Promise<T> {
+  if (!apiKey || !apiSecret) {
+    throw new Error(`Binance API key is required for ${path}`);
+  }
+
+  const timestamp = Date.now();
+  const queryString = `timestamp=${timestamp}`;
+  const signature = createHmac("sha256", apiSecret)
+    .update(queryString)
+    .digest("hex");
+
+  const response = await fetch(
+    `${BINANCE_API_BASE}${path}?${queryString}&signature=${signature}`,
+    { headers: { "X-MBX-APIKEY": apiKey } }
+  );
+  if (!response.ok) {
+    throw new Error(`Binance API error: ${response.statusText}`);
+  }
+
+  return (await response.json()) as T;
+}
+
+interface AccountRaw {
+  feeTier: number;
+  totalCrossWalletBalance: string;
+  totalCrossUnPnl: string;
+  positions: {
+    symbol: string;
+    positionSide: string;
+    maintMargin: string;
+    unrealizedProfit: string;
+    isolated: boolean;
+  }[];
+}
+
+interface PositionRiskRaw {
+  symbol: string;
+  positionAmt: string;
+  entryPrice: string;
+  markPrice: string;
+  unRealizedProfit: string;
+  liquidationPrice: string;
+  leverage: string;
+  marginType: string;
+  isolatedMargin: string;
+  isolatedWallet: string;
+  positionSide: string;
+  notional: string;
+}
+
+/**
+ * 账户中的持仓（来自 /fapi/v2/positionRisk 与 /fapi/v2/account）
+ */
+export interface AccountPosition {
+  symbol: string;
+  positionSide: string; // BOTH（单向持仓）/ LONG / SHORT（双向持仓）
+  positionType: "long" | "short";
+  quantity: number; // 持仓数量（币，取绝对值）
+  entryPrice: number;
+  markPrice: number;
+  leverage: number;
+  marginType: "isolated" | "cross";
+  isolatedMargin: number; // 逐仓保证金（含未实现盈亏）
+  isolatedWallet: number; // 逐仓钱包余额（不含未实现盈亏）
+  notional: number; // 名义价值（取绝对值）
+  unrealizedProfit: number;
+  maintMargin: number;
+  liquidationPrice: number; // 交易所给出的强平价格
+}
+
+export interface AccountPositionsSnapshot {
+  feeTier: number;
+  crossWalletBalance: number; // 全仓钱包余额
+  crossUnrealizedPnl: number; // 全仓未实现盈亏
+  positions: AccountPosition[];
+}
+
+/**
+ * 获取账户的手续费VIP等级
+ * @param clientApiKey - 客户端提供API密钥（必填）
+ * @param clientApiSecret - 客户端提供API Secret（必填）
+ */
+export async function getAccountFeeTier(
+  clientApiKey: string,
+  clientApiSecret: string
+): Promise<number> {
+  const data = await signedGet<AccountRaw>(
+    "/fapi/v2/account",
+    clientApiKey,
+    clientApiSecret
+  );
+  return data.feeTier;
+}
+
+/**
+ * 获取账户当前持仓（仅返回持仓数量不为0的仓位）
+ * 账户数据因人而异且变化频繁，不做缓存
+ * @param clientApiKey - 客户端提供API密钥（必填）
+ * @param clientApiSecret - 客户端提供API Secret（必填）
+ */
+export async function getAccountPositions(
+  clientApiKey: string,
+  clientApiSecret: string
+): Promise<AccountPositionsSnapshot> {
+  const [account, risks] = await Promise.all([
+    signedGet<AccountRaw>("/fapi/v2/account", clientApiKey, clientApiSecret),
+    signedGet<PositionRiskRaw[]>(
+      "/fapi/v2/positionRisk",
+      clientApiKey,
+      clientApiSecret
+    ),
+  ]);
+
+  const maintMargins = new Map(
+    account.positions.map((p) => [
+      `${p.symbol}:${p.positionSide}`,
+      parseFloat(p.maintMargin),
+    ])
+  );
+
+  const positions = risks
+    .filter((p) => parseFloat(p.positionAmt) !== 0)
+    .map((p): AccountPosition => {
+      const amount = parseFloat(p.positionAmt);
+      // 双向持仓以 positionSide 区分方向，单向持仓以数量正负区分
+      const positionType =
+        p.positionSide === "SHORT" || (p.positionSide === "BOTH" && amount < 0)
+          ? "short"
+          : "long";
+      return {
+        symbol: p.symbol,
+        positionSide: p.positionSide,
+        positionType,
+        quantity: Math.abs(amount),
+        entryPrice: parseFloat(p.entryPrice),
+        markPrice: parseFloat(p.markPrice),
+        leverage: parseFloat(p.leverage),
+        marginType: p.marginType === "isolated" ? "isolated" : "cross",
+        isolatedMargin: parseFloat(p.isolatedMargin),
+        isolatedWallet: parseFloat(p.isolatedWallet),
+        notional: Math.abs(parseFloat(p.notional)),
+        unrealizedProfit: parseFloat(p.unRealizedProfit),
+        maintMargin: maintMargins.get(`${p.symbol}:${p.positionSide}`) ?? 0,
+        liquidationPrice: parseFloat(p.liquidationPrice),
+      };
+    });
+
+  return {
+    feeTier: account.feeTier,
+    crossWalletBalance: parseFloat(account.totalCrossWalletBalance),
+    crossUnrealizedPnl: parseFloat(account.totalCrossUnPnl),
+    positions,
+  };
+}
+
+/**
+ * 获取杠杆交易的维持保证金率
+ * 如果配置了API密钥，会获取用户特定的杠杆限制
+ * 否则使用公开API获取标准杠杆信息
+ * @param symbol - 交易对符号
+ * @param clientApiKey - 客户端提供API密钥（可选）
+ * @param clientApiSecret - 客户端提供API Secret（可选）
+ */
+export async function getLeverageBrackets(
+  symbol: string,
+  clientApiKey?: string,
+  clientApiSecret?: string
+): Promise<SymbolLeverageInfo> {
   // 优先使用客户端提供的API密钥，然后是会话中配置的，最后是公开API
   const apiKey = clientApiKey || BINANCE_API_KEY;
   const apiSecret = clientApiSecret || BINANCE_API_SECRET;
+  // 分层接口按账户返回，缓存按API密钥摘要区分
+  const cacheKey = `leverage:${symbol}:${apiKey && apiSecret ? hashApiKey(apiKey) : "public"}`;
+  const cached = leverageCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
 
   try {
-    let url = `${BINANCE_API_BASE}/fapi/v1/commissionRates`;
+    let url = `${BINANCE_API_BASE}/fapi/v1/leverageBracket?symbol=${symbol}`;
     const headers: Record<string, string> = {};
 
     if (apiKey && apiSecret) {
       const timestamp = Date.now();
-      const queryString = `timestamp=${timestamp}`;
+      const queryString = `symbol=${symbol}&timestamp=${timestamp}`;
       const signature = createHmac("sha256", apiSecret)
         .update(queryString)
         .digest("hex");
 
-      url += `?${queryString}&signature=${signature}`;
+      url = `${BINANCE_API_BASE}/fapi/v1/leverageBracket?${queryString}&signature=${signature}`;
       headers["X-MBX-APIKEY"] = apiKey;
     }
 
@@ -141,33 +521,188 @@ export async function getBinanceFees(
       throw new Error(`Binance API error: ${response.statusText}`);
     }
 
-    const data = (await response.json()) as FeeData;
+    const data = (await response.json()) as LeverageBracketRaw[];
+    // 按名义价值从低到高排列分层，便于按仓位名义价值查找
+    const symbolData: SymbolLeverageInfo = {
+      symbol: data[0].symbol,
+      leverageBrackets: [...data[0].brackets].sort(
+        (a, b) => a.notionalFloor - b.notionalFloor
+      ),
+    };
 
-    feeCache.set(cacheKey, {
+    leverageCache.set(cacheKey, {
+      data: symbolData,
+      timestamp: Date.now(),
+    });
+
+    return symbolData;
+  } catch (error) {
+    console.error(
+      `[Binance] Failed to fetch leverage brackets for ${symbol}:`,
+      error
+    );
+    if (cached) {
+      return cached.data;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 获取所有交易对的最大杠杆（取各交易对第一层分层的杠杆）
+ * 分层接口需要API密钥，获取失败时返回空表
+ */
+async function getMaxLeverageMap(): Promise<Record<string, number>> {
+  try {
+    let url = `${BINANCE_API_BASE}/fapi/v1/leverageBracket`;
+    const headers: Record<string, string> = {};
+
+    if (BINANCE_API_KEY && BINANCE_API_SECRET) {
+      const queryString = `timestamp=${Date.now()}`;
+      const signature = createHmac("sha256", BINANCE_API_SECRET)
+        .update(queryString)
+        .digest("hex");
+
+      url += `?${queryString}&signature=${signature}`;
+      headers["X-MBX-APIKEY"] = BINANCE_API_KEY;
+    }
+
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as LeverageBracketRaw[];
+    const result: Record<string, number> = {};
+    for (const item of data) {
+      result[item.symbol] = Math.max(
+        ...item.brackets.map((b) => b.initialLeverage)
+      );
+    }
+    return result;
+  } catch (error) {
+    console.warn("[Binance] Failed to fetch max leverage for catalogue:", error);
+    return {};
+  }
+}
+
+function parseFilterNumber(
+  filters: ExchangeInfoFilter[],
+  filterType: string,
+  field: keyof ExchangeInfoFilter
+): number {
+  const filter = filters.find((f) => f.filterType === filterType);
+  const value = filter?.[field];
+  return value ? parseFloat(value) : 0;
+}
+
+/**
+ * 获取U本位合约交易对目录（服务端缓存1小时）
+ */
+export async function getSymbolCatalog(): Promise<FuturesSymbolInfo[]> {
+  const cacheKey = "catalog";
+  const cached = symbolCatalogCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < SYMBOL_CACHE_DURATION) {
+    return cached.data;
+  }
+
+  try {
+    const response = await fetch(`${BINANCE_API_BASE}/fapi/v1/exchangeInfo`);
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { symbols: ExchangeInfoSymbol[] };
+    const maxLeverage = await getMaxLeverageMap();
+    const catalog = data.symbols.map((s) => ({
+      symbol: s.symbol,
+      baseAsset: s.baseAsset,
+      quoteAsset: s.quoteAsset,
+      marginAsset: s.marginAsset,
+      contractType: s.contractType,
+      status: s.status,
+      onboardDate: s.onboardDate,
+      pricePrecision: s.pricePrecision,
+      quantityPrecision: s.quantityPrecision,
+      tickSize: parseFilterNumber(s.filters, "PRICE_FILTER", "tickSize"),
+      stepSize: parseFilterNumber(s.filters, "LOT_SIZE", "stepSize"),
+      minQty: parseFilterNumber(s.filters, "LOT_SIZE", "minQty"),
+      maxQty: parseFilterNumber(s.filters, "LOT_SIZE", "maxQty"),
+      marketMaxQty: parseFilterNumber(s.filters, "MARKET_LOT_SIZE", "maxQty"),
+      minNotional: parseFilterNumber(s.filters, "MIN_NOTIONAL", "notional"),
+      maxLeverage: maxLeverage[s.symbol] ?? null,
+    }));
+
+    symbolCatalogCache.set(cacheKey, {
+      data: catalog,
+      timestamp: Date.now(),
+    });
+
+    return catalog;
+  } catch (error) {
+    console.error("[Binance] Failed to fetch exchange info:", error);
+    if (cached) {
+      return cached.data;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 获取单个交易对的信息
+ */
+export async function getSymbolInfo(
+  symbol: string
+): Promise<FuturesSymbolInfo | undefined> {
+  const catalog = await getSymbolCatalog();
+  return catalog.find((s) => s.symbol === symbol);
+}
+
+/**
+ * 获取溢价指数：标记价格、指数价格、最近资金费率和下次结算时间
+ */
+export async function getPremiumIndex(symbol: string): Promise<PremiumIndexData> {
+  const cacheKey = `premium:${symbol}`;
+  const cached = premiumIndexCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+
+  try {
+    const response = await fetch(
+      `${BINANCE_API_BASE}/fapi/v1/premiumIndex?symbol=${symbol}`
+    );
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const raw = (await response.json()) as {
+      symbol: string;
+      markPrice: string;
+      indexPrice: string;
+      lastFundingRate: string;
+      nextFundingTime: number;
+      time: number;
+    };
+    const data: PremiumIndexData = {
+      symbol: raw.symbol,
+      markPrice: parseFloat(raw.markPrice),
+      indexPrice: parseFloat(raw.indexPrice),
+      lastFundingRate: parseFloat(raw.lastFundingRate),
+      nextFundingTime: raw.nextFundingTime,
+      time: raw.time,
+    };
+
+    premiumIndexCache.set(cacheKey, {
       data,
       timestamp: Date.now(),
     });
 
     return data;
   } catch (error) {
-    console.error("[Binance] Failed to fetch fees:", error);
-    // 如果有API密钥但请求失败，返回默认值
-    if (apiKey && apiSecret) {
-      const defaultFees: FeeData = {
-        makerCommission: 0.0002,
-        takerCommission: 0.0004,
-        buyerCommission: 0,
-        sellerCommission: 0,
-        canTrade: true,
-        canDeposit: true,
-        canWithdraw: true,
-        brokered: false,
-        requiredSelfTradePreventionMode: "NONE",
-        preventSor: false,
-        updateTime: Date.now(),
-      };
-      return defaultFees;
-    }
+    console.error(`[Binance] Failed to fetch premium index for ${symbol}:`, error);
     if (cached) {
       return cached.data;
     }
@@ -175,32 +710,461 @@ export async function getBinanceFees(
   }
 }
 
+export const MAX_FUNDING_HISTORY = 10000;
+const FUNDING_PAGE_LIMIT = 1000; // 币安单次请求上限
+
 /**
- * 获取杠杆交易的维持保证金率
- * 如果配置了API密钥，会获取用户特定的杠杆限制
- * 否则使用公开API获取标准杠杆信息
+ * 获取历史资金费率（按时间升序）
+ * 指定 startTime 时从其后按每页1000条分页请求，直到 endTime 或取满 limit 条；
+ * 任何一页失败都抛出错误，不返回缺少部分结算的记录。
  * @param symbol - 交易对符号
+ * @param limit - 结算次数（最多 MAX_FUNDING_HISTORY），未指定 startTime 时为最近的结算（最多1000）
+ * @param startTime - 起始时间（可选，用于回测）
+ * @param endTime - 结束时间（可选）
+ */
+export async function getFundingRateHistory(
+  symbol: string,
+  limit: number = 90,
+  startTime?: number,
+  endTime?: number
+): Promise<FundingRateEntry[]> {
+  const total = Math.min(limit, startTime !== undefined ? MAX_FUNDING_HISTORY : FUNDING_PAGE_LIMIT);
+  const cacheKey = `funding:${symbol}:${total}:${startTime ?? ""}:${endTime ?? ""}`;
+  const cached = fundingHistoryCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+
+  try {
+    const data: FundingRateEntry[] = [];
+    let cursor = startTime;
+    while (data.length < total) {
+      const pageLimit = Math.min(total - data.length, FUNDING_PAGE_LIMIT);
+      const page = await fetchFundingPage(symbol, pageLimit, cursor, endTime);
+      data.push(...page);
+      // 未指定 startTime 时只能取最近的一页
+      if (cursor === undefined || page.length < pageLimit) {
+        break;
+      }
+      cursor = page[page.length - 1].fundingTime + 1;
+    }
+    data.sort((a, b) => a.fundingTime - b.fundingTime);
+
+    fundingHistoryCache.set(cacheKey, {
+      data,
+      timestamp: Date.now(),
+    });
+
+    return data;
+  } catch (error) {
+    console.error(`[Binance] Failed to fetch funding history for ${symbol}:`, error);
+    if (cached) {
+      return cached.data;
+    }
+    throw error;
+  }
+}
+
+async function fetchFundingPage(
+  symbol: string,
+  limit: number,
+  startTime?: number,
+  endTime?: number
+): Promise<FundingRateEntry[]> {
+  const response = await fetch(
+    `${BINANCE_API_BASE}/fapi/v1/fundingRate?symbol=${symbol}&limit=${limit}` +
+      (startTime !== undefined ? `&startTime=${startTime}` : "") +
+      (endTime !== undefined ? `&endTime=${endTime}` : "")
+  );
+  if (!response.ok) {
+    throw new Error(`Binance API error: ${response.statusText}`);
+  }
+
+  const raw = (await response.json()) as {
+    symbol: string;
+    fundingTime: number;
+    fundingRate: string;
+  }[];
+  return raw
+    .map((entry) => ({
+      fundingTime: entry.fundingTime,
+      fundingRate: parseFloat(entry.fundingRate),
+    }))
+    .sort((a, b) => a.fundingTime - b.fundingTime);
+}
+
+/**
+ * 获取交易对的资金费结算周期（小时）
+ * /fapi/v1/fundingInfo 只列出调整过周期的交易对，其余为8小时
+ */
+export async function getFundingIntervalHours(symbol: string): Promise<number> {
+  const cacheKey = "fundingInfo";
+  const cached = fundingIntervalCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data[symbol] ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+  }
+
+  try {
+    const response = await fetch(`${BINANCE_API_BASE}/fapi/v1/fundingInfo`);
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const raw = (await response.json()) as {
+      symbol: string;
+      fundingIntervalHours: number;
+    }[];
+    const data: Record<string, number> = {};
+    for (const entry of raw) {
+      data[entry.symbol] = entry.fundingIntervalHours;
+    }
+
+    fundingIntervalCache.set(cacheKey, {
+      data,
+      timestamp: Date.now(),
+    });
+
+    return data[symbol] ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+  } catch (error) {
+    console.error("[Binance] Failed to fetch funding info:", error);
+    if (cached) {
+      return cached.data[symbol] ?? DEFAULT_FUNDING_INTERVAL_HOURS;
+    }
+    return DEFAULT_FUNDING_INTERVAL_HOURS;
+  }
+}
+
+const DEFAULT_KLINES = 500;
+export const MAX_KLINES = 10000;
+const KLINE_PAGE_LIMIT = 1500; // 币安单次请求上限
+const MAX_CACHED_KLINES_PER_SERIES = 50000;
+const MAX_CACHED_KLINE_SERIES = 50;
+const MAX_CACHED_KLINES = 500000; // 所有序列合计
+
+const KLINE_INTERVAL_MS: Record<KlineInterval, number> = {
+  "1m": 60_000,
+  "3m": 3 * 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "30m": 30 * 60_000,
+  "1h": 3_600_000,
+  "2h": 2 * 3_600_000,
+  "4h": 4 * 3_600_000,
+  "6h": 6 * 3_600_000,
+  "8h": 8 * 3_600_000,
+  "12h": 12 * 3_600_000,
+  "1d": 86_400_000,
+  "3d": 3 * 86_400_000,
+  "1w": 7 * 86_400_000,
+};
+
+/**
+ * 获取K线（按时间升序）
+ * 指定 startTime 时返回其后的 limit 根，否则返回 endTime（默认当前）之前的最近 limit 根；
+ * 同时指定 startTime 和 endTime 且未指定 limit 时返回区间内全部K线（最多 MAX_KLINES）。
+ * 已收盘的K线优先从内存和数据库缓存读取，缺失部分按每页1500根分页请求。
+ * 取得部分K线后请求失败时返回已取得的部分并标记为不完整，一根都没有取得时抛出错误。
+ */
+export async function getKlines(query: KlineQuery): Promise<KlineResult> {
+  const series: KlineSeries = {
+    market: query.market ?? "usdm",
+    priceType: query.priceType ?? "last",
+    symbol: query.symbol,
+    interval: query.interval,
+  };
+  const intervalMs = KLINE_INTERVAL_MS[series.interval];
+  const now = Date.now();
+  const limit = Math.min(
+    query.limit ??
+      (query.startTime !== undefined && query.endTime !== undefined
+        ? MAX_KLINES
+        : DEFAULT_KLINES),
+    MAX_KLINES
+  );
+  const end = Math.min(query.endTime ?? now, now);
+  const start = query.startTime ?? end - limit * intervalMs;
+
+  const cache = getFinishedKlineCache(series);
+  const result: Kline[] = [];
+  let cursor = start;
+  let storeChecked = false;
+  let complete = true;
+
+  try {
+    while (cursor <= end && result.length < limit) {
+      // 先取缓存中从 cursor 开始连续的已收盘K线
+      const cached = takeContiguous(cache, cursor, end, intervalMs);
+      if (cached.length === 0 && !storeChecked) {
+        storeChecked = true;
+        await loadStoredKlines(series, cache, cursor, end);
+        continue;
+      }
+      if (cached.length > 0) {
+        result.push(...cached);
+        cursor = cached[cached.length - 1].openTime + intervalMs;
+        continue;
+      }
+
+      const page = await fetchKlinePage(series, cursor, end);
+      const finished = page.filter((k) => k.closeTime < now);
+      finished.forEach((k) => cache.set(k.openTime, k));
+      saveFinishedKlines(series, finished);
+      result.push(...page);
+      if (page.length < KLINE_PAGE_LIMIT) {
+        break;
+      }
+      cursor = page[page.length - 1].openTime + intervalMs;
+    }
+  } catch (error) {
+    console.error(`[Binance] Failed to fetch klines for ${series.symbol}:`, error);
+    if (result.length === 0) {
+      throw error;
+    }
+    // 已取得的部分（缓存中的已收盘K线）仍然返回，由调用方决定是否使用
+    complete = false;
+  }
+
+  trimFinishedKlineCache(cache);
+  evictKlineSeries();
+  return {
+    klines: query.startTime !== undefined ? result.slice(0, limit) : result.slice(-limit),
+    complete,
+  };
+}
+
+function klineSeriesKey(series: KlineSeries): string {
+  return `${series.market}:${series.priceType}:${series.symbol}:${series.interval}`;
+}
+
+function getFinishedKlineCache(series: KlineSeries): Map<number, Kline> {
+  const key = klineSeriesKey(series);
+  const cache = finishedKlineCache.get(key) ?? new Map<number, Kline>();
+  // 重新插入，使其排在最近使用的位置
+  finishedKlineCache.delete(key);
+  finishedKlineCache.set(key, cache);
+  return cache;
+}
+
+/**
+ * 从缓存中取出开盘时间不早于 from 的连续K线（周线开盘时间不在整周期上，按已有K线推算对齐）
+ */
+function takeContiguous(
+  cache: Map<number, Kline>,
+  from: number,
+  to: number,
+  intervalMs: number
+): Kline[] {
+  const sample = cache.keys().next();
+  if (sample.done) return [];
+  const offset = ((sample.value % intervalMs) + intervalMs) % intervalMs;
+  let openTime = Math.ceil((from - offset) / intervalMs) * intervalMs + offset;
+  const run: Kline[] = [];
+  let kline = cache.get(openTime);
+  while (kline && openTime <= to) {
+    run.push(kline);
+    openTime += intervalMs;
+    kline = cache.get(openTime);
+  }
+  return run;
+}
+
+function trimFinishedKlineCache(cache: Map<number, Kline>): void {
+  if (cache.size <= MAX_CACHED_KLINES_PER_SERIES) return;
+  const oldest = Array.from(cache.keys())
+    .sort((a, b) => a - b)
+    .slice(0, cache.size - MAX_CACHED_KLINES_PER_SERIES);
+  oldest.forEach((openTime) => cache.delete(openTime));
+}
+
+/**
+ * 序列数量或K线总数超出上限时，从最久未用的序列开始淘汰
+ */
+function evictKlineSeries(): void {
+  let total = 0;
+  finishedKlineCache.forEach((cache) => (total += cache.size));
+  for (const [key, cache] of Array.from(finishedKlineCache)) {
+    if (finishedKlineCache.size <= MAX_CACHED_KLINE_SERIES && total <= MAX_CACHED_KLINES) break;
+    finishedKlineCache.delete(key);
+    total -= cache.size;
+  }
+}
+
+// 数据库不可用或读写失败时只使用内存缓存
+async function loadStoredKlines(
+  series: KlineSeries,
+  cache: Map<number, Kline>,
+  from: number,
+  to: number
+): Promise<void> {
+  try {
+    const stored = await getStoredKlines(series, from, to);
+    stored.forEach((k) => cache.set(k.openTime, k));
+  } catch (error) {
+    console.warn(`[Binance] Failed to load stored klines for ${series.symbol}:`, error);
+  }
+}
+
+function saveFinishedKlines(series: KlineSeries, klines: Kline[]): void {
+  storeKlines(series, klines).catch((error) =>
+    console.warn(`[Binance] Failed to store klines for ${series.symbol}:`, error)
+  );
+}
+
+async function fetchKlinePage(
+  series: KlineSeries,
+  startTime: number,
+  endTime: number
+): Promise<Kline[]> {
+  const path = series.priceType === "mark" ? "markPriceKlines" : "klines";
+  const url =
+    series.market === "coinm"
+      ? `${BINANCE_DAPI_BASE}/dapi/v1/${path}`
+      : `${BINANCE_API_BASE}/fapi/v1/${path}`;
+  const response = await fetch(
+    `${url}?symbol=${series.symbol}&interval=${series.interval}` +
+      `&startTime=${startTime}&endTime=${endTime}&limit=${KLINE_PAGE_LIMIT}`
+  );
+  if (!response.ok) {
+    throw new Error(`Binance API error: ${response.statusText}`);
+  }
+
+  // 每根K线为数组：[开盘时间, 开, 高, 低, 收, 成交量, 收盘时间, ...]
+  const raw = (await response.json()) as (string | number)[][];
+  return raw.map(parseKline);
+}
+
+function parseKline(row: (string | number)[]): Kline {
+  return {
+    openTime: Number(row[0]),
+    open: parseFloat(String(row[1])),
+    high: parseFloat(String(row[2])),
+    low: parseFloat(String(row[3])),
+    close: parseFloat(String(row[4])),
+    volume: parseFloat(String(row[5])),
+    closeTime: Number(row[6]),
+  };
+}
+
+/**
+ * 获取币本位合约价格
+ */
+export async function getCoinFuturesPrice(symbol: string): Promise<number> {
+  const cacheKey = `coinPrice:${symbol}`;
+  const cached = priceCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data.price;
+  }
+
+  try {
+    const response = await fetch(
+      `${BINANCE_DAPI_BASE}/dapi/v1/ticker/price?symbol=${symbol}`
+    );
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    // dapi 即使指定 symbol 也返回数组
+    const data = (await response.json()) as {
+      symbol: string;
+      ps: string;
+      price: string;
+    }[];
+    const ticker = data.find((t) => t.symbol === symbol);
+    if (!ticker) {
+      throw new Error(`Binance API error: no ticker for ${symbol}`);
+    }
+    const price = parseFloat(ticker.price);
+
+    priceCache.set(cacheKey, {
+      data: { symbol, price, timestamp: Date.now() },
+      timestamp: Date.now(),
+    });
+
+    return price;
+  } catch (error) {
+    console.error(`[Binance] Failed to fetch coin-M price for ${symbol}:`, error);
+    if (cached) {
+      return cached.data.price;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 获取币本位合约列表（永续和交割合约）
+ */
+export async function getCoinFuturesContracts(): Promise<CoinFuturesContract[]> {
+  const cacheKey = "coinContracts";
+  const cached = coinContractCache.get(cacheKey);
+
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+
+  try {
+    const response = await fetch(`${BINANCE_DAPI_BASE}/dapi/v1/exchangeInfo`);
+    if (!response.ok) {
+      throw new Error(`Binance API error: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      symbols: (CoinFuturesContract & { contractStatus: string })[];
+    };
+    const contracts = data.symbols
+      .filter((s) => s.contractStatus === "TRADING")
+      .map((s) => ({
+        symbol: s.symbol,
+        pair: s.pair,
+        contractType: s.contractType,
+        contractSize: s.contractSize,
+        baseAsset: s.baseAsset,
+        marginAsset: s.marginAsset,
+        deliveryDate: s.deliveryDate,
+      }));
+
+    coinContractCache.set(cacheKey, {
+      data: contracts,
+      timestamp: Date.now(),
+    });
+
+    return contracts;
+  } catch (error) {
+    console.error("[Binance] Failed to fetch coin-M contracts:", error);
+    if (cached) {
+      return cached.data;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 获取币本位合约的杠杆分层
+ * 币本位分层按币数量（qtyFloor/qtyCap）划分，这里映射到
+ * notionalFloor/notionalCap 以便与U本位共用计算逻辑
+ * @param symbol - 合约符号（如 BTCUSD_PERP）
  * @param clientApiKey - 客户端提供API密钥（可选）
  * @param clientApiSecret - 客户端提供API Secret（可选）
  */
-export async function getLeverageBrackets(
+export async function getCoinLeverageBrackets(
   symbol: string,
   clientApiKey?: string,
   clientApiSecret?: string
 ): Promise<SymbolLeverageInfo> {
-  const cacheKey = `leverage:${symbol}`;
+  const apiKey = clientApiKey || BINANCE_API_KEY;
+  const apiSecret = clientApiSecret || BINANCE_API_SECRET;
+  // 分层接口按账户返回，缓存按API密钥摘要区分
+  const cacheKey = `coinLeverage:${symbol}:${apiKey && apiSecret ? hashApiKey(apiKey) : "public"}`;
   const cached = leverageCache.get(cacheKey);
 
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
     return cached.data;
   }
 
-  // 优先使用客户端提供的API密钥，然后是会话中配置的，最后是公开API
-  const apiKey = clientApiKey || BINANCE_API_KEY;
-  const apiSecret = clientApiSecret || BINANCE_API_SECRET;
-
   try {
-    let url = `${BINANCE_API_BASE}/fapi/v1/leverageBracket?symbol=${symbol}`;
+    let url = `${BINANCE_DAPI_BASE}/dapi/v2/leverageBracket?symbol=${symbol}`;
     const headers: Record<string, string> = {};
 
     if (apiKey && apiSecret) {
@@ -210,7 +1174,7 @@ export async function getLeverageBrackets(
         .update(queryString)
         .digest("hex");
 
-      url = `${BINANCE_API_BASE}/fapi/v1/leverageBracket?${queryString}&signature=${signature}`;
+      url = `${BINANCE_DAPI_BASE}/dapi/v2/leverageBracket?${queryString}&signature=${signature}`;
       headers["X-MBX-APIKEY"] = apiKey;
     }
 
@@ -219,8 +1183,23 @@ export async function getLeverageBrackets(
       throw new Error(`Binance API error: ${response.statusText}`);
     }
 
-    const data = (await response.json()) as SymbolLeverageInfo[];
-    const symbolData = data[0];
+    const data = (await response.json()) as {
+      symbol: string;
+      brackets: CoinLeverageBracketRaw[];
+    }[];
+    const symbolData: SymbolLeverageInfo = {
+      symbol: data[0].symbol,
+      leverageBrackets: data[0].brackets
+        .map((b) => ({
+          bracket: b.bracket,
+          initialLeverage: b.initialLeverage,
+          notionalCap: b.qtyCap,
+          notionalFloor: b.qtyFloor,
+          maintMarginRatio: b.maintMarginRatio,
+          cum: b.cum,
+        }))
+        .sort((a, b) => a.notionalFloor - b.notionalFloor),
+    };
 
     leverageCache.set(cacheKey, {
       data: symbolData,
@@ -230,7 +1209,7 @@ export async function getLeverageBrackets(
     return symbolData;
   } catch (error) {
     console.error(
-      `[Binance] Failed to fetch leverage brackets for ${symbol}:`,
+      `[Binance] Failed to fetch coin-M leverage brackets for ${symbol}:`,
       error
     );
     if (cached) {
@@ -241,7 +1220,7 @@ export async function getLeverageBrackets(
 }
 
 /**
- * 获取主流币种列表
+ * 获取主流币种列表（交易对目录不可用时的后备列表，也是默认收藏）
  */
 export function getMainSymbols(): string[] {
   return [
@@ -252,7 +1231,7 @@ export function getMainSymbols(): string[] {
     "ADAUSDT",
     "DOGEUSDT",
     "SOLUSDT",
-    "POLKAUSDT",
+    "DOTUSDT",
     "LTCUSDT",
     "LINKUSDT",
   ];
@@ -261,7 +1240,10 @@ export function getMainSymbols(): string[] {
 /**
  * 获取符号的显示名称
  */
-export function getSymbolDisplayName(symbol: string): string {
+export function getSymbolDisplayName(
+  symbol: string,
+  info?: FuturesSymbolInfo
+): string {
   const names: Record<string, string> = {
     BTCUSDT: "Bitcoin (BTC)",
     ETHUSDT: "Ethereum (ETH)",
@@ -270,11 +1252,18 @@ export function getSymbolDisplayName(symbol: string): string {
     ADAUSDT: "Cardano (ADA)",
     DOGEUSDT: "Dogecoin (DOGE)",
     SOLUSDT: "Solana (SOL)",
-    POLKAUSDT: "Polkadot (DOT)",
+    DOTUSDT: "Polkadot (DOT)",
     LTCUSDT: "Litecoin (LTC)",
     LINKUSDT: "Chainlink (LINK)",
   };
-  return names[symbol] || symbol;
+  if (names[symbol]) {
+    return names[symbol];
+  }
+  if (info) {
+    const suffix = info.contractType === "PERPETUAL" ? "永续" : "交割";
+    return `${info.baseAsset}/${info.quoteAsset} ${suffix}`;
+  }
+  return symbol;
 }
 
 /**
@@ -284,6 +1273,12 @@ export function clearCache(): void {
   priceCache.clear();
   feeCache.clear();
   leverageCache.clear();
+  coinContractCache.clear();
+  symbolCatalogCache.clear();
+  premiumIndexCache.clear();
+  fundingHistoryCache.clear();
+  fundingIntervalCache.clear();
+  finishedKlineCache.clear();
 }
 
 /**
@@ -302,6 +1297,7 @@ export function getBinanceApiStatus() {
     hasApiKey: !!BINANCE_API_KEY,
     hasApiSecret: !!BINANCE_API_SECRET,
     baseUrl: BINANCE_API_BASE,
+    coinBaseUrl: BINANCE_DAPI_BASE,
   };
 }
 
@@ -0,0 +1,119 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockBinanceServer, startMockBinance } from "./mockBinance";
+import type { LivePrice, PriceStream } from "./binanceStream";
+
+let mock: MockBinanceServer;
+let binanceStream: typeof import("./binanceStream");
+
+beforeAll(async () => {
+  mock = await startMockBinance();
+  // binanceStream.ts 在加载时读取环境变量，需先指向模拟服务再导入
+  vi.stubEnv("BINANCE_WS_BASE", mock.url.replace(/^http/, "ws"));
+  vi.stubEnv("BINANCE_WS_MAX_STREAMS", "2");
+  binanceStream = await import("./binanceStream");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.reset();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  binanceStream.closeAllPriceStreams();
+  vi.restoreAllMocks();
+});
+
+const streamRequests = () => mock.requests.filter((r) => r.path === "/stream");
+
+/**
+ * 等待满足条件的下一次推送
+ */
+function nextUpdate(
+  stream: PriceStream,
+  predicate: (price: LivePrice) => boolean = () => true
+): Promise<LivePrice> {
+  return new Promise((resolve) => {
+    const listener = (price: LivePrice) => {
+      if (!predicate(price)) return;
+      stream.off("update", listener);
+      resolve(price);
+    };
+    stream.on("update", listener);
+  });
+}
+
+describe("acquirePriceStream", () => {
+  it("shares one upstream connection between subscribers of a symbol", async () => {
+    const first = binanceStream.acquirePriceStream("BTCUSDT");
+    const second = binanceStream.acquirePriceStream("BTCUSDT");
+    expect(second).toBe(first);
+
+    const price = await nextUpdate(
+      first,
+      (p) => p.markPrice !== null && p.bidPrice !== null
+    );
+    expect(price).toMatchObject({
+      symbol: "BTCUSDT",
+      markPrice: 60010,
+      indexPrice: 60000,
+      bidPrice: 60000,
+      askPrice: 60000.1,
+    });
+    expect(first.latest).toEqual(price);
+    expect(streamRequests()).toHaveLength(1);
+    expect(streamRequests()[0].query.streams).toBe(
+      "btcusdt@markPrice@1s/btcusdt@bookTicker"
+    );
+    expect(binanceStream.activePriceStreamCount()).toBe(1);
+  });
+
+  it("opens a separate connection per symbol", async () => {
+    const btc = binanceStream.acquirePriceStream("BTCUSDT");
+    const eth = binanceStream.acquirePriceStream("ETHUSDT");
+    expect(eth).not.toBe(btc);
+    expect((await nextUpdate(eth)).symbol).toBe("ETHUSDT");
+    expect(binanceStream.activePriceStreamCount()).toBe(2);
+  });
+
+  it("limits the number of upstream connections", () => {
+    const btc = binanceStream.acquirePriceStream("BTCUSDT");
+    binanceStream.acquirePriceStream("ETHUSDT");
+    expect(() => binanceStream.acquirePriceStream("BNBUSDT")).toThrow(
+      "Too many concurrent price streams"
+    );
+
+    // 没有订阅者的连接在达到上限时被回收
+    btc.release();
+    const bnb = binanceStream.acquirePriceStream("BNBUSDT");
+    expect(bnb.symbol).toBe("BNBUSDT");
+    expect(binanceStream.activePriceStreamCount()).toBe(2);
+  });
+
+  it("reconnects after the upstream connection drops", async () => {
+    const stream = binanceStream.acquirePriceStream("BTCUSDT");
+    await nextUpdate(stream, (p) => p.markPrice === 60010);
+
+    mock.state.markPrices.BTCUSDT = 61000;
+    mock.dropStreams();
+    const price = await nextUpdate(stream, (p) => p.markPrice === 61000);
+
+    expect(price.markPrice).toBe(61000);
+    expect(streamRequests()).toHaveLength(2);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
+
+describe("reconnectDelay", () => {
+  it("backs off exponentially and caps at 30 seconds", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    expect(binanceStream.reconnectDelay(0)).toBe(1000);
+    expect(binanceStream.reconnectDelay(3)).toBe(8000);
+    expect(binanceStream.reconnectDelay(10)).toBe(30000);
+  });
+});
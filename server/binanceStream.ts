@@ -0,0 +1,270 @@
+/**
+ * 币安实时行情订阅（WebSocket 组合流 markPrice@1s 与 bookTicker）
+ *
+ * 每个交易对只维持一条上游连接，由所有订阅该交易对的客户端共享；
+ * 最后一个订阅者退出后延迟关闭。连接断开或长时间收不到消息时按指数退避重连。
+ * 上游连接总数有上限，达到上限时先关闭没有订阅者的连接，仍不足则拒绝新的交易对。
+ *
+ * 环境变量：BINANCE_WS_BASE（默认为 wss://fstream.binance.com）、
+ * BINANCE_DWS_BASE（币本位，默认为 wss://dstream.binance.com）、
+ * BINANCE_WS_MAX_STREAMS（上游连接数上限，默认为50）
+ */
+
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+
+const BINANCE_WS_BASE = process.env.BINANCE_WS_BASE || "wss://fstream.binance.com";
+const BINANCE_DWS_BASE = process.env.BINANCE_DWS_BASE || "wss://dstream.binance.com";
+const MAX_STREAMS = parseInt(process.env.BINANCE_WS_MAX_STREAMS ?? "") || 50;
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30 * 1000;
+const STALE_TIMEOUT = 30 * 1000; // 超过30秒没有消息视为连接失效
+const IDLE_CLOSE_DELAY = 10 * 1000; // 无订阅者后保留连接10秒，切换交易对时不必重连
+const EMIT_INTERVAL = 250; // bookTicker 更新频繁，每个交易对最多每250毫秒推送一次
+
+export type StreamMarket = "usdm" | "coinm";
+
+export interface LivePrice {
+  symbol: string;
+  markPrice: number | null;
+  indexPrice: number | null;
+  fundingRate: number | null;
+  nextFundingTime: number | null;
+  bidPrice: number | null;
+  askPrice: number | null;
+  eventTime: number; // 最近一条消息的交易所事件时间
+}
+
+interface MarkPriceEvent {
+  e: "markPriceUpdate";
+  E: number;
+  s: string;
+  p: string; // 标记价格
+  i: string; // 指数价格
+  r: string; // 资金费率
+  T: number; // 下次资金费时间
+}
+
+interface BookTickerEvent {
+  e: "bookTicker";
+  E: number;
+  s: string;
+  b: string; // 买一价
+  a: string; // 卖一价
+}
+
+/**
+ * 第 attempt 次重连前的等待时间：指数增长并叠加 ±20% 抖动，避免同时重连
+ */
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * 单个交易对的上游连接，更新通过 "update" 事件分发
+ */
+export class PriceStream extends EventEmitter {
+  private state: LivePrice;
+  private socket: WebSocket | null = null;
+  private subscribers = 0;
+  private attempts = 0;
+  private stopped = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private staleTimer: NodeJS.Timeout | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+  private emitTimer: NodeJS.Timeout | null = null;
+  private lastEmit = 0;
+
+  constructor(
+    readonly market: StreamMarket,
+    readonly symbol: string,
+    private onStop: () => void
+  ) {
+    super();
+    this.setMaxListeners(0);
+    this.state = {
+      symbol,
+      markPrice: null,
+      indexPrice: null,
+      fundingRate: null,
+      nextFundingTime: null,
+      bidPrice: null,
+      askPrice: null,
+      eventTime: 0,
+    };
+  }
+
+  /**
+   * 最新行情，尚未收到任何消息时为 null
+   */
+  get latest(): LivePrice | null {
+    return this.state.eventTime > 0 ? { ...this.state } : null;
+  }
+
+  /**
+   * 没有订阅者、等待延迟关闭
+   */
+  get idle(): boolean {
+    return this.subscribers === 0;
+  }
+
+  acquire(): void {
+    this.subscribers++;
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (!this.socket && !this.reconnectTimer) {
+      this.connect();
+    }
+  }
+
+  release(): void {
+    this.subscribers = Math.max(0, this.subscribers - 1);
+    if (this.subscribers === 0 && !this.idleTimer) {
+      this.idleTimer = setTimeout(() => this.stop(), IDLE_CLOSE_DELAY);
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const timer of [this.reconnectTimer, this.staleTimer, this.idleTimer, this.emitTimer]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.reconnectTimer = this.staleTimer = this.idleTimer = this.emitTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.removeAllListeners();
+    this.onStop();
+  }
+
+  private connect(): void {
+    const base = this.market === "coinm" ? BINANCE_DWS_BASE : BINANCE_WS_BASE;
+    const name = this.symbol.toLowerCase();
+    const socket = new WebSocket(
+      `${base}/stream?streams=${name}@markPrice@1s/${name}@bookTicker`
+    );
+    this.socket = socket;
+
+    socket.on("open", () => this.resetStaleTimer(socket));
+    socket.on("message", (raw) => {
+      this.resetStaleTimer(socket);
+      this.handleMessage(raw.toString());
+    });
+    socket.on("error", (error) => {
+      console.error(`[Binance WS] ${this.symbol} connection error:`, error.message);
+    });
+    // 连接失败时 error 之后也会触发 close，统一在这里重连
+    socket.on("close", () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.staleTimer) {
+        clearTimeout(this.staleTimer);
+        this.staleTimer = null;
+      }
+      if (!this.stopped) {
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = reconnectDelay(this.attempts++);
+    console.warn(
+      `[Binance WS] ${this.symbol} disconnected, reconnecting in ${delay}ms`
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private resetStaleTimer(socket: WebSocket): void {
+    if (this.staleTimer) clearTimeout(this.staleTimer);
+    this.staleTimer = setTimeout(() => socket.terminate(), STALE_TIMEOUT);
+  }
+
+  private handleMessage(raw: string): void {
+    let event: MarkPriceEvent | BookTickerEvent;
+    try {
+      // 组合流的消息格式为 { stream, data }
+      const message = JSON.parse(raw);
+      event = message.data ?? message;
+    } catch {
+      return;
+    }
+
+    if (event.e === "markPriceUpdate") {
+      this.state.markPrice = parseFloat(event.p);
+      this.state.indexPrice = parseFloat(event.i);
+      // 交割合约的资金费率字段为空字符串
+      this.state.fundingRate = event.r ? parseFloat(event.r) : null;
+      this.state.nextFundingTime = event.T || null;
+    } else if (event.e === "bookTicker") {
+      this.state.bidPrice = parseFloat(event.b);
+      this.state.askPrice = parseFloat(event.a);
+    } else {
+      return;
+    }
+    // 收到数据说明连接可用，重置退避次数
+    this.attempts = 0;
+    this.state.eventTime = event.E;
+    this.scheduleEmit();
+  }
+
+  private scheduleEmit(): void {
+    if (this.emitTimer) return;
+    const wait = Math.max(0, this.lastEmit + EMIT_INTERVAL - Date.now());
+    this.emitTimer = setTimeout(() => {
+      this.emitTimer = null;
+      this.lastEmit = Date.now();
+      this.emit("update", this.latest);
+    }, wait);
+  }
+}
+
+const streams = new Map<string, PriceStream>();
+
+/**
+ * 订阅交易对行情，同一交易对共享一条上游连接；使用完毕后需调用 release()
+ * 上游连接数达到上限且没有可回收的空闲连接时抛出错误
+ */
+export function acquirePriceStream(
+  symbol: string,
+  market: StreamMarket = "usdm"
+): PriceStream {
+  const key = `${market}:${symbol}`;
+  let stream = streams.get(key);
+  if (!stream) {
+    if (streams.size >= MAX_STREAMS) {
+      Array.from(streams.values())
+        .find((s) => s.idle)
+        ?.stop();
+    }
+    if (streams.size >= MAX_STREAMS) {
+      throw new Error(`Too many concurrent price streams (max ${MAX_STREAMS})`);
+    }
+    stream = new PriceStream(market, symbol, () => streams.delete(key));
+    streams.set(key, stream);
+  }
+  stream.acquire();
+  return stream;
+}
+
+/**
+ * 当前保持的上游连接数
+ */
+export function activePriceStreamCount(): number {
+  return streams.size;
+}
+
+/**
+ * 关闭所有上游连接（测试和进程退出时使用）
+ */
+export function closeAllPriceStreams(): void {
+  for (const stream of Array.from(streams.values())) {
+    stream.stop();
+  }
+}
@@ -1,7 +1,16 @@
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, gte, lte, sql } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
-import { InsertUser, users } from "../drizzle/schema";
+import {
+  calculations,
+  InsertCalculation,
+  InsertShareLink,
+  InsertUser,
+  klines,
+  shareLinks,
+  users,
+} from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { Kline, KlineSeries } from "./binance";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -90,3 +99,136 @@ export async function getUserByOpenId(openId: string) {
 }
 
 // TODO: add feature queries here as your schema grows.
+
+async function requireDb() {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  return db;
+}
+
+export async function listCalculations(userId: number) {
+  const db = await requireDb();
+  return db
+    .select()
+    .from(calculations)
+    .where(eq(calculations.userId, userId))
+    .orderBy(desc(calculations.updatedAt), desc(calculations.id));
+}
+
+export async function getCalculation(userId: number, id: number) {
+  const db = await requireDb();
+  const result = await db
+    .select()
+    .from(calculations)
+    .where(and(eq(calculations.id, id), eq(calculations.userId, userId)))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+export async function createCalculation(
+  calculation: Omit<InsertCalculation, "id" | "createdAt" | "updatedAt">
+) {
+  const db = await requireDb();
+  const [{ id }] = await db
+    .insert(calculations)
+    .values(calculation)
+    .$returningId();
+  return getCalculation(calculation.userId, id);
+}
+
+/**
+ * Updates name and/or tags; rows of other users are never touched.
+ * Returns the updated row, or undefined when it does not exist.
+ */
+export async function updateCalculation(
+  userId: number,
+  id: number,
+  changes: Pick<Partial<InsertCalculation>, "name" | "tags">
+) {
+  const db = await requireDb();
+  await db
+    .update(calculations)
+    .set(changes)
+    .where(and(eq(calculations.id, id), eq(calculations.userId, userId)));
+  return getCalculation(userId, id);
+}
+
+export async function deleteCalculation(userId: number, id: number) {
+  const db = await requireDb();
+  const existing = await getCalculation(userId, id);
+  if (!existing) return false;
+  await db
+    .delete(calculations)
+    .where(and(eq(calculations.id, id), eq(calculations.userId, userId)));
+  return true;
+}
+
+export async function createShareLink(link: Omit<InsertShareLink, "createdAt">) {
+  const db = await requireDb();
+  await db.insert(shareLinks).values(link);
+}
+
+export async function getShareLink(code: string) {
+  const db = await requireDb();
+  const result = await db
+    .select()
+    .from(shareLinks)
+    .where(eq(shareLinks.code, code))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : undefined;
+}
+
+function klineSeriesFilter(series: KlineSeries) {
+  return and(
+    eq(klines.market, series.market),
+    eq(klines.priceType, series.priceType),
+    eq(klines.symbol, series.symbol),
+    eq(klines.interval, series.interval)
+  );
+}
+
+/**
+ * Finished klines of a series with openTime in [from, to]. The kline cache is
+ * optional, so this returns nothing when the database is not configured.
+ */
+export async function getStoredKlines(
+  series: KlineSeries,
+  from: number,
+  to: number
+): Promise<Kline[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select()
+    .from(klines)
+    .where(
+      and(klineSeriesFilter(series), gte(klines.openTime, from), lte(klines.openTime, to))
+    )
+    .orderBy(asc(klines.openTime));
+  return rows.map(({ openTime, open, high, low, close, volume, closeTime }) => ({
+    openTime,
+    open,
+    high,
+    low,
+    close,
+    volume,
+    closeTime,
+  }));
+}
+
+export async function storeKlines(series: KlineSeries, rows: Kline[]): Promise<void> {
+  if (rows.length === 0) return;
+  const db = await getDb();
+  if (!db) return;
+
+  // Closed candles are immutable; re-inserting an existing one is a no-op.
+  await db
+    .insert(klines)
+    .values(rows.map((row) => ({ ...series, ...row })))
+    .onDuplicateKeyUpdate({ set: { closeTime: sql`${klines.closeTime}` } });
+}
@@ -0,0 +1,86 @@
+/**
+ * 币安U本位合约适配器，复用 server/binance.ts 中的接口与缓存
+ */
+
+import {
+  getBinanceFees,
+  getBinancePrice,
+  getFundingIntervalHours,
+  getFundingRateHistory,
+  getLeverageBrackets,
+  getPremiumIndex,
+  getSymbolCatalog,
+  getSymbolDisplayName,
+} from "../binance";
+import type { ExchangeAdapter } from "./types";
+
+// 币安VIP0标准费率，未配置API密钥时使用
+const DEFAULT_FEES = { maker: 0.0002, taker: 0.0005 };
+
+export const binanceAdapter: ExchangeAdapter = {
+  id: "binance",
+  name: "Binance",
+
+  async getSymbols() {
+    const catalog = await getSymbolCatalog();
+    return catalog.map((info) => ({
+      symbol: info.symbol,
+      displayName: getSymbolDisplayName(info.symbol, info),
+      baseAsset: info.baseAsset,
+      quoteAsset: info.quoteAsset,
+      contractType: info.contractType,
+      status: info.status,
+      tradable: info.status === "TRADING",
+      contractMultiplier: 1,
+      tickSize: info.tickSize,
+      stepSize: info.stepSize,
+      minQty: info.minQty,
+      maxQty: info.maxQty,
+      minNotional: info.minNotional,
+      maxLeverage: info.maxLeverage,
+    }));
+  },
+
+  getPrice: getBinancePrice,
+
+  async getMarkPrice(symbol) {
+    const premium = await getPremiumIndex(symbol);
+    return {
+      symbol,
+      markPrice: premium.markPrice,
+      indexPrice: premium.indexPrice,
+      fundingRate: premium.lastFundingRate,
+      nextFundingTime: premium.nextFundingTime,
+    };
+  },
+
+  async getBrackets(symbol, credentials) {
+    const info = await getLeverageBrackets(
+      symbol,
+      credentials?.apiKey,
+      credentials?.apiSecret
+    );
+    return info.leverageBrackets;
+  },
+
+  async getFees(symbol, credentials) {
+    try {
+      const fees = await getBinanceFees(
+        symbol,
+        credentials?.apiKey,
+        credentials?.apiSecret
+      );
+      return {
+        maker: fees.makerCommission,
+        taker: fees.takerCommission,
+        source: "account",
+      };
+    } catch {
+      // 没有API密钥或请求失败时使用标准费率
+      return { ...DEFAULT_FEES, source: "default" };
+    }
+  },
+
+  getFundingHistory: getFundingRateHistory,
+  getFundingIntervalHours,
+};
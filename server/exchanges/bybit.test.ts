@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockBinanceServer, startMockBinance } from "../mockBinance";
+
+let mock: MockBinanceServer;
+let bybit: typeof import("./bybit");
+
+const ok = (result: unknown) => ({ retCode: 0, retMsg: "OK", result });
+
+beforeAll(async () => {
+  mock = await startMockBinance();
+  // bybit.ts 在加载时读取环境变量，需先指向模拟服务再导入
+  vi.stubEnv("BYBIT_API_BASE", mock.url);
+  bybit = await import("./bybit");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.reset();
+});
+
+describe("bybitAdapter.getBrackets", () => {
+  it("chains risk limits into brackets using the exchange deductions", async () => {
+    mock.setResponse(
+      "/v5/market/risk-limit",
+      ok({
+        list: [
+          { id: 2, riskLimitValue: "2600000", maintenanceMargin: "0.0056", maxLeverage: "83.33", mmDeduction: "1200" },
+          { id: 1, riskLimitValue: "2000000", maintenanceMargin: "0.005", maxLeverage: "100", mmDeduction: "0" },
+        ],
+      })
+    );
+    expect(await bybit.bybitAdapter.getBrackets("BTCUSDT")).toEqual([
+      { bracket: 1, initialLeverage: 100, notionalFloor: 0, notionalCap: 2_000_000, maintMarginRatio: 0.005, cum: 0 },
+      { bracket: 2, initialLeverage: 83.33, notionalFloor: 2_000_000, notionalCap: 2_600_000, maintMarginRatio: 0.0056, cum: 1200 },
+    ]);
+  });
+
+  it("accumulates the deduction when the exchange omits it", async () => {
+    mock.setResponse(
+      "/v5/market/risk-limit",
+      ok({
+        list: [
+          { id: 1, riskLimitValue: "200000", maintenanceMargin: "0.01", maxLeverage: "50", mmDeduction: "" },
+          { id: 2, riskLimitValue: "400000", maintenanceMargin: "0.015", maxLeverage: "33.33", mmDeduction: "" },
+          { id: 3, riskLimitValue: "600000", maintenanceMargin: "0.02", maxLeverage: "25", mmDeduction: "" },
+        ],
+      })
+    );
+    const brackets = await bybit.bybitAdapter.getBrackets("ETHUSDT");
+    // cum = 上一档 cum + 下限 × (本档维持保证金率 - 上一档维持保证金率)
+    expect(brackets[0].cum).toBe(0);
+    expect(brackets[1].cum).toBeCloseTo(1000, 8);
+    expect(brackets[2].cum).toBeCloseTo(3000, 8);
+  });
+});
+
+describe("bybitAdapter.getFundingHistory", () => {
+  it("sends both ends of the range and sorts ascending", async () => {
+    mock.setResponse(
+      "/v5/market/funding/history",
+      ok({
+        list: [
+          { fundingRate: "0.0002", fundingRateTimestamp: "1700035200000" },
+          { fundingRate: "0.0001", fundingRateTimestamp: "1700006400000" },
+        ],
+      })
+    );
+    const history = await bybit.bybitAdapter.getFundingHistory("BTCUSDT", 10, 1700000000000);
+    expect(history.map((h) => h.fundingRate)).toEqual([0.0001, 0.0002]);
+    const [request] = mock.requests.filter((r) => r.path === "/v5/market/funding/history");
+    expect(request.query.startTime).toBe("1700000000000");
+    expect(Number(request.query.endTime)).toBeGreaterThan(1700000000000);
+  });
+
+  it("pages back from the end of the range past the 200 entry limit", async () => {
+    const EIGHT_HOURS = 8 * 60 * 60 * 1000;
+    const startTime = 1_700_006_400_000;
+    const settlements = Array.from({ length: 450 }, (_, i) => startTime + i * EIGHT_HOURS);
+    // 与 Bybit 一致：返回 startTime 与 endTime 之间最新的 limit 条，按时间倒序
+    mock.setResponse("/v5/market/funding/history", (req) =>
+      ok({
+        list: settlements
+          .filter((time) => time >= Number(req.query.startTime) && time <= Number(req.query.endTime))
+          .reverse()
+          .slice(0, Number(req.query.limit))
+          .map((time) => ({ fundingRate: "0.0001", fundingRateTimestamp: time.toString() })),
+      })
+    );
+    const history = await bybit.bybitAdapter.getFundingHistory(
+      "BTCUSDT",
+      1000,
+      startTime,
+      settlements[449]
+    );
+    expect(history.map((h) => h.fundingTime)).toEqual(settlements);
+    const requests = mock.requests.filter((r) => r.path === "/v5/market/funding/history");
+    expect(requests.map((r) => r.query.endTime)).toEqual([
+      settlements[449].toString(),
+      (settlements[250] - 1).toString(),
+      (settlements[50] - 1).toString(),
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Bybit U本位永续合约适配器（公开接口 /v5，category=linear）
+ *
+ * Bybit 按币下单，维持保证金分层来自风险限额（risk-limit）接口：
+ * riskLimitValue 为该档名义价值上限，mmDeduction 即速算扣除数。
+ *
+ * 环境变量：BYBIT_API_BASE（默认为 https://api.bybit.com）
+ */
+
+import { CACHE_DURATION, ResponseCache, SYMBOL_CACHE_DURATION } from "./cache";
+import type {
+  ExchangeAdapter,
+  ExchangeSymbol,
+  FundingRateEntry,
+  LeverageBracket,
+} from "./types";
+
+const BYBIT_API_BASE = process.env.BYBIT_API_BASE || "https://api.bybit.com";
+
+// Bybit 非VIP永续合约费率；用户保存的是币安API密钥，无法查询Bybit账户费率
+const DEFAULT_FEES = { maker: 0.0002, taker: 0.00055 };
+const FUNDING_PAGE_LIMIT = 200; // 资金费率历史单次请求上限
+
+interface BybitInstrument {
+  symbol: string;
+  contractType: string; // LinearPerpetual / LinearFutures
+  status: string; // Trading / PreLaunch / Settling / Closed
+  baseCoin: string;
+  quoteCoin: string;
+  fundingInterval: number; // 分钟
+  priceFilter: { tickSize: string };
+  lotSizeFilter: {
+    qtyStep: string;
+    minOrderQty: string;
+    maxOrderQty: string;
+    minNotionalValue?: string;
+  };
+  leverageFilter: { maxLeverage: string };
+}
+
+interface BybitTicker {
+  symbol: string;
+  lastPrice: string;
+  markPrice: string;
+  indexPrice: string;
+  fundingRate: string;
+  nextFundingTime: string;
+}
+
+interface BybitRiskLimit {
+  id: number;
+  riskLimitValue: string;
+  maintenanceMargin: string;
+  maxLeverage: string;
+  mmDeduction: string;
+}
+
+const cache = new ResponseCache("Bybit");
+
+/**
+ * 请求 Bybit 公开接口，retCode 不为0时视为失败
+ */
+async function bybitGet<T>(path: string): Promise<T> {
+  const response = await fetch(`${BYBIT_API_BASE}${path}`);
+  if (!response.ok) {
+    throw new Error(`Bybit API error: ${response.statusText}`);
+  }
+  const body = (await response.json()) as {
+    retCode: number;
+    retMsg: string;
+    result: T;
+  };
+  if (body.retCode !== 0) {
+    throw new Error(`Bybit API error: ${body.retMsg}`);
+  }
+  return body.result;
+}
+
+function getInstruments(): Promise<BybitInstrument[]> {
+  return cache.get("instruments", SYMBOL_CACHE_DURATION, async () => {
+    // 交易对列表分页返回，按 cursor 逐页获取
+    const instruments: BybitInstrument[] = [];
+    let cursor = "";
+    do {
+      const result = await bybitGet<{
+        list: BybitInstrument[];
+        nextPageCursor: string;
+      }>(
+        `/v5/market/instruments-info?category=linear&limit=1000${
+          cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""
+        }`
+      );
+      instruments.push(...result.list);
+      cursor = result.nextPageCursor;
+    } while (cursor);
+    return instruments.filter((i) => i.quoteCoin === "USDT");
+  });
+}
+
+function getTicker(symbol: string): Promise<BybitTicker> {
+  return cache.get(`ticker:${symbol}`, CACHE_DURATION, async () => {
+    const result = await bybitGet<{ list: BybitTicker[] }>(
+      `/v5/market/tickers?category=linear&symbol=${symbol}`
+    );
+    if (result.list.length === 0) {
+      throw new Error(`Bybit API error: no ticker for ${symbol}`);
+    }
+    return result.list[0];
+  });
+}
+
+function toSymbol(instrument: BybitInstrument): ExchangeSymbol {
+  return {
+    symbol: instrument.symbol,
+    displayName: `${instrument.baseCoin}/${instrument.quoteCoin} ${
+      instrument.contractType === "LinearPerpetual" ? "永续" : "交割"
+    }`,
+    baseAsset: instrument.baseCoin,
+    quoteAsset: instrument.quoteCoin,
+    contractType:
+      instrument.contractType === "LinearPerpetual" ? "PERPETUAL" : instrument.contractType,
+    status: instrument.status,
+    tradable: instrument.status === "Trading",
+    contractMultiplier: 1,
+    tickSize: parseFloat(instrument.priceFilter.tickSize),
+    stepSize: parseFloat(instrument.lotSizeFilter.qtyStep),
+    minQty: parseFloat(instrument.lotSizeFilter.minOrderQty),
+    maxQty: parseFloat(instrument.lotSizeFilter.maxOrderQty),
+    minNotional: parseFloat(instrument.lotSizeFilter.minNotionalValue ?? "0") || 0,
+    maxLeverage: parseFloat(instrument.leverageFilter.maxLeverage) || null,
+  };
+}
+
+export const bybitAdapter: ExchangeAdapter = {
+  id: "bybit",
+  name: "Bybit",
+
+  async getSymbols() {
+    return (await getInstruments()).map(toSymbol);
+  },
+
+  async getPrice(symbol) {
+    return parseFloat((await getTicker(symbol)).lastPrice);
+  },
+
+  async getMarkPrice(symbol) {
+    const ticker = await getTicker(symbol);
+    return {
+      symbol,
+      markPrice: parseFloat(ticker.markPrice),
+      indexPrice: parseFloat(ticker.indexPrice),
+      fundingRate: parseFloat(ticker.fundingRate),
+      nextFundingTime: parseInt(ticker.nextFundingTime),
+    };
+  },
+
+  /**
+   * 风险限额按名义价值上限升序排列，下限取上一档的上限；
+   * 接口未给出速算扣除数时按分层公式累计
+   */
+  getBrackets(symbol) {
+    return cache.get(`riskLimit:${symbol}`, CACHE_DURATION, async () => {
+      const result = await bybitGet<{ list: BybitRiskLimit[] }>(
+        `/v5/market/risk-limit?category=linear&symbol=${symbol}`
+      );
+      const limits = [...result.list].sort(
+        (a, b) => parseFloat(a.riskLimitValue) - parseFloat(b.riskLimitValue)
+      );
+      const brackets: LeverageBracket[] = [];
+      limits.forEach((limit, index) => {
+        const previous = brackets[index - 1];
+        const notionalFloor = previous ? previous.notionalCap : 0;
+        const maintMarginRatio = parseFloat(limit.maintenanceMargin);
+        const cum = limit.mmDeduction
+          ? parseFloat(limit.mmDeduction)
+          : previous
+            ? previous.cum + notionalFloor * (maintMarginRatio - previous.maintMarginRatio)
+            : 0;
+        brackets.push({
+          bracket: index + 1,
+          initialLeverage: parseFloat(limit.maxLeverage),
+          notionalFloor,
+          notionalCap: parseFloat(limit.riskLimitValue),
+          maintMarginRatio,
+          cum,
+        });
+      });
+      return brackets;
+    });
+  },
+
+  async getFees() {
+    return { ...DEFAULT_FEES, source: "default" };
+  },
+
+  getFundingHistory(symbol, limit, startTime, endTime) {
+    const key = `fundingHistory:${symbol}:${limit}:${startTime ?? ""}:${endTime ?? ""}`;
+    return cache.get(key, CACHE_DURATION, async () => {
+      // 按时间倒序返回，单次最多200条；只传 startTime 会被拒绝，需同时给出 endTime。
+      // 指定 startTime 时从 endTime 向前逐页获取，直到取完范围内的记录或取满 limit 条
+      const entries: FundingRateEntry[] = [];
+      let rangeEnd = endTime ?? (startTime !== undefined ? Date.now() : undefined);
+      while (entries.length < limit) {
+        const pageLimit = Math.min(limit - entries.length, FUNDING_PAGE_LIMIT);
+        const result = await bybitGet<{
+          list: { fundingRate: string; fundingRateTimestamp: string }[];
+        }>(
+          `/v5/market/funding/history?category=linear&symbol=${symbol}&limit=${pageLimit}` +
+            (startTime !== undefined ? `&startTime=${startTime}` : "") +
+            (rangeEnd !== undefined ? `&endTime=${rangeEnd}` : "")
+        );
+        const page = result.list.map((entry) => ({
+          fundingTime: parseInt(entry.fundingRateTimestamp),
+          fundingRate: parseFloat(entry.fundingRate),
+        }));
+        entries.push(...page);
+        if (startTime === undefined || page.length < pageLimit) {
+          break;
+        }
+        rangeEnd = Math.min(...page.map((entry) => entry.fundingTime)) - 1;
+      }
+      return entries.sort((a, b) => a.fundingTime - b.fundingTime);
+    });
+  },
+
+  async getFundingIntervalHours(symbol) {
+    const instrument = (await getInstruments()).find((i) => i.symbol === symbol);
+    return instrument?.fundingInterval ? instrument.fundingInterval / 60 : 8;
+  },
+};
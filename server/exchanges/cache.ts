@@ -0,0 +1,44 @@
+/**
+ * 适配器共用的缓存：缓存有效期内直接返回，请求失败时退回过期缓存
+ */
+
+export const CACHE_DURATION = 60 * 1000; // 缓存60秒
+export const SYMBOL_CACHE_DURATION = 60 * 60 * 1000; // 交易对信息缓存1小时
+
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private label: string) {}
+
+  async get<T>(
+    key: string,
+    duration: number,
+    load: () => Promise<T>
+  ): Promise<T> {
+    const cached = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (cached && Date.now() - cached.timestamp < duration) {
+      return cached.data;
+    }
+
+    try {
+      const data = await load();
+      this.entries.set(key, { data, timestamp: Date.now() });
+      return data;
+    } catch (error) {
+      console.error(`[${this.label}] Failed to fetch ${key}:`, error);
+      if (cached) {
+        return cached.data;
+      }
+      throw error;
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * 交易所适配器注册表
+ */
+
+import type { ExchangeId } from "@shared/exchanges";
+import { binanceAdapter } from "./binance";
+import { bybitAdapter } from "./bybit";
+import { okxAdapter } from "./okx";
+import type { ExchangeAdapter } from "./types";
+
+export type {
+  ExchangeAdapter,
+  ExchangeCredentials,
+  ExchangeFees,
+  ExchangeMarkPrice,
+  ExchangeSymbol,
+} from "./types";
+
+const adapters: Record<ExchangeId, ExchangeAdapter> = {
+  binance: binanceAdapter,
+  okx: okxAdapter,
+  bybit: bybitAdapter,
+};
+
+export function getExchangeAdapter(id: ExchangeId): ExchangeAdapter {
+  return adapters[id];
+}
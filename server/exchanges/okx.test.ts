@@ -0,0 +1,131 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { MockBinanceServer, startMockBinance } from "../mockBinance";
+
+let mock: MockBinanceServer;
+let okx: typeof import("./okx");
+
+const instrument = (instId: string, ctVal: string) => ({
+  instId,
+  instFamily: instId.replace(/-SWAP$/, ""),
+  ctVal,
+  ctMult: "1",
+  ctValCcy: instId.split("-")[0],
+  settleCcy: "USDT",
+  ctType: "linear",
+  tickSz: "0.1",
+  lotSz: "0.01",
+  minSz: "0.01",
+  maxLmtSz: "10000",
+  lever: "100",
+  state: "live",
+});
+
+const ok = (data: unknown[]) => ({ code: "0", msg: "", data });
+
+beforeAll(async () => {
+  mock = await startMockBinance();
+  // okx.ts 在加载时读取环境变量，需先指向模拟服务再导入
+  vi.stubEnv("OKX_API_BASE", mock.url);
+  okx = await import("./okx");
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.reset();
+  mock.setResponse(
+    "/api/v5/public/instruments",
+    ok([instrument("BTC-USDT-SWAP", "0.01"), instrument("ETH-USDT-SWAP", "0.1")])
+  );
+  mock.setResponse("/api/v5/public/mark-price", ok([{ markPx: "60000" }]));
+  mock.setResponse("/api/v5/market/index-tickers", ok([{ idxPx: "59990" }]));
+  mock.setResponse(
+    "/api/v5/public/funding-rate",
+    ok([{ fundingRate: "0.0001", fundingTime: "1700006400000", nextFundingTime: "1700035200000" }])
+  );
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("okxAdapter", () => {
+  it("converts contract quantities to coins", async () => {
+    const [btc] = await okx.okxAdapter.getSymbols();
+    expect(btc).toMatchObject({
+      symbol: "BTC-USDT-SWAP",
+      contractMultiplier: 0.01,
+      stepSize: 0.0001,
+      minQty: 0.0001,
+      maxQty: 100,
+      maxLeverage: 100,
+    });
+  });
+
+  it("converts position tiers in contracts to notional brackets without cum", async () => {
+    mock.setResponse(
+      "/api/v5/public/position-tiers",
+      ok([
+        { tier: "2", minSz: "50000", maxSz: "100000", mmr: "0.006", maxLever: "50" },
+        { tier: "1", minSz: "0", maxSz: "50000", mmr: "0.004", maxLever: "100" },
+      ])
+    );
+    const brackets = await okx.okxAdapter.getBrackets("BTC-USDT-SWAP");
+    // 每张 0.01 BTC，按标记价格 60000 计每张名义价值 600 USDT
+    expect(brackets).toEqual([
+      { bracket: 1, initialLeverage: 100, notionalFloor: 0, notionalCap: 30_000_000, maintMarginRatio: 0.004, cum: 0 },
+      { bracket: 2, initialLeverage: 50, notionalFloor: 30_000_000, notionalCap: 60_000_000, maintMarginRatio: 0.006, cum: 0 },
+    ]);
+    const [request] = mock.requests.filter((r) => r.path === "/api/v5/public/position-tiers");
+    expect(request.query).toMatchObject({ instFamily: "BTC-USDT", tdMode: "cross" });
+  });
+
+  it("derives the funding interval from consecutive settlement times", async () => {
+    expect(await okx.okxAdapter.getFundingIntervalHours("ETH-USDT-SWAP")).toBe(8);
+  });
+
+  it("rejects responses with a non-zero code", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mock.setResponse("/api/v5/market/ticker", { code: "51001", msg: "Instrument ID does not exist", data: [] });
+    await expect(okx.okxAdapter.getPrice("XYZ-USDT-SWAP")).rejects.toThrow(
+      "Instrument ID does not exist"
+    );
+  });
+});
+
+describe("okxAdapter.getFundingHistory", () => {
+  const EIGHT_HOURS = 8 * 60 * 60 * 1000;
+  const startTime = 1_700_006_400_000;
+  const settlements = Array.from({ length: 250 }, (_, i) => startTime + i * EIGHT_HOURS);
+
+  it("pages back from the end of the range past the 100 entry limit", async () => {
+    // 与 OKX 一致：返回 before/after 之间最新的 limit 条，按时间倒序
+    mock.setResponse("/api/v5/public/funding-rate-history", (req) => {
+      const before = Number(req.query.before ?? 0);
+      const after = Number(req.query.after ?? Number.MAX_SAFE_INTEGER);
+      return ok(
+        settlements
+          .filter((time) => time > before && time < after)
+          .reverse()
+          .slice(0, Number(req.query.limit))
+          .map((time) => ({ fundingTime: time.toString(), fundingRate: "0.0001" }))
+      );
+    });
+    const history = await okx.okxAdapter.getFundingHistory(
+      "BTC-USDT-SWAP",
+      1000,
+      startTime,
+      settlements[249]
+    );
+    expect(history.map((h) => h.fundingTime)).toEqual(settlements);
+    const requests = mock.requests.filter((r) => r.path === "/api/v5/public/funding-rate-history");
+    expect(requests.map((r) => r.query.after)).toEqual([
+      (settlements[249] + 1).toString(),
+      settlements[150].toString(),
+      settlements[50].toString(),
+    ]);
+  });
+});
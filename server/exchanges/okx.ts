@@ -0,0 +1,228 @@
+/**
+ * 欧易（OKX）U本位永续合约适配器（公开接口 /api/v5）
+ *
+ * OKX 按张下单，每张面值为 ctVal 个币，数量与分层边界都以张为单位，
+ * 这里统一换算为币数量和名义价值。OKX 的维持保证金按仓位所在档位的
+ * 维持保证金率整体计算，没有速算扣除数（cum 为0）。
+ *
+ * 环境变量：OKX_API_BASE（默认为 https://www.okx.com）
+ */
+
+import { CACHE_DURATION, ResponseCache, SYMBOL_CACHE_DURATION } from "./cache";
+import type {
+  ExchangeAdapter,
+  ExchangeSymbol,
+  FundingRateEntry,
+  LeverageBracket,
+} from "./types";
+
+const OKX_API_BASE = process.env.OKX_API_BASE || "https://www.okx.com";
+
+// OKX 普通用户（Lv1）永续合约费率；账户费率接口需要 Passphrase，暂不支持
+const DEFAULT_FEES = { maker: 0.0002, taker: 0.0005 };
+const FUNDING_PAGE_LIMIT = 100; // 资金费率历史单次请求上限
+
+interface OkxInstrument {
+  instId: string; // 如 BTC-USDT-SWAP
+  instFamily: string; // 如 BTC-USDT
+  ctVal: string;
+  ctMult: string;
+  ctValCcy: string;
+  settleCcy: string;
+  ctType: string; // linear / inverse
+  tickSz: string;
+  lotSz: string;
+  minSz: string;
+  maxLmtSz: string;
+  lever: string;
+  state: string; // live / suspend / preopen
+}
+
+interface OkxPositionTier {
+  tier: string;
+  minSz: string;
+  maxSz: string;
+  mmr: string;
+  maxLever: string;
+}
+
+const cache = new ResponseCache("OKX");
+
+/**
+ * 请求 OKX 公开接口，code 不为 "0" 时视为失败
+ */
+async function okxGet<T>(path: string): Promise<T[]> {
+  const response = await fetch(`${OKX_API_BASE}${path}`);
+  if (!response.ok) {
+    throw new Error(`OKX API error: ${response.statusText}`);
+  }
+  const body = (await response.json()) as { code: string; msg: string; data: T[] };
+  if (body.code !== "0") {
+    throw new Error(`OKX API error: ${body.msg || body.code}`);
+  }
+  return body.data;
+}
+
+function getInstruments(): Promise<OkxInstrument[]> {
+  return cache.get("instruments", SYMBOL_CACHE_DURATION, async () => {
+    const data = await okxGet<OkxInstrument>(
+      "/api/v5/public/instruments?instType=SWAP"
+    );
+    return data.filter((i) => i.ctType === "linear" && i.settleCcy === "USDT");
+  });
+}
+
+async function getInstrument(symbol: string): Promise<OkxInstrument> {
+  const instrument = (await getInstruments()).find((i) => i.instId === symbol);
+  if (!instrument) {
+    throw new Error(`OKX API error: unknown instrument ${symbol}`);
+  }
+  return instrument;
+}
+
+function contractMultiplier(instrument: OkxInstrument): number {
+  return parseFloat(instrument.ctVal) * (parseFloat(instrument.ctMult) || 1);
+}
+
+function toSymbol(instrument: OkxInstrument): ExchangeSymbol {
+  const multiplier = contractMultiplier(instrument);
+  return {
+    symbol: instrument.instId,
+    displayName: `${instrument.ctValCcy}/${instrument.settleCcy} 永续`,
+    baseAsset: instrument.ctValCcy,
+    quoteAsset: instrument.settleCcy,
+    contractType: "PERPETUAL",
+    status: instrument.state,
+    tradable: instrument.state === "live",
+    contractMultiplier: multiplier,
+    tickSize: parseFloat(instrument.tickSz),
+    stepSize: parseFloat(instrument.lotSz) * multiplier,
+    minQty: parseFloat(instrument.minSz) * multiplier,
+    maxQty: parseFloat(instrument.maxLmtSz) * multiplier,
+    minNotional: 0,
+    maxLeverage: parseFloat(instrument.lever) || null,
+  };
+}
+
+async function getFundingRate(symbol: string) {
+  return cache.get(`funding:${symbol}`, CACHE_DURATION, async () => {
+    const [data] = await okxGet<{
+      fundingRate: string;
+      fundingTime: string;
+      nextFundingTime: string;
+    }>(`/api/v5/public/funding-rate?instId=${symbol}`);
+    return {
+      fundingRate: parseFloat(data.fundingRate),
+      fundingTime: parseInt(data.fundingTime),
+      nextFundingTime: parseInt(data.nextFundingTime),
+    };
+  });
+}
+
+export const okxAdapter: ExchangeAdapter = {
+  id: "okx",
+  name: "OKX",
+
+  async getSymbols() {
+    return (await getInstruments()).map(toSymbol);
+  },
+
+  getPrice(symbol) {
+    return cache.get(`price:${symbol}`, CACHE_DURATION, async () => {
+      const [ticker] = await okxGet<{ last: string }>(
+        `/api/v5/market/ticker?instId=${symbol}`
+      );
+      return parseFloat(ticker.last);
+    });
+  },
+
+  async getMarkPrice(symbol) {
+    const instrument = await getInstrument(symbol);
+    const [mark, index, funding] = await Promise.all([
+      cache.get(`mark:${symbol}`, CACHE_DURATION, () =>
+        okxGet<{ markPx: string }>(
+          `/api/v5/public/mark-price?instType=SWAP&instId=${symbol}`
+        )
+      ),
+      cache.get(`index:${instrument.instFamily}`, CACHE_DURATION, () =>
+        okxGet<{ idxPx: string }>(
+          `/api/v5/market/index-tickers?instId=${instrument.instFamily}`
+        )
+      ),
+      getFundingRate(symbol),
+    ]);
+    return {
+      symbol,
+      markPrice: parseFloat(mark[0].markPx),
+      indexPrice: parseFloat(index[0].idxPx),
+      fundingRate: funding.fundingRate,
+      nextFundingTime: funding.fundingTime,
+    };
+  },
+
+  /**
+   * 档位以张数划分，按当前标记价格换算为名义价值边界
+   */
+  async getBrackets(symbol) {
+    const instrument = await getInstrument(symbol);
+    const [tiers, markPrice] = await Promise.all([
+      cache.get(`tiers:${instrument.instFamily}`, CACHE_DURATION, () =>
+        okxGet<OkxPositionTier>(
+          `/api/v5/public/position-tiers?instType=SWAP&tdMode=cross&instFamily=${instrument.instFamily}`
+        )
+      ),
+      okxAdapter.getMarkPrice(symbol).then((m) => m.markPrice),
+    ]);
+    const contractNotional = contractMultiplier(instrument) * markPrice;
+    return tiers
+      .map(
+        (t): LeverageBracket => ({
+          bracket: parseInt(t.tier),
+          initialLeverage: parseFloat(t.maxLever),
+          notionalFloor: parseFloat(t.minSz) * contractNotional,
+          notionalCap: parseFloat(t.maxSz) * contractNotional,
+          maintMarginRatio: parseFloat(t.mmr),
+          cum: 0,
+        })
+      )
+      .sort((a, b) => a.notionalFloor - b.notionalFloor);
+  },
+
+  async getFees() {
+    return { ...DEFAULT_FEES, source: "default" };
+  },
+
+  getFundingHistory(symbol, limit, startTime, endTime) {
+    const key = `fundingHistory:${symbol}:${limit}:${startTime ?? ""}:${endTime ?? ""}`;
+    return cache.get(key, CACHE_DURATION, async () => {
+      // 按时间倒序返回，单次最多100条；before 返回晚于该时间的记录，after 返回早于该时间的记录。
+      // 指定 startTime 时从 endTime 向前逐页获取，直到取完范围内的记录或取满 limit 条
+      const entries: FundingRateEntry[] = [];
+      let after = endTime !== undefined ? endTime + 1 : undefined;
+      while (entries.length < limit) {
+        const pageLimit = Math.min(limit - entries.length, FUNDING_PAGE_LIMIT);
+        const data = await okxGet<{ fundingRate: string; fundingTime: string }>(
+          `/api/v5/public/funding-rate-history?instId=${symbol}&limit=${pageLimit}` +
+            (startTime !== undefined ? `&before=${startTime - 1}` : "") +
+            (after !== undefined ? `&after=${after}` : "")
+        );
+        const page = data.map((entry) => ({
+          fundingTime: parseInt(entry.fundingTime),
+          fundingRate: parseFloat(entry.fundingRate),
+        }));
+        entries.push(...page);
+        if (startTime === undefined || page.length < pageLimit) {
+          break;
+        }
+        after = Math.min(...page.map((entry) => entry.fundingTime));
+      }
+      return entries.sort((a, b) => a.fundingTime - b.fundingTime);
+    });
+  },
+
+  async getFundingIntervalHours(symbol) {
+    const funding = await getFundingRate(symbol);
+    const hours = (funding.nextFundingTime - funding.fundingTime) / (60 * 60 * 1000);
+    return hours > 0 ? hours : 8;
+  },
+};
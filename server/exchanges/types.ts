@@ -0,0 +1,74 @@
+/**
+ * 交易所适配层的通用类型
+ * 各交易所的合约面值、维持保证金分层和手续费不同，适配器负责统一换算：
+ * 数量一律以币为单位，分层一律以名义价值（USD）为边界
+ */
+
+import type { ExchangeId } from "@shared/exchanges";
+import type { FundingRateEntry, LeverageBracket } from "../binance";
+
+export type { FundingRateEntry, LeverageBracket };
+
+/**
+ * 交易对信息（U本位线性合约）
+ */
+export interface ExchangeSymbol {
+  symbol: string; // 交易所原生交易对，如 BTCUSDT、BTC-USDT-SWAP
+  displayName: string;
+  baseAsset: string;
+  quoteAsset: string;
+  contractType: string; // PERPETUAL / 交割合约等
+  status: string;
+  tradable: boolean;
+  contractMultiplier: number; // 每张合约对应的币数量（按币下单的交易所为1）
+  tickSize: number;
+  stepSize: number; // 数量步长（币）
+  minQty: number; // 最小下单数量（币）
+  maxQty: number; // 最大下单数量（币）
+  minNotional: number;
+  maxLeverage: number | null;
+}
+
+export interface ExchangeMarkPrice {
+  symbol: string;
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number; // 当前（或最近一次）资金费率
+  nextFundingTime: number;
+}
+
+export interface ExchangeFees {
+  maker: number;
+  taker: number;
+  source: "account" | "default"; // 账户实际费率 / 交易所标准费率
+}
+
+export interface ExchangeCredentials {
+  apiKey?: string;
+  apiSecret?: string;
+}
+
+/**
+ * 交易所适配器
+ */
+export interface ExchangeAdapter {
+  id: ExchangeId;
+  name: string;
+  getSymbols(): Promise<ExchangeSymbol[]>;
+  getPrice(symbol: string): Promise<number>;
+  getMarkPrice(symbol: string): Promise<ExchangeMarkPrice>;
+  getBrackets(
+    symbol: string,
+    credentials?: ExchangeCredentials
+  ): Promise<LeverageBracket[]>;
+  getFees(symbol: string, credentials?: ExchangeCredentials): Promise<ExchangeFees>;
+  // startTime/endTime 限定结算时间范围，未指定时返回最近的记录；
+  // 指定 startTime 时按交易所单次上限分页，直到取完范围内的记录或取满 limit 条
+  getFundingHistory(
+    symbol: string,
+    limit: number,
+    startTime?: number,
+    endTime?: number
+  ): Promise<FundingRateEntry[]>;
+  getFundingIntervalHours(symbol: string): Promise<number>;
+}
@@ -0,0 +1,576 @@
+/**
+ * 本地币安U本位合约模拟服务
+ * 用于测试和离线开发：将 BINANCE_API_BASE 指向该服务即可在无网络时运行 server/binance.ts
+ *
+ * 支持的端点：ticker/price、premiumIndex、exchangeInfo、leverageBracket、
+ * commissionRates、fundingRate、fundingInfo、klines、markPriceKlines、account、positionRisk，
+ * 以及 WebSocket 组合流 /stream（markPrice@1s、bookTicker）。
+ * 返回数据来自可修改的 state，并支持按路径脚本化响应和注入错误。
+ *
+ * 离线开发：pnpm mock:binance 启动后，设置 BINANCE_API_BASE=http://localhost:4010、
+ * BINANCE_WS_BASE=ws://localhost:4010
+ */
+
+import { createHmac } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { pathToFileURL } from "url";
+import { WebSocket, WebSocketServer } from "ws";
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  apiKey?: string;
+}
+
+export interface MockBracket {
+  bracket: number;
+  initialLeverage: number;
+  notionalCap: number;
+  notionalFloor: number;
+  maintMarginRatio: number;
+  cum: number;
+}
+
+export interface MockSymbol {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tickSize: string;
+  stepSize: string;
+  minQty: string;
+  maxQty: string;
+  minNotional: string;
+}
+
+/**
+ * 模拟服务的数据，测试中可直接修改
+ */
+export interface MockBinanceState {
+  symbols: MockSymbol[];
+  prices: Record<string, number>;
+  markPrices: Record<string, number>;
+  fundingRates: Record<string, { fundingTime: number; fundingRate: number }[]>;
+  fundingIntervals: Record<string, number>; // 调整过结算周期的交易对
+  brackets: Record<string, MockBracket[]>;
+  // API Key -> 该账户的手续费率，未列出的账户使用VIP0费率
+  commissionRates: Record<string, { maker: number; taker: number }>;
+  feeTier: number;
+}
+
+export interface MockFailure {
+  status?: number; // 默认500
+  body?: unknown;
+  times?: number; // 连续失败的次数，默认1
+}
+
+type MockHandler = (req: MockRequest) => unknown;
+
+export interface MockBinanceOptions {
+  port?: number; // 默认0，由系统分配空闲端口
+  // API Key -> Secret，签名接口只接受这里列出的凭证
+  credentials?: Record<string, string>;
+  state?: Partial<MockBinanceState>;
+  // 行情流定时推送间隔，默认0只在连接建立和调用 pushStreams() 时推送
+  streamIntervalMs?: number;
+}
+
+export interface MockBinanceServer {
+  url: string;
+  state: MockBinanceState;
+  requests: MockRequest[]; // 收到的所有请求，按时间顺序
+  setResponse(path: string, response: unknown | MockHandler): void;
+  failNext(path: string, failure?: MockFailure): void;
+  reset(): void;
+  pushStreams(): void; // 按当前 state 向所有行情流连接推送一次
+  dropStreams(): void; // 断开所有行情流连接，模拟网络中断
+  openStreams(): number;
+  close(): Promise<void>;
+}
+
+// 需要签名的端点（USER_DATA）
+const SIGNED_PATHS = new Set([
+  "/fapi/v1/leverageBracket",
+  "/fapi/v1/commissionRates",
+  "/fapi/v2/account",
+  "/fapi/v2/positionRisk",
+]);
+
+const BTC_BRACKETS: MockBracket[] = [
+  { bracket: 1, initialLeverage: 125, notionalCap: 50000, notionalFloor: 0, maintMarginRatio: 0.004, cum: 0 },
+  { bracket: 2, initialLeverage: 100, notionalCap: 600000, notionalFloor: 50000, maintMarginRatio: 0.005, cum: 50 },
+  { bracket: 3, initialLeverage: 75, notionalCap: 3000000, notionalFloor: 600000, maintMarginRatio: 0.0065, cum: 950 },
+];
+
+const ETH_BRACKETS: MockBracket[] = [
+  { bracket: 1, initialLeverage: 125, notionalCap: 10000, notionalFloor: 0, maintMarginRatio: 0.004, cum: 0 },
+  { bracket: 2, initialLeverage: 100, notionalCap: 100000, notionalFloor: 10000, maintMarginRatio: 0.005, cum: 10 },
+];
+
+/**
+ * 默认数据：BTCUSDT 和 ETHUSDT 两个永续合约
+ */
+export function createDefaultMockState(): MockBinanceState {
+  const now = Date.now();
+  const eightHours = 8 * 60 * 60 * 1000;
+  return {
+    symbols: [
+      {
+        symbol: "BTCUSDT",
+        baseAsset: "BTC",
+        quoteAsset: "USDT",
+        tickSize: "0.10",
+        stepSize: "0.001",
+        minQty: "0.001",
+        maxQty: "1000",
+        minNotional: "100",
+      },
+      {
+        symbol: "ETHUSDT",
+        baseAsset: "ETH",
+        quoteAsset: "USDT",
+        tickSize: "0.01",
+        stepSize: "0.001",
+        minQty: "0.001",
+        maxQty: "10000",
+        minNotional: "20",
+      },
+    ],
+    prices: { BTCUSDT: 60000, ETHUSDT: 3000 },
+    markPrices: { BTCUSDT: 60010, ETHUSDT: 3001 },
+    fundingRates: {
+      BTCUSDT: [0.0001, 0.0002, -0.0001].map((fundingRate, i) => ({
+        fundingTime: now - (3 - i) * eightHours,
+        fundingRate,
+      })),
+      ETHUSDT: [0.0001].map((fundingRate) => ({
+        fundingTime: now - eightHours,
+        fundingRate,
+      })),
+    },
+    fundingIntervals: {},
+    brackets: { BTCUSDT: BTC_BRACKETS, ETHUSDT: ETH_BRACKETS },
+    commissionRates: {},
+    feeTier: 0,
+  };
+}
+
+class MockError extends Error {
+  constructor(
+    public status: number,
+    public body: unknown
+  ) {
+    super(`Mock Binance error ${status}`);
+  }
+}
+
+function requireSymbol(req: MockRequest, state: MockBinanceState): string {
+  const symbol = req.query.symbol;
+  if (!symbol || !state.symbols.some((s) => s.symbol === symbol)) {
+    throw new MockError(400, { code: -1121, msg: "Invalid symbol." });
+  }
+  return symbol;
+}
+
+/**
+ * 按币安返回格式生成默认响应
+ */
+function defaultResponse(req: MockRequest, state: MockBinanceState): unknown {
+  switch (req.path) {
+    case "/fapi/v1/ticker/price": {
+      const symbol = requireSymbol(req, state);
+      return { symbol, price: state.prices[symbol].toString(), time: Date.now() };
+    }
+    case "/fapi/v1/premiumIndex": {
+      const symbol = requireSymbol(req, state);
+      const history = state.fundingRates[symbol] ?? [];
+      const last = history[history.length - 1];
+      return {
+        symbol,
+        markPrice: state.markPrices[symbol].toString(),
+        indexPrice: state.prices[symbol].toString(),
+        lastFundingRate: (last?.fundingRate ?? 0).toString(),
+        nextFundingTime: (last?.fundingTime ?? Date.now()) + 8 * 60 * 60 * 1000,
+        time: Date.now(),
+      };
+    }
+    case "/fapi/v1/exchangeInfo":
+      return {
+        timezone: "UTC",
+        serverTime: Date.now(),
+        symbols: state.symbols.map((s) => ({
+          symbol: s.symbol,
+          pair: s.symbol,
+          contractType: "PERPETUAL",
+          status: "TRADING",
+          baseAsset: s.baseAsset,
+          quoteAsset: s.quoteAsset,
+          marginAsset: s.quoteAsset,
+          onboardDate: 1569398400000,
+          pricePrecision: 2,
+          quantityPrecision: 3,
+          filters: [
+            { filterType: "PRICE_FILTER", tickSize: s.tickSize },
+            { filterType: "LOT_SIZE", stepSize: s.stepSize, minQty: s.minQty, maxQty: s.maxQty },
+            { filterType: "MARKET_LOT_SIZE", stepSize: s.stepSize, minQty: s.minQty, maxQty: s.maxQty },
+            { filterType: "MIN_NOTIONAL", notional: s.minNotional },
+          ],
+        })),
+      };
+    case "/fapi/v1/leverageBracket": {
+      const symbols = req.query.symbol
+        ? [requireSymbol(req, state)]
+        : Object.keys(state.brackets);
+      return symbols.map((symbol) => ({
+        symbol,
+        brackets: state.brackets[symbol] ?? [],
+      }));
+    }
+    case "/fapi/v1/commissionRates": {
+      const symbol = requireSymbol(req, state);
+      const rates = state.commissionRates[req.apiKey ?? ""] ?? {
+        maker: 0.0002,
+        taker: 0.0005,
+      };
+      return {
+        symbol,
+        makerCommissionRate: rates.maker.toString(),
+        takerCommissionRate: rates.taker.toString(),
+      };
+    }
+    case "/fapi/v1/fundingRate": {
+      const symbol = requireSymbol(req, state);
+      const limit = Math.min(parseInt(req.query.limit ?? "100"), 1000);
+      const startTime = parseInt(req.query.startTime ?? "0");
+      const endTime = parseInt(req.query.endTime ?? `${Number.MAX_SAFE_INTEGER}`);
+      const inRange = (state.fundingRates[symbol] ?? []).filter(
+        (entry) => entry.fundingTime >= startTime && entry.fundingTime <= endTime
+      );
+      // 指定 startTime 时从最早的开始取，否则取最近的
+      const entries = req.query.startTime ? inRange.slice(0, limit) : inRange.slice(-limit);
+      return entries.map((entry) => ({
+        symbol,
+        fundingTime: entry.fundingTime,
+        fundingRate: entry.fundingRate.toString(),
+        markPrice: state.markPrices[symbol].toString(),
+      }));
+    }
+    case "/fapi/v1/klines":
+    case "/fapi/v1/markPriceKlines": {
+      const symbol = requireSymbol(req, state);
+      const base =
+        req.path === "/fapi/v1/markPriceKlines"
+          ? state.markPrices[symbol]
+          : state.prices[symbol];
+      return mockKlines(req, base, req.path === "/fapi/v1/klines");
+    }
+    case "/fapi/v1/fundingInfo":
+      return Object.entries(state.fundingIntervals).map(
+        ([symbol, fundingIntervalHours]) => ({ symbol, fundingIntervalHours })
+      );
+    case "/fapi/v2/account":
+      return {
+        feeTier: state.feeTier,
+        totalCrossWalletBalance: "0",
+        totalCrossUnPnl: "0",
+        positions: [],
+      };
+    case "/fapi/v2/positionRisk":
+      return [];
+    default:
+      throw new MockError(404, { code: -5000, msg: `Path ${req.path} not found` });
+  }
+}
+
+const KLINE_INTERVAL_MS: Record<string, number> = {
+  "1m": 60_000,
+  "5m": 5 * 60_000,
+  "15m": 15 * 60_000,
+  "1h": 3_600_000,
+  "4h": 4 * 3_600_000,
+  "1d": 86_400_000,
+  "1w": 7 * 86_400_000,
+};
+const WEEK_OFFSET = 4 * 86_400_000; // 周线从周一开盘，1970-01-01 为周四
+
+/**
+ * 生成确定性的K线：收盘价围绕基准价格按正弦波动，只返回已开盘的K线
+ * 参数规则与币安一致：指定 startTime 时从其后取 limit 根，否则取 endTime 之前最近的 limit 根
+ */
+function mockKlines(req: MockRequest, basePrice: number, withVolume: boolean): unknown[] {
+  const intervalMs = KLINE_INTERVAL_MS[req.query.interval ?? ""];
+  if (!intervalMs) {
+    throw new MockError(400, { code: -1120, msg: "Invalid interval." });
+  }
+  const offset = req.query.interval === "1w" ? WEEK_OFFSET : 0;
+  const align = (time: number) => Math.floor((time - offset) / intervalMs) * intervalMs + offset;
+  const limit = Math.min(parseInt(req.query.limit ?? "500"), 1500);
+  const endTime = Math.min(parseInt(req.query.endTime ?? `${Date.now()}`), Date.now());
+
+  const openTimes: number[] = [];
+  if (req.query.startTime) {
+    const startTime = parseInt(req.query.startTime);
+    let openTime = align(startTime);
+    if (openTime < startTime) openTime += intervalMs;
+    for (; openTime <= endTime && openTimes.length < limit; openTime += intervalMs) {
+      openTimes.push(openTime);
+    }
+  } else {
+    for (let openTime = align(endTime); openTimes.length < limit; openTime -= intervalMs) {
+      openTimes.unshift(openTime);
+    }
+  }
+
+  const priceAt = (time: number) =>
+    basePrice * (1 + 0.01 * Math.sin(time / intervalMs / 10));
+  return openTimes.map((openTime) => {
+    const open = priceAt(openTime);
+    const close = priceAt(openTime + intervalMs);
+    return [
+      openTime,
+      open.toFixed(2),
+      (Math.max(open, close) * 1.001).toFixed(2),
+      (Math.min(open, close) * 0.999).toFixed(2),
+      close.toFixed(2),
+      withVolume ? "100.000" : "0",
+      openTime + intervalMs - 1,
+      "0",
+      0,
+      "0",
+      "0",
+      "0",
+    ];
+  });
+}
+
+/**
+ * 按币安组合流格式生成一条行情消息，stream 形如 btcusdt@markPrice@1s
+ */
+function streamMessage(stream: string, state: MockBinanceState): unknown {
+  const [name, type] = stream.split("@");
+  const symbol = name.toUpperCase();
+  const price = state.prices[symbol];
+  if (price === undefined) return undefined;
+  const tickSize = parseFloat(
+    state.symbols.find((s) => s.symbol === symbol)?.tickSize ?? "0.01"
+  );
+  const history = state.fundingRates[symbol] ?? [];
+  const last = history[history.length - 1];
+  const now = Date.now();
+
+  if (type === "markPrice") {
+    return {
+      stream,
+      data: {
+        e: "markPriceUpdate",
+        E: now,
+        s: symbol,
+        p: state.markPrices[symbol].toString(),
+        i: price.toString(),
+        P: state.markPrices[symbol].toString(),
+        r: (last?.fundingRate ?? 0).toString(),
+        T: (last?.fundingTime ?? now) + 8 * 60 * 60 * 1000,
+      },
+    };
+  }
+  if (type === "bookTicker") {
+    return {
+      stream,
+      data: {
+        e: "bookTicker",
+        u: now,
+        E: now,
+        T: now,
+        s: symbol,
+        b: price.toString(),
+        B: "1.000",
+        a: (price + tickSize).toString(),
+        A: "1.000",
+      },
+    };
+  }
+  return undefined;
+}
+
+/**
+ * 校验签名：X-MBX-APIKEY 必须是已知凭证，signature 为去掉 signature 参数后的
+ * 查询字符串的 HMAC-SHA256
+ */
+function verifySignature(
+  rawQuery: string,
+  req: MockRequest,
+  credentials: Record<string, string>
+): void {
+  const secret = req.apiKey ? credentials[req.apiKey] : undefined;
+  if (!secret) {
+    throw new MockError(401, {
+      code: -2015,
+      msg: "Invalid API-key, IP, or permissions for action.",
+    });
+  }
+  const index = rawQuery.lastIndexOf("&signature=");
+  const payload = index >= 0 ? rawQuery.slice(0, index) : rawQuery;
+  const expected = createHmac("sha256", secret).update(payload).digest("hex");
+  if (!req.query.timestamp || req.query.signature !== expected) {
+    throw new MockError(400, {
+      code: -1022,
+      msg: "Signature for this request is not valid.",
+    });
+  }
+}
+
+/**
+ * 启动模拟服务
+ */
+export async function startMockBinance(
+  options: MockBinanceOptions = {}
+): Promise<MockBinanceServer> {
+  const credentials = options.credentials ?? {};
+  const overrides = new Map<string, unknown | MockHandler>();
+  const failures = new Map<string, Required<MockFailure>[]>();
+
+  const mock: MockBinanceServer = {
+    url: "",
+    state: { ...createDefaultMockState(), ...options.state },
+    requests: [],
+    setResponse(path, response) {
+      overrides.set(path, response);
+    },
+    failNext(path, failure = {}) {
+      const queue = failures.get(path) ?? [];
+      queue.push({
+        status: failure.status ?? 500,
+        body: failure.body ?? { code: -1000, msg: "An unknown error occurred." },
+        times: failure.times ?? 1,
+      });
+      failures.set(path, queue);
+    },
+    reset() {
+      mock.state = { ...createDefaultMockState(), ...options.state };
+      mock.requests.length = 0;
+      overrides.clear();
+      failures.clear();
+    },
+    pushStreams() {
+      streamClients.forEach((_, socket) => sendStreams(socket));
+    },
+    dropStreams() {
+      streamClients.forEach((_, socket) => socket.terminate());
+    },
+    openStreams() {
+      return streamClients.size;
+    },
+    close() {
+      if (streamTimer) clearInterval(streamTimer);
+      mock.dropStreams();
+      wss.close();
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+
+  // 行情流连接 -> 订阅的流名称
+  const streamClients = new Map<WebSocket, string[]>();
+  const sendStreams = (socket: WebSocket) => {
+    for (const stream of streamClients.get(socket) ?? []) {
+      const message = streamMessage(stream, mock.state);
+      if (message && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    }
+  };
+
+  const handle = (incoming: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(incoming.url ?? "/", "http://localhost");
+    const apiKey = incoming.headers["x-mbx-apikey"];
+    const req: MockRequest = {
+      method: incoming.method ?? "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      apiKey: typeof apiKey === "string" ? apiKey : undefined,
+    };
+    mock.requests.push(req);
+
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const queue = failures.get(req.path);
+      if (queue && queue.length > 0) {
+        const failure = queue[0];
+        failure.times -= 1;
+        if (failure.times <= 0) queue.shift();
+        throw new MockError(failure.status, failure.body);
+      }
+
+      if (SIGNED_PATHS.has(req.path)) {
+        verifySignature(url.search.replace(/^\?/, ""), req, credentials);
+      }
+
+      const override = overrides.get(req.path);
+      const body =
+        override === undefined
+          ? defaultResponse(req, mock.state)
+          : typeof override === "function"
+            ? (override as MockHandler)(req)
+            : override;
+      send(200, body);
+    } catch (error) {
+      if (error instanceof MockError) {
+        send(error.status, error.body);
+      } else {
+        send(500, { code: -1000, msg: String(error) });
+      }
+    }
+  };
+
+  const server = createServer(handle);
+  const wss = new WebSocketServer({ noServer: true });
+  server.on("upgrade", (incoming, socket, head) => {
+    const url = new URL(incoming.url ?? "/", "http://localhost");
+    if (url.pathname !== "/stream") {
+      socket.destroy();
+      return;
+    }
+    mock.requests.push({
+      method: "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+    });
+    wss.handleUpgrade(incoming, socket, head, (ws) => {
+      const streams = (url.searchParams.get("streams") ?? "")
+        .split("/")
+        .filter(Boolean);
+      streamClients.set(ws, streams);
+      ws.on("close", () => streamClients.delete(ws));
+      sendStreams(ws);
+    });
+  });
+  const streamTimer = options.streamIntervalMs
+    ? setInterval(() => mock.pushStreams(), options.streamIntervalMs)
+    : null;
+  await new Promise<void>((resolve) =>
+    server.listen(options.port ?? 0, "127.0.0.1", resolve)
+  );
+  const { port } = server.address() as AddressInfo;
+  mock.url = `http://127.0.0.1:${port}`;
+  return mock;
+}
+
+// 直接运行时作为离线开发服务
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_BINANCE_PORT ?? "4010");
+  const apiKey = process.env.BINANCE_API_KEY;
+  const apiSecret = process.env.BINANCE_API_SECRET;
+  startMockBinance({
+    port,
+    credentials: apiKey && apiSecret ? { [apiKey]: apiSecret } : {},
+    streamIntervalMs: 1000,
+  }).then((mock) => {
+    console.log(`Mock Binance futures API running on ${mock.url}`);
+  });
+}
@@ -0,0 +1,163 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrpcContext } from "./_core/context";
+import { calculateContract, type ContractParams } from "@shared/contractCalculator";
+import type { Calculation } from "../drizzle/schema";
+import * as db from "./db";
+import { MockBinanceServer, startMockBinance } from "./mockBinance";
+
+// 历史记录读写不连接数据库，由测试提供返回的记录
+vi.mock("./db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./db")>()),
+  listCalculations: vi.fn(),
+  getCalculation: vi.fn(),
+  createCalculation: vi.fn(),
+}));
+
+const API_KEY = "test-key";
+const API_SECRET = "test-secret";
+
+let mock: MockBinanceServer;
+let caller: ReturnType<typeof import("./routers").appRouter.createCaller>;
+let userCaller: typeof caller;
+
+beforeAll(async () => {
+  mock = await startMockBinance({ credentials: { [API_KEY]: API_SECRET } });
+  // binance.ts 在加载时读取环境变量，需先指向模拟服务再导入
+  vi.stubEnv("BINANCE_API_BASE", mock.url);
+  vi.stubEnv("BINANCE_API_KEY", "");
+  vi.stubEnv("BINANCE_API_SECRET", "");
+  const { appRouter } = await import("./routers");
+  const ctx = { req: {}, res: {}, user: null } as unknown as TrpcContext;
+  caller = appRouter.createCaller(ctx);
+  userCaller = appRouter.createCaller({ ...ctx, user: { id: 1 } } as unknown as TrpcContext);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await mock.close();
+});
+
+beforeEach(async () => {
+  mock.reset();
+  (await import("./binance")).clearCache();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+describe("binance.* market data procedures", () => {
+  it("keep their response shapes next to exchange.*", async () => {
+    expect(await caller.binance.price({ symbol: "BTCUSDT" })).toEqual({
+      success: true,
+      price: 60000,
+    });
+    expect(await caller.binance.markPrice({ symbol: "BTCUSDT" })).toMatchObject({
+      success: true,
+      markPrice: 60010,
+      indexPrice: 60000,
+      lastFundingRate: -0.0001,
+    });
+
+    const credentials = { apiKey: API_KEY, apiSecret: API_SECRET };
+    const brackets = await caller.binance.leverageBrackets({ symbol: "BTCUSDT", ...credentials });
+    const exchangeBrackets = await caller.exchange.brackets({
+      exchange: "binance",
+      symbol: "BTCUSDT",
+      ...credentials,
+    });
+    expect(brackets.success).toBe(true);
+    expect(brackets.brackets).toEqual(exchangeBrackets.brackets);
+
+    const symbols = await caller.binance.symbols();
+    expect(symbols.find((s) => s.symbol === "BTCUSDT")?.info?.pricePrecision).toBeDefined();
+  });
+
+  it("returns standard fees for a symbol when no API key is given", async () => {
+    expect(await caller.binance.fees({ symbol: "ETHUSDT" })).toEqual({
+      success: true,
+      symbol: "ETHUSDT",
+      makerCommission: 0.0002,
+      takerCommission: 0.0005,
+      source: "default",
+    });
+    expect(await caller.binance.fees({ symbol: "ETHUSDT", apiKey: "key" })).toMatchObject({
+      success: false,
+    });
+  });
+});
+
+describe("binance.klines", () => {
+  it("rejects symbols outside the futures catalog before touching the kline cache", async () => {
+    expect(await caller.binance.klines({ symbol: "NOTLISTED", interval: "1h", limit: 5 })).toEqual({
+      success: false,
+      error: "Unknown symbol NOTLISTED",
+    });
+    await expect(caller.binance.klines({ symbol: "btc/usdt", interval: "1h" })).rejects.toThrow();
+    expect(mock.requests.some((r) => r.path === "/fapi/v1/klines")).toBe(false);
+
+    const listed = await caller.binance.klines({ symbol: "BTCUSDT", interval: "1h", limit: 5 });
+    expect(listed.success).toBe(true);
+    expect(listed.klines).toHaveLength(5);
+  });
+});
+
+describe("calculations", () => {
+  const params: ContractParams = {
+    openPrice: 60000,
+    margin: 1000,
+    leverage: 10,
+    marginMode: "isolated",
+    positionType: "long",
+  };
+  const { profitAtPrice, profitPercentAtPrice, ...result } = calculateContract(params);
+  // 数据库JSON列中的记录：无穷大的数值已变为 null
+  const row = (overrides: Record<string, unknown> = {}) => ({
+    id: 7,
+    userId: 1,
+    name: "BTC 多 10x",
+    exchange: "binance",
+    symbol: "BTCUSDT",
+    tags: [],
+    params: JSON.parse(JSON.stringify(params)),
+    result: JSON.parse(JSON.stringify(result)),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  it("rejects params that are not calculator inputs on save", async () => {
+    await expect(
+      userCaller.calculations.save({
+        name: "bad",
+        exchange: "binance",
+        symbol: "BTCUSDT",
+        params: { ...params, leverage: -1 },
+        result,
+      })
+    ).rejects.toThrow();
+    expect(db.createCalculation).not.toHaveBeenCalled();
+  });
+
+  it("restores infinite values when loading a saved calculation", async () => {
+    vi.mocked(db.getCalculation).mockResolvedValueOnce(row() as Calculation);
+    const data = await userCaller.calculations.get({ id: 7 });
+    expect(data.success).toBe(true);
+    expect(data.calculation!.result.maintenanceBracket.notionalCap).toBe(Infinity);
+    expect(data.calculation!.params).toEqual(params);
+  });
+
+  it("returns an error for a malformed row and leaves it out of the list", async () => {
+    const malformed = row({ params: { openPrice: "abc" } }) as Calculation;
+    vi.mocked(db.getCalculation).mockResolvedValueOnce(malformed);
+    expect(await userCaller.calculations.get({ id: 7 })).toEqual({
+      success: false,
+      error: "Saved calculation is malformed",
+    });
+
+    vi.mocked(db.listCalculations).mockResolvedValueOnce([
+      malformed,
+      row({ id: 8 }) as Calculation,
+    ]);
+    const list = await userCaller.calculations.list();
+    expect(list.calculations!.map((c) => c.id)).toEqual([8]);
+  });
+});
@@ -1,15 +1,179 @@
+import { on } from "events";
+import { TRPCError } from "@trpc/server";
+import { nanoid } from "nanoid";
 import { z } from "zod";
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import {
-  getBinancePrice,
-  getBinanceFees,
+  getAccountFeeTier,
+  getAccountPositions,
   getLeverageBrackets,
+  getKlines,
+  getCoinFuturesPrice,
+  getCoinFuturesContracts,
+  getCoinLeverageBrackets,
   getMainSymbols,
+  getSymbolCatalog,
   getSymbolDisplayName,
+  KLINE_INTERVALS,
+  MAX_FUNDING_HISTORY,
+  MAX_KLINES,
 } from "./binance";
+import type { FuturesSymbolInfo, LeverageBracket } from "./binance";
+import { acquirePriceStream } from "./binanceStream";
+import type { LivePrice, PriceStream } from "./binanceStream";
+import { getExchangeAdapter } from "./exchanges";
+import { storagePut } from "./storage";
+import {
+  createCalculation,
+  createShareLink,
+  deleteCalculation,
+  getCalculation,
+  getShareLink,
+  listCalculations,
+  updateCalculation,
+} from "./db";
+import { EXCHANGE_IDS, EXCHANGE_NAMES } from "@shared/exchanges";
+import { calculateContract } from "@shared/contractCalculator";
+import { buildRiskReport } from "@shared/riskReport";
+
+const exchangeInput = z.enum(EXCHANGE_IDS);
+// binance.* 保留原有的接口与返回格式，行情数据同样经由币安适配器获取
+const binanceAdapter = getExchangeAdapter("binance");
+const calculationName = z.string().trim().min(1).max(128);
+const calculationTags = z.array(z.string().trim().min(1).max(32)).max(10);
+
+const finiteNumber = z.number().finite();
+const positiveNumber = finiteNumber.positive();
+const rate = finiteNumber.min(-1).max(1);
+
+// 计算器参数（ContractParams），用于服务端重新计算
+const contractParamsInput = z.object({
+  openPrice: positiveNumber,
+  margin: positiveNumber,
+  leverage: positiveNumber.max(1000),
+  marginMode: z.enum(["isolated", "cross"]),
+  positionType: z.enum(["long", "short"]),
+  contractType: z.enum(["linear", "inverse"]).optional(),
+  contractSize: positiveNumber.optional(),
+  maintainanceRate: rate.optional(),
+  leverageBrackets: z
+    .array(
+      z.object({
+        bracket: z.number().int(),
+        initialLeverage: positiveNumber,
+        notionalFloor: finiteNumber.nonnegative(),
+        notionalCap: positiveNumber,
+        maintMarginRatio: rate,
+        cum: finiteNumber,
+      })
+    )
+    .max(100)
+    .optional(),
+  crossAccount: z
+    .object({
+      walletBalance: finiteNumber,
+      otherMaintenanceMargin: finiteNumber,
+      otherUnrealizedPnl: finiteNumber,
+    })
+    .optional(),
+  symbolFilters: z
+    .object({
+      tickSize: finiteNumber.nonnegative(),
+      stepSize: finiteNumber.nonnegative(),
+      minQty: finiteNumber.nonnegative(),
+      maxQty: finiteNumber.nonnegative(),
+      minNotional: finiteNumber.nonnegative(),
+    })
+    .optional(),
+  openFee: rate.optional(),
+  closeFee: rate.optional(),
+  fundingRate: rate.optional(),
+  fundingPeriodHours: positiveNumber.optional(),
+  accumulatedFunding: finiteNumber.optional(),
+  breakEvenBuffer: rate.optional(),
+});
+
+// 结果快照中的数值可能为无穷大（如不会爆仓、无法保本），写入JSON列后变为null，读取时还原
+const snapshotNumber = z
+  .union([z.number(), z.literal(Infinity), z.literal(-Infinity), z.null()])
+  .transform((value) => value ?? Infinity);
+
+// 计算结果快照（CalculationResultSnapshot），保存和载入历史记录时校验
+const calculationResultInput = z.object({
+  positionSize: snapshotNumber,
+  positionSizeInCoin: snapshotNumber,
+  contracts: snapshotNumber,
+  liquidationPrice: snapshotNumber,
+  liquidationPricePercent: snapshotNumber,
+  riskPercentage: snapshotNumber,
+  maxLoss: snapshotNumber,
+  maintenanceBracket: z.object({
+    bracket: z.number().int(),
+    initialLeverage: snapshotNumber,
+    notionalFloor: snapshotNumber,
+    notionalCap: snapshotNumber,
+    maintMarginRatio: snapshotNumber,
+    cum: snapshotNumber,
+  }),
+  maintenanceMargin: snapshotNumber,
+  maxLeverage: snapshotNumber,
+  openFeeAmount: snapshotNumber,
+  closeFeeAmount: snapshotNumber,
+  totalFeeAmount: snapshotNumber,
+  fundingFeePerPeriod: snapshotNumber,
+  fundingFeePerDay: snapshotNumber,
+  orderWarnings: z.array(z.string().max(256)).max(20),
+  breakEvenPrice: snapshotNumber,
+  breakEvenPriceWithBuffer: snapshotNumber,
+});
+
+/**
+ * 校验数据库中记录的参数和结果，结构不符（旧版本或被改动的数据）时返回 null
+ */
+function parseStoredCalculation<T extends { params: unknown; result: unknown }>(row: T) {
+  const params = contractParamsInput.safeParse(row.params);
+  const result = calculationResultInput.safeParse(row.result);
+  if (!params.success || !result.success) {
+    return null;
+  }
+  return { ...row, params: params.data, result: result.data };
+}
+
+/**
+ * 交易对是否在币安合约目录中，用于拒绝会占用上游连接或缓存的任意输入
+ */
+async function isListedSymbol(symbol: string, market: "usdm" | "coinm"): Promise<boolean> {
+  const symbols =
+    market === "coinm"
+      ? (await getCoinFuturesContracts()).map((c) => c.symbol)
+      : (await getSymbolCatalog()).map((s) => s.symbol);
+  return symbols.includes(symbol);
+}
+
+/**
+ * 上传导出文件，文件名只保留安全字符，并加随机前缀避免链接被猜到
+ */
+async function uploadExport(
+  userId: number,
+  fileName: string,
+  content: string | Uint8Array,
+  contentType: string
+) {
+  const safeName = fileName.replace(/[^\w.-]+/g, "_");
+  const key = `exports/${userId}/${nanoid(12)}-${safeName}`;
+  try {
+    // 文本文件注明编码，PDF等二进制文件原样上传
+    const type = typeof content === "string" ? `${contentType}; charset=utf-8` : contentType;
+    const { url } = await storagePut(key, content, type);
+    return { success: true, url };
+  } catch (error) {
+    console.error(`[API] Failed to upload export ${key}:`, error);
+    return { success: false, error: "Failed to upload export file" };
+  }
+}
 
 export const appRouter = router({
   system: systemRouter,
@@ -25,22 +189,456 @@ export const appRouter = router({
     }),
   }),
 
+  // 计算历史记录（需登录；未登录时前端保存在localStorage）
+  calculations: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      try {
+        const rows = await listCalculations(ctx.user.id);
+        const calculations = rows.flatMap((row) => {
+          const calculation = parseStoredCalculation(row);
+          if (!calculation) {
+            console.warn(`[API] Skipping malformed calculation ${row.id}`);
+            return [];
+          }
+          return [calculation];
+        });
+        return { success: true, calculations };
+      } catch (error) {
+        console.error("[API] Failed to list calculations:", error);
+        return { success: false, error: "Failed to load calculation history" };
+      }
+    }),
+
+    // 重新载入一条记录的完整参数和结果
+    get: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .query(async ({ ctx, input }) => {
+        try {
+          const row = await getCalculation(ctx.user.id, input.id);
+          if (!row) {
+            return { success: false, error: "Calculation not found" };
+          }
+          const calculation = parseStoredCalculation(row);
+          if (!calculation) {
+            console.warn(`[API] Calculation ${input.id} has malformed params or result`);
+            return { success: false, error: "Saved calculation is malformed" };
+          }
+          return { success: true, calculation };
+        } catch (error) {
+          console.error(`[API] Failed to load calculation ${input.id}:`, error);
+          return { success: false, error: "Failed to load calculation" };
+        }
+      }),
+
+    save: protectedProcedure
+      .input(
+        z.object({
+          name: calculationName,
+          exchange: exchangeInput,
+          symbol: z.string().min(1).max(64),
+          tags: calculationTags.default([]),
+          params: contractParamsInput,
+          result: calculationResultInput,
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const calculation = await createCalculation({
+            userId: ctx.user.id,
+            ...input,
+          });
+          return { success: true, calculation };
+        } catch (error) {
+          console.error("[API] Failed to save calculation:", error);
+          return { success: false, error: "Failed to save calculation" };
+        }
+      }),
+
+    rename: protectedProcedure
+      .input(z.object({ id: z.number().int(), name: calculationName }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const calculation = await updateCalculation(ctx.user.id, input.id, {
+            name: input.name,
+          });
+          if (!calculation) {
+            return { success: false, error: "Calculation not found" };
+          }
+          return { success: true, calculation };
+        } catch (error) {
+          console.error(`[API] Failed to rename calculation ${input.id}:`, error);
+          return { success: false, error: "Failed to rename calculation" };
+        }
+      }),
+
+    tag: protectedProcedure
+      .input(z.object({ id: z.number().int(), tags: calculationTags }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const calculation = await updateCalculation(ctx.user.id, input.id, {
+            tags: input.tags,
+          });
+          if (!calculation) {
+            return { success: false, error: "Calculation not found" };
+          }
+          return { success: true, calculation };
+        } catch (error) {
+          console.error(`[API] Failed to tag calculation ${input.id}:`, error);
+          return { success: false, error: "Failed to update tags" };
+        }
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({ id: z.number().int() }))
+      .mutation(async ({ ctx, input }) => {
+        try {
+          const deleted = await deleteCalculation(ctx.user.id, input.id);
+          if (!deleted) {
+            return { success: false, error: "Calculation not found" };
+          }
+          return { success: true };
+        } catch (error) {
+          console.error(`[API] Failed to delete calculation ${input.id}:`, error);
+          return { success: false, error: "Failed to delete calculation" };
+        }
+      }),
+  }),
+
+  // 导出文件上传到存储，返回可分享的下载链接（需登录）
+  exports: router({
+    // 客户端生成的数据文件（CSV、JSON）
+    share: protectedProcedure
+      .input(
+        z.object({
+          fileName: z.string().min(1).max(128),
+          contentType: z.enum(["text/csv", "application/json"]),
+          content: z.string().max(2 * 1024 * 1024),
+        })
+      )
+      .mutation(({ ctx, input }) =>
+        uploadExport(ctx.user.id, input.fileName, input.content, input.contentType)
+      ),
+
+    // 风险报告（PDF）由服务端按校验过的参数重新计算并生成，不接受客户端提交的HTML
+    shareReport: protectedProcedure
+      .input(
+        z.object({
+          exchange: exchangeInput,
+          symbol: z.string().regex(/^[A-Za-z0-9_-]{1,32}$/),
+          marginAsset: z.string().regex(/^[A-Z0-9]{1,16}$/),
+          params: contractParamsInput,
+          markPrice: positiveNumber.optional(),
+        })
+      )
+      .mutation(({ ctx, input }) => {
+        const report = buildRiskReport({
+          ...input,
+          result: calculateContract(input.params),
+        });
+        return uploadExport(ctx.user.id, report.fileName, report.content, report.contentType);
+      }),
+  }),
+
+  // 计算器状态短链接，未登录也可创建
+  shareLinks: router({
+    create: publicProcedure
+      .input(
+        z.object({
+          state: z.string().regex(/^\d+\.[\w-]+$/).max(20000),
+        })
+      )
+      .mutation(async ({ ctx, input }) => {
+        const code = nanoid(8);
+        try {
+          await createShareLink({
+            code,
+            state: input.state,
+            userId: ctx.user?.id ?? null,
+          });
+          return { success: true, code };
+        } catch (error) {
+          console.error("[API] Failed to create share link:", error);
+          return { success: false, error: "Failed to create short link" };
+        }
+      }),
+
+    resolve: publicProcedure
+      .input(z.object({ code: z.string().min(1).max(16) }))
+      .query(async ({ input }) => {
+        try {
+          const link = await getShareLink(input.code);
+          if (!link) {
+            return { success: false, error: "Short link not found" };
+          }
+          return { success: true, state: link.state };
+        } catch (error) {
+          console.error(`[API] Failed to resolve share link ${input.code}:`, error);
+          return { success: false, error: "Failed to resolve short link" };
+        }
+      }),
+  }),
+
+  // 多交易所U本位合约数据（币安、OKX、Bybit），按 exchange 参数选择适配器
+  exchange: router({
+    list: publicProcedure.query(() =>
+      EXCHANGE_IDS.map((id) => ({ id, name: EXCHANGE_NAMES[id] }))
+    ),
+
+    symbols: publicProcedure
+      .input(z.object({ exchange: exchangeInput }))
+      .query(async ({ input }) => {
+        try {
+          const symbols = await getExchangeAdapter(input.exchange).getSymbols();
+          return { success: true, symbols };
+        } catch (error) {
+          console.error(`[API] Failed to fetch ${input.exchange} symbols:`, error);
+          return {
+            success: false,
+            error: `Failed to fetch symbols from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    symbolInfo: publicProcedure
+      .input(z.object({ exchange: exchangeInput, symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const symbols = await getExchangeAdapter(input.exchange).getSymbols();
+          const info = symbols.find((s) => s.symbol === input.symbol);
+          if (!info) {
+            return { success: false, error: `Unknown symbol ${input.symbol}` };
+          }
+          return { success: true, info };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} symbol info for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch symbol info from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    price: publicProcedure
+      .input(z.object({ exchange: exchangeInput, symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const price = await getExchangeAdapter(input.exchange).getPrice(input.symbol);
+          return { success: true, price };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} price for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch price from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    markPrice: publicProcedure
+      .input(z.object({ exchange: exchangeInput, symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const mark = await getExchangeAdapter(input.exchange).getMarkPrice(
+            input.symbol
+          );
+          return {
+            success: true,
+            markPrice: mark.markPrice,
+            indexPrice: mark.indexPrice,
+            fundingRate: mark.fundingRate,
+            nextFundingTime: mark.nextFundingTime,
+          };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} mark price for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch mark price from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    // API密钥仅用于币安（查询账户的杠杆分层与费率）
+    brackets: publicProcedure
+      .input(
+        z.object({
+          exchange: exchangeInput,
+          symbol: z.string(),
+          apiKey: z.string().optional(),
+          apiSecret: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          const brackets = await getExchangeAdapter(input.exchange).getBrackets(
+            input.symbol,
+            { apiKey: input.apiKey, apiSecret: input.apiSecret }
+          );
+          return { success: true, brackets };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} brackets for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch leverage brackets from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    fees: publicProcedure
+      .input(
+        z.object({
+          exchange: exchangeInput,
+          symbol: z.string(),
+          apiKey: z.string().optional(),
+          apiSecret: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          const fees = await getExchangeAdapter(input.exchange).getFees(
+            input.symbol,
+            { apiKey: input.apiKey, apiSecret: input.apiSecret }
+          );
+          return {
+            success: true,
+            maker: fees.maker,
+            taker: fees.taker,
+            source: fees.source,
+          };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} fees for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch fees from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    fundingRate: publicProcedure
+      .input(z.object({ exchange: exchangeInput, symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const adapter = getExchangeAdapter(input.exchange);
+          const [mark, fundingIntervalHours] = await Promise.all([
+            adapter.getMarkPrice(input.symbol),
+            adapter.getFundingIntervalHours(input.symbol),
+          ]);
+          return {
+            success: true,
+            fundingRate: mark.fundingRate,
+            nextFundingTime: mark.nextFundingTime,
+            fundingIntervalHours,
+          };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} funding rate for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch funding rate from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+
+    fundingHistory: publicProcedure
+      .input(
+        z.object({
+          exchange: exchangeInput,
+          symbol: z.string(),
+          limit: z.number().int().min(1).max(MAX_FUNDING_HISTORY).optional(),
+          startTime: z.number().int().nonnegative().optional(),
+          endTime: z.number().int().nonnegative().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          const adapter = getExchangeAdapter(input.exchange);
+          const [history, fundingIntervalHours] = await Promise.all([
+            adapter.getFundingHistory(
+              input.symbol,
+              input.limit ?? 90,
+              input.startTime,
+              input.endTime
+            ),
+            adapter.getFundingIntervalHours(input.symbol),
+          ]);
+          return { success: true, history, fundingIntervalHours };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch ${input.exchange} funding history for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: `Failed to fetch funding history from ${EXCHANGE_NAMES[input.exchange]}`,
+          };
+        }
+      }),
+  }),
+
   binance: router({
-    // 获取主流币种列表
-    symbols: publicProcedure.query(() => {
-      const symbols = getMainSymbols();
-      return symbols.map((symbol) => ({
-        symbol,
-        displayName: getSymbolDisplayName(symbol),
-      }));
+    // 获取U本位合约交易对目录（exchangeInfo 不可用时退回主流币种列表）
+    symbols: publicProcedure.query(async () => {
+      try {
+        const catalog = await getSymbolCatalog();
+        return catalog.map((info) => ({
+          symbol: info.symbol,
+          displayName: getSymbolDisplayName(info.symbol, info),
+          info: info as FuturesSymbolInfo | undefined,
+        }));
+      } catch (error) {
+        console.error("[API] Failed to fetch symbol catalogue:", error);
+        return getMainSymbols().map((symbol) => ({
+          symbol,
+          displayName: getSymbolDisplayName(symbol),
+          info: undefined,
+        }));
+      }
     }),
 
+    // 获取单个交易对的精度与限制
+    symbolInfo: publicProcedure
+      .input(z.object({ symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const catalog = await getSymbolCatalog();
+          const info = catalog.find((s) => s.symbol === input.symbol);
+          if (!info) {
+            return { success: false, error: `Unknown symbol ${input.symbol}` };
+          }
+          return { success: true, info };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch symbol info for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: "Failed to fetch exchange info from Binance",
+          };
+        }
+      }),
+
     // 获取币种的实时价格
     price: publicProcedure
       .input(z.object({ symbol: z.string() }))
       .query(async ({ input }) => {
         try {
-          const price = await getBinancePrice(input.symbol);
+          const price = await binanceAdapter.getPrice(input.symbol);
           return { success: true, price };
         } catch (error) {
           console.error(
@@ -54,10 +652,11 @@ export const appRouter = router({
         }
       }),
 
-    // 获取交易手续费
+    // 获取交易对的账户实际手续费率（未提供API密钥时为标准费率，source 为 default）
     fees: publicProcedure
       .input(
         z.object({
+          symbol: z.string(),
           apiKey: z.string().optional(),
           apiSecret: z.string().optional(),
         })
@@ -75,14 +674,19 @@ export const appRouter = router({
             };
           }
 
-          const fees = await getBinanceFees(input.apiKey, input.apiSecret);
+          const fees = await binanceAdapter.getFees(input.symbol, {
+            apiKey: input.apiKey,
+            apiSecret: input.apiSecret,
+          });
           return {
             success: true,
-            makerCommission: fees.makerCommission,
-            takerCommission: fees.takerCommission,
+            symbol: input.symbol,
+            makerCommission: fees.maker,
+            takerCommission: fees.taker,
+            source: fees.source,
           };
         } catch (error) {
-          console.error("[API] Failed to fetch fees:", error);
+          console.error(`[API] Failed to fetch fees for ${input.symbol}:`, error);
           return {
             success: false,
             error: "Failed to fetch fees from Binance",
@@ -90,6 +694,79 @@ export const appRouter = router({
         }
       }),
 
+    // 通过用户的API密钥检测账户手续费VIP等级（不使用服务端配置的密钥）
+    feeTier: publicProcedure
+      .input(
+        z.object({
+          apiKey: z.string().min(1),
+          apiSecret: z.string().min(1),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          const feeTier = await getAccountFeeTier(input.apiKey, input.apiSecret);
+          return {
+            success: true,
+            feeTier,
+          };
+        } catch (error) {
+          console.error("[API] Failed to fetch fee tier:", error);
+          return {
+            success: false,
+            error: "Failed to fetch fee tier from Binance",
+          };
+        }
+      }),
+
+    // 用用户的API密钥导入账户当前持仓（不使用服务端配置的密钥），附带各交易对的杠杆分层用于核对爆仓价格
+    positions: publicProcedure
+      .input(
+        z.object({
+          apiKey: z.string().min(1),
+          apiSecret: z.string().min(1),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          const snapshot = await getAccountPositions(input.apiKey, input.apiSecret);
+          const symbols = Array.from(new Set(snapshot.positions.map((p) => p.symbol)));
+          const bracketEntries = await Promise.all(
+            symbols.map(async (symbol) => {
+              try {
+                const info = await getLeverageBrackets(
+                  symbol,
+                  input.apiKey,
+                  input.apiSecret
+                );
+                return [symbol, info.leverageBrackets] as const;
+              } catch {
+                return [symbol, undefined] as const;
+              }
+            })
+          );
+          const brackets = new Map<string, LeverageBracket[] | undefined>(
+            bracketEntries
+          );
+
+          return {
+            success: true,
+            feeTier: snapshot.feeTier,
+            crossWalletBalance: snapshot.crossWalletBalance,
+            crossUnrealizedPnl: snapshot.crossUnrealizedPnl,
+            positions: snapshot.positions.map((p) => ({
+              ...p,
+              leverageBrackets: brackets.get(p.symbol),
+            })),
+          };
+        } catch (error) {
+          console.error("[API] Failed to fetch account positions:", error);
+          return {
+            success: false,
+            error: "Failed to fetch positions from Binance",
+          };
+        }
+      }),
+
     // 获取杠杆交易维持保证金率
     leverageBrackets: publicProcedure
       .input(
@@ -112,22 +789,247 @@ export const appRouter = router({
             };
           }
 
-          const brackets = await getLeverageBrackets(
+          // 返回完整分层，由计算器按仓位名义价值选取对应分层
+          const brackets = await binanceAdapter.getBrackets(input.symbol, {
+            apiKey: input.apiKey,
+            apiSecret: input.apiSecret,
+          });
+          return { success: true, brackets };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch leverage brackets for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: "Failed to fetch leverage brackets from Binance",
+          };
+        }
+      }),
+
+    // 获取标记价格、指数价格与资金费率（强平以标记价格触发）
+    markPrice: publicProcedure
+      .input(z.object({ symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const mark = await binanceAdapter.getMarkPrice(input.symbol);
+          return {
+            success: true,
+            markPrice: mark.markPrice,
+            indexPrice: mark.indexPrice,
+            lastFundingRate: mark.fundingRate,
+            nextFundingTime: mark.nextFundingTime,
+          };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch mark price for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: "Failed to fetch mark price from Binance",
+          };
+        }
+      }),
+
+    // 实时标记价格与买一/卖一价（WebSocket 订阅，服务端每个交易对共享一条上游连接）
+    // 交易对须在合约目录中，避免任意输入占用上游连接
+    priceStream: publicProcedure
+      .input(
+        z.object({
+          symbol: z.string().regex(/^[A-Z0-9_]{1,32}$/),
+          market: z.enum(["usdm", "coinm"]).default("usdm"),
+        })
+      )
+      .subscription(async function* ({ input, signal }) {
+        if (!(await isListedSymbol(input.symbol, input.market))) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Unknown symbol ${input.symbol}`,
+          });
+        }
+
+        let stream: PriceStream;
+        try {
+          stream = acquirePriceStream(input.symbol, input.market);
+        } catch (error) {
+          console.error(`[API] Failed to open price stream for ${input.symbol}:`, error);
+          throw new TRPCError({
+            code: "TOO_MANY_REQUESTS",
+            message: "Too many live price streams, please try again later",
+          });
+        }
+        try {
+          // 先注册监听再推送已有行情，避免遗漏两者之间的更新
+          const updates = on(stream, "update", { signal });
+          const latest = stream.latest;
+          if (latest) yield latest;
+          for await (const [price] of updates) {
+            yield price as LivePrice;
+          }
+        } finally {
+          stream.release();
+        }
+      }),
+
+    // 获取当前资金费率和结算周期
+    fundingRate: publicProcedure
+      .input(z.object({ symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const [mark, fundingIntervalHours] = await Promise.all([
+            binanceAdapter.getMarkPrice(input.symbol),
+            binanceAdapter.getFundingIntervalHours(input.symbol),
+          ]);
+          return {
+            success: true,
+            fundingRate: mark.fundingRate,
+            nextFundingTime: mark.nextFundingTime,
+            fundingIntervalHours,
+          };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch funding rate for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: "Failed to fetch funding rate from Binance",
+          };
+        }
+      }),
+
+    // 获取历史资金费率（用于回放和回测）
+    fundingHistory: publicProcedure
+      .input(
+        z.object({
+          symbol: z.string(),
+          limit: z.number().int().min(1).max(MAX_FUNDING_HISTORY).optional(),
+          startTime: z.number().int().nonnegative().optional(),
+          endTime: z.number().int().nonnegative().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          const [history, fundingIntervalHours] = await Promise.all([
+            binanceAdapter.getFundingHistory(
+              input.symbol,
+              input.limit ?? 90,
+              input.startTime,
+              input.endTime
+            ),
+            binanceAdapter.getFundingIntervalHours(input.symbol),
+          ]);
+          return { success: true, history, fundingIntervalHours };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch funding history for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: "Failed to fetch funding history from Binance",
+          };
+        }
+      }),
+
+    // 获取K线（成交价或标记价格），超过1500根时自动分页，已收盘的K线从缓存读取；
+    // 分页中途失败时 complete 为 false，只返回已取得的部分
+    klines: publicProcedure
+      .input(
+        z.object({
+          symbol: z.string().regex(/^[A-Z0-9_]{1,32}$/),
+          interval: z.enum(KLINE_INTERVALS),
+          market: z.enum(["usdm", "coinm"]).optional(),
+          priceType: z.enum(["last", "mark"]).optional(),
+          startTime: z.number().int().nonnegative().optional(),
+          endTime: z.number().int().nonnegative().optional(),
+          limit: z.number().int().min(1).max(MAX_KLINES).optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          // 每个交易对和周期都有一份K线缓存，只接受合约目录中的交易对
+          if (!(await isListedSymbol(input.symbol, input.market ?? "usdm"))) {
+            return { success: false, error: `Unknown symbol ${input.symbol}` };
+          }
+          const { klines, complete } = await getKlines(input);
+          return { success: true, klines, complete };
+        } catch (error) {
+          console.error(`[API] Failed to fetch klines for ${input.symbol}:`, error);
+          return {
+            success: false,
+            error: "Failed to fetch klines from Binance",
+          };
+        }
+      }),
+
+    // 获取币本位合约列表
+    coinSymbols: publicProcedure.query(async () => {
+      try {
+        const contracts = await getCoinFuturesContracts();
+        return { success: true, contracts };
+      } catch (error) {
+        console.error("[API] Failed to fetch coin-M contracts:", error);
+        return {
+          success: false,
+          error: "Failed to fetch coin-M contracts from Binance",
+        };
+      }
+    }),
+
+    // 获取币本位合约的实时价格
+    coinPrice: publicProcedure
+      .input(z.object({ symbol: z.string() }))
+      .query(async ({ input }) => {
+        try {
+          const price = await getCoinFuturesPrice(input.symbol);
+          return { success: true, price };
+        } catch (error) {
+          console.error(
+            `[API] Failed to fetch coin-M price for ${input.symbol}:`,
+            error
+          );
+          return {
+            success: false,
+            error: "Failed to fetch price from Binance",
+          };
+        }
+      }),
+
+    // 获取币本位合约的杠杆分层（以币数量划分）
+    coinLeverageBrackets: publicProcedure
+      .input(
+        z.object({
+          symbol: z.string(),
+          apiKey: z.string().optional(),
+          apiSecret: z.string().optional(),
+        })
+      )
+      .query(async ({ input }) => {
+        try {
+          if (
+            (input.apiKey && !input.apiSecret) ||
+            (!input.apiKey && input.apiSecret)
+          ) {
+            return {
+              success: false,
+              error: "API key and secret must both be provided or both be empty",
+            };
+          }
+
+          const brackets = await getCoinLeverageBrackets(
             input.symbol,
             input.apiKey,
             input.apiSecret
           );
-          const lowestBracket =
-            brackets.leverageBrackets[brackets.leverageBrackets.length - 1];
           return {
             success: true,
-            maintMarginRatio: lowestBracket.maintMarginRatio,
-            initialLeverage: lowestBracket.initialLeverage,
             brackets: brackets.leverageBrackets,
           };
         } catch (error) {
           console.error(
-            `[API] Failed to fetch leverage brackets for ${input.symbol}:`,
+            `[API] Failed to fetch coin-M leverage brackets for ${input.symbol}:`,
             error
           );
           return {
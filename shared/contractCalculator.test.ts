@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateContract,
+  solveBreakEvenPrice,
+  type ContractParams,
+  type LeverageBracket,
+} from "./contractCalculator";
+
+// 币安 BTCUSDT 前三层杠杆分层
+const BRACKETS: LeverageBracket[] = [
+  { bracket: 1, initialLeverage: 125, notionalFloor: 0, notionalCap: 50000, maintMarginRatio: 0.004, cum: 0 },
+  { bracket: 2, initialLeverage: 100, notionalFloor: 50000, notionalCap: 250000, maintMarginRatio: 0.005, cum: 50 },
+  { bracket: 3, initialLeverage: 50, notionalFloor: 250000, notionalCap: Infinity, maintMarginRatio: 0.01, cum: 1300 },
+];
+
+const linear = (params: Partial<ContractParams>) =>
+  calculateContract({
+    openPrice: 60000,
+    margin: 1000,
+    leverage: 10,
+    marginMode: "isolated",
+    positionType: "long",
+    leverageBrackets: BRACKETS,
+    ...params,
+  });
+
+describe("calculateContract liquidation price", () => {
+  it("matches the isolated linear formula EP × (1 ∓ 1/L) / (1 ∓ MMR)", () => {
+    const long = linear({});
+    expect(long.liquidationPrice).toBeCloseTo((60000 * 0.9) / 0.996, 6);
+    expect(long.maintenanceBracket.bracket).toBe(1);
+
+    const short = linear({ positionType: "short" });
+    expect(short.liquidationPrice).toBeCloseTo((60000 * 1.1) / 1.004, 6);
+  });
+
+  it("moves to the bracket whose notional range contains the liquidation price", () => {
+    // 名义价值 100000：第1层求得的爆仓价对应名义价值约 90361，超出第1层上限
+    const result = linear({ margin: 10000 });
+    expect(result.maintenanceBracket.bracket).toBe(2);
+    // (WB + cum - Q × EP) / (Q × MMR - Q)，Q = 5/3
+    expect(result.liquidationPrice).toBeCloseTo(54241.20603015075, 6);
+  });
+
+  it("uses the whole wallet balance in cross mode", () => {
+    const result = linear({
+      margin: 500,
+      leverage: 20,
+      marginMode: "cross",
+      crossAccount: { walletBalance: 2000, otherMaintenanceMargin: 0, otherUnrealizedPnl: 0 },
+    });
+    expect(result.liquidationPrice).toBeCloseTo(48192.77108433736, 6);
+  });
+
+  it("solves inverse contracts with margin in coin", () => {
+    const base = {
+      openPrice: 60000,
+      margin: 0.01,
+      leverage: 20,
+      marginMode: "isolated" as const,
+      contractType: "inverse" as const,
+      maintainanceRate: 0.005,
+    };
+    // Size = 12000 USD，LP = Size × (MMR ± 1) / (WB ± Size / EP)
+    const long = calculateContract({ ...base, positionType: "long" });
+    expect(long.contracts).toBe(120);
+    expect(long.liquidationPrice).toBeCloseTo((12000 * 1.005) / 0.21, 6);
+
+    const short = calculateContract({ ...base, positionType: "short" });
+    expect(short.liquidationPrice).toBeCloseTo((12000 * 0.995) / 0.19, 6);
+
+    const unleveraged = calculateContract({ ...base, positionType: "short", leverage: 1 });
+    expect(unleveraged.liquidationPrice).toBe(Infinity);
+  });
+});
+
+describe("solveBreakEvenPrice", () => {
+  const fees = { openPrice: 60000, openFeeRate: 0.0002, closeFeeRate: 0.0005 };
+
+  it("covers both fees for linear contracts", () => {
+    expect(
+      solveBreakEvenPrice({ ...fees, contractType: "linear", positionType: "long", quantity: 1 })
+    ).toBeCloseTo((60000 * 1.0002) / 0.9995, 8);
+    expect(
+      solveBreakEvenPrice({ ...fees, contractType: "linear", positionType: "short", quantity: 1 })
+    ).toBeCloseTo((60000 * 0.9998) / 1.0005, 8);
+  });
+
+  it("spreads funding cost over the position quantity", () => {
+    const price = solveBreakEvenPrice({
+      ...fees,
+      contractType: "linear",
+      positionType: "long",
+      quantity: 0.5,
+      fundingCost: 6,
+    });
+    expect(price).toBeCloseTo((60000 * 1.0002 + 12) / 0.9995, 8);
+  });
+
+  it("solves inverse contracts in coin terms", () => {
+    expect(
+      solveBreakEvenPrice({ ...fees, contractType: "inverse", positionType: "long", quantity: 0.2 })
+    ).toBeCloseTo((60000 * 1.0005) / 0.9998, 8);
+    expect(
+      solveBreakEvenPrice({ ...fees, contractType: "inverse", positionType: "short", quantity: 0.2 })
+    ).toBeCloseTo((60000 * 0.9995) / 1.0002, 8);
+  });
+
+  it("agrees with the calculator result", () => {
+    const result = linear({ openFee: 0.0002, closeFee: 0.0005 });
+    expect(result.profitAtPrice(result.breakEvenPrice)).toBeCloseTo(0, 8);
+  });
+});
@@ -0,0 +1,570 @@
+/**
+ * 加密货币合约计算器核心逻辑
+ * 用于计算合约交易的关键参数
+ */
+
+/**
+ * 币安杠杆分层（维持保证金阶梯）
+ * 与 /fapi/v1/leverageBracket 返回的单个分层结构一致；
+ * 币本位分层（/dapi/v2/leverageBracket）的 qtyFloor/qtyCap 以币数量计，
+ * 映射到 notionalFloor/notionalCap，cum 也以币计
+ */
+export interface LeverageBracket {
+  bracket: number; // 层级
+  initialLeverage: number; // 该层允许的最大杠杆
+  notionalCap: number; // 名义价值上限
+  notionalFloor: number; // 名义价值下限
+  maintMarginRatio: number; // 维持保证金率
+  cum: number; // 维持保证金速算额
+}
+
+/**
+ * 全仓账户状态
+ * 全仓模式下，爆仓价格取决于整个账户的余额和其他仓位
+ */
+export interface CrossAccountState {
+  walletBalance: number; // 钱包余额（USD，不含未实现盈亏）
+  otherMaintenanceMargin: number; // 其他仓位的维持保证金合计
+  otherUnrealizedPnl: number; // 其他仓位的未实现盈亏合计
+}
+
+/**
+ * 合约类型
+ * - linear：U本位（USDT-M）正向合约，保证金和盈亏以USD计
+ * - inverse：币本位（COIN-M）反向合约，每张合约面值固定（USD），保证金和盈亏以币计
+ */
+export type ContractType = "linear" | "inverse";
+
+/**
+ * 交易所下单精度与限制（来自 exchangeInfo 的 PRICE_FILTER / LOT_SIZE / MIN_NOTIONAL）
+ * 币本位合约的数量单位为张
+ */
+export interface SymbolFilters {
+  tickSize: number; // 价格精度
+  stepSize: number; // 数量精度
+  minQty: number; // 最小下单数量
+  maxQty: number; // 最大下单数量
+  minNotional: number; // 最小名义价值（U本位）
+}
+
+export interface ContractParams {
+  // 基础参数
+  openPrice: number; // 开仓价格
+  margin: number; // 保证金（U本位为美元，币本位为币）
+  leverage: number; // 杠杆倍数
+  marginMode: "isolated" | "cross"; // 保证金模式
+  positionType: "long" | "short"; // 头寸类型（多头/空头）
+
+  // 可选参数
+  contractType?: ContractType; // 合约类型（默认U本位）
+  contractSize?: number; // 币本位合约面值（USD/张，默认100）
+  maintainanceRate?: number; // 维持保证金率（默认0.5%，未提供分层时使用）
+  leverageBrackets?: LeverageBracket[]; // 币安杠杆分层（提供时按名义价值选取分层）
+  crossAccount?: CrossAccountState; // 全仓账户状态（全仓模式下使用，缺省时按保证金计算）
+  symbolFilters?: SymbolFilters; // 交易所精度与限制（提供时数量和价格按交易所规则取整）
+  openFee?: number; // 开仓手续费率（默认0.02%）
+  closeFee?: number; // 平仓手续费率（默认0.02%）
+  fundingRate?: number; // 资金费率（默认0）
+  fundingPeriodHours?: number; // 资金费率周期（小时，默认8）
+  accumulatedFunding?: number; // 已累计支付的资金费（保证金币种，收取为负），计入保本价格
+  breakEvenBuffer?: number; // 保本价格缓冲比例（默认0，如0.001表示0.1%）
+}
+
+export interface CalculationResult {
+  // 头寸信息
+  positionSize: number; // 头寸大小（USD）
+  positionSizeInCoin: number; // 头寸大小（币数）
+  contracts: number; // 合约数量（U本位为币数，币本位为张数）
+  
+  // 爆仓相关
+  liquidationPrice: number; // 爆仓价格
+  liquidationPricePercent: number; // 爆仓价格相对于开仓价格的百分比变化
+  
+  // 风险相关
+  riskPercentage: number; // 风险百分比（价格需要变化多少才会爆仓）
+  maxLoss: number; // 最大损失（保证金币种）
+
+  // 维持保证金相关
+  maintenanceBracket: LeverageBracket; // 爆仓时适用的维持保证金分层
+  maintenanceMargin: number; // 开仓时的维持保证金（保证金币种）
+  maxLeverage: number; // 开仓名义价值所在分层允许的最大杠杆
+  
+  // 费用相关
+  openFeeAmount: number; // 开仓手续费
+  closeFeeAmount: number; // 平仓手续费（按开仓价格估算，实际按平仓价格收取）
+  totalFeeAmount: number; // 总手续费
+  
+  // 资金费率相关
+  fundingFeePerPeriod: number; // 每个周期的资金费
+  fundingFeePerDay: number; // 每天的资金费
+  
+  // 下单校验
+  orderWarnings: string[]; // 不满足交易所下单限制的提示
+
+  // 盈亏相关
+  breakEvenPrice: number; // 精确保本价格（开平仓手续费及累计资金费）
+  breakEvenPriceWithBuffer: number; // 叠加用户自定义缓冲后的保本价格
+  profitAtPrice: (price: number) => number; // 在某价格的盈利
+  profitPercentAtPrice: (price: number) => number; // 在某价格的盈利百分比
+}
+
+/**
+ * 计算合约交易的所有关键指标
+ */
+export function calculateContract(params: ContractParams): CalculationResult {
+  // 设置默认值
+  const maintainanceRate = params.maintainanceRate ?? 0.005; // 0.5%
+  const openFeeRate = params.openFee ?? 0.0002; // 0.02%
+  const closeFeeRate = params.closeFee ?? 0.0002; // 0.02%
+  const fundingRate = params.fundingRate ?? 0;
+  const fundingPeriodHours = params.fundingPeriodHours ?? 8;
+
+  const inverse = params.contractType === "inverse";
+  const contractSize = params.contractSize ?? 100;
+
+  // 基础计算
+  // 币本位的保证金以币计，名义价值 = 保证金 × 杠杆 × 开仓价格
+  const requestedSize = inverse
+    ? params.margin * params.leverage * params.openPrice
+    : params.margin * params.leverage;
+  const requestedContracts = inverse
+    ? requestedSize / contractSize
+    : requestedSize / params.openPrice;
+
+  // 按交易所数量精度向下取整，得到实际可下单的数量
+  const filters = params.symbolFilters;
+  const contracts = filters
+    ? roundToStep(requestedContracts, filters.stepSize, "floor")
+    : requestedContracts;
+  const positionSize = inverse
+    ? contracts * contractSize
+    : filters
+      ? contracts * params.openPrice
+      : requestedSize;
+  const positionSizeInCoin = positionSize / params.openPrice;
+
+  const orderWarnings: string[] = [];
+  if (filters) {
+    if (requestedContracts < filters.minQty || contracts <= 0) {
+      orderWarnings.push(
+        `下单数量 ${requestedContracts} 低于最小数量 ${filters.minQty}`
+      );
+    }
+    if (filters.maxQty > 0 && contracts > filters.maxQty) {
+      orderWarnings.push(
+        `下单数量 ${contracts} 超过最大数量 ${filters.maxQty}，需要拆单`
+      );
+    }
+    // 交易所按取整后的数量校验最小名义价值
+    if (!inverse && positionSize < filters.minNotional) {
+      orderWarnings.push(
+        `名义价值 ${positionSize.toFixed(2)} 低于最小名义价值 ${filters.minNotional}`
+      );
+    }
+  }
+  // 以保证金币种计的名义价值（手续费、资金费、维持保证金均按此计算）
+  const marginNotional = inverse ? positionSizeInCoin : positionSize;
+
+  // 手续费计算
+  const openFeeAmount = marginNotional * openFeeRate;
+  const closeFeeAmount = marginNotional * closeFeeRate;
+  const totalFeeAmount = openFeeAmount + closeFeeAmount;
+
+  // 承担亏损的余额：逐仓为仓位保证金，全仓为账户钱包余额扣除其他仓位的
+  // 维持保证金并计入其他仓位的未实现盈亏
+  const crossAccount =
+    params.marginMode === "cross" ? params.crossAccount : undefined;
+  const walletBalance = crossAccount
+    ? crossAccount.walletBalance -
+      crossAccount.otherMaintenanceMargin +
+      crossAccount.otherUnrealizedPnl
+    : params.margin;
+
+  // 爆仓价格计算（币安公式，含分层维持保证金速算额）
+  const brackets = params.leverageBrackets?.length
+    ? params.leverageBrackets
+    : [flatBracket(maintainanceRate)];
+  const { liquidationPrice, bracket: maintenanceBracket } =
+    solveLiquidationPrice({
+      contractType: params.contractType ?? "linear",
+      positionType: params.positionType,
+      openPrice: params.openPrice,
+      quantity: positionSizeInCoin,
+      walletBalance,
+      brackets,
+    });
+
+  // 开仓时所在分层的维持保证金
+  const entryBracket = findBracket(brackets, marginNotional);
+  const maintenanceMargin =
+    marginNotional * entryBracket.maintMarginRatio - entryBracket.cum;
+  const maxLeverage = entryBracket.initialLeverage;
+
+  // 风险百分比（价格需要变化多少才会爆仓）
+  const priceChange = Math.abs(liquidationPrice - params.openPrice);
+  const riskPercentage = (priceChange / params.openPrice) * 100;
+
+  // 最大损失（在逐仓模式下就是保证金，在全仓模式下是账户权益）
+  const maxLoss = crossAccount
+    ? crossAccount.walletBalance + crossAccount.otherUnrealizedPnl
+    : params.margin;
+
+  // 资金费率相关计算
+  const fundingFeePerPeriod = marginNotional * fundingRate;
+  const fundingFeePerDay = (fundingFeePerPeriod / fundingPeriodHours) * 24;
+
+  // 保本价格（开仓手续费、按平仓价格收取的平仓手续费以及累计资金费）
+  const accumulatedFunding = params.accumulatedFunding ?? 0;
+  const breakEvenPrice = solveBreakEvenPrice({
+    contractType: params.contractType ?? "linear",
+    positionType: params.positionType,
+    openPrice: params.openPrice,
+    quantity: positionSizeInCoin,
+    openFeeRate,
+    closeFeeRate,
+    fundingCost: accumulatedFunding,
+  });
+  // 用户自定义的保本缓冲，叠加在精确保本价格之上
+  const breakEvenBuffer = params.breakEvenBuffer ?? 0;
+  const breakEvenPriceWithBuffer =
+    params.positionType === "long"
+      ? breakEvenPrice * (1 + breakEvenBuffer)
+      : breakEvenPrice * (1 - breakEvenBuffer);
+
+  // 盈亏计算函数（平仓手续费按平仓价格处的名义价值收取）
+  const profitAtPrice = (price: number): number => {
+    const side = params.positionType === "long" ? 1 : -1;
+    let profit: number;
+    if (inverse) {
+      // 币本位：盈亏 = 方向 × 名义价值 × (1/开仓价格 - 1/当前价格)
+      profit =
+        side * positionSize * (1 / params.openPrice - 1 / price) -
+        openFeeAmount -
+        (positionSize / price) * closeFeeRate;
+    } else {
+      profit =
+        side * (price - params.openPrice) * positionSizeInCoin -
+        openFeeAmount -
+        positionSizeInCoin * price * closeFeeRate;
+    }
+    return profit - accumulatedFunding;
+  };
+
+  const profitPercentAtPrice = (price: number): number => {
+    const profit = profitAtPrice(price);
+    return (profit / params.margin) * 100;
+  };
+
+  // 爆仓价格相对于开仓价格的百分比变化
+  const liquidationPricePercent =
+    ((liquidationPrice - params.openPrice) / params.openPrice) * 100;
+
+  // 按交易所价格精度取整，均向对持仓不利的方向取整
+  const tickSize = filters?.tickSize;
+  const roundPrice = (price: number, adverseUp: boolean) =>
+    tickSize && isFinite(price)
+      ? roundToStep(price, tickSize, adverseUp ? "ceil" : "floor")
+      : price;
+  const isLong = params.positionType === "long";
+
+  return {
+    positionSize,
+    positionSizeInCoin,
+    contracts,
+    liquidationPrice: roundPrice(liquidationPrice, isLong),
+    liquidationPricePercent,
+    riskPercentage,
+    maxLoss,
+    maintenanceBracket,
+    maintenanceMargin,
+    maxLeverage,
+    openFeeAmount,
+    closeFeeAmount,
+    totalFeeAmount,
+    fundingFeePerPeriod,
+    fundingFeePerDay,
+    orderWarnings,
+    breakEvenPrice: roundPrice(breakEvenPrice, isLong),
+    breakEvenPriceWithBuffer: roundPrice(breakEvenPriceWithBuffer, isLong),
+    profitAtPrice,
+    profitPercentAtPrice,
+  };
+}
+
+/**
+ * 构造单一维持保证金率的分层（未获取到币安分层时使用）
+ */
+function flatBracket(maintMarginRatio: number): LeverageBracket {
+  return {
+    bracket: 1,
+    initialLeverage: 125,
+    notionalCap: Infinity,
+    notionalFloor: 0,
+    maintMarginRatio,
+    cum: 0,
+  };
+}
+
+/**
+ * 计算步长对应的小数位数（如 0.001 → 3，0.5 → 1）
+ */
+export function decimalsForStep(step: number): number {
+  if (!(step > 0)) return 0;
+  let decimals = 0;
+  while (
+    decimals < 12 &&
+    Math.abs(Math.round(step * 10 ** decimals) - step * 10 ** decimals) > 1e-9
+  ) {
+    decimals++;
+  }
+  return decimals;
+}
+
+/**
+ * 按交易所步长取整（tickSize / stepSize）
+ */
+export function roundToStep(
+  value: number,
+  step: number,
+  mode: "floor" | "ceil" | "round" = "round"
+): number {
+  if (!(step > 0)) return value;
+  // 加入微小容差，避免 0.3 / 0.1 = 2.9999999 之类的浮点误差
+  const ratio = value / step;
+  const steps =
+    mode === "floor"
+      ? Math.floor(ratio + 1e-9)
+      : mode === "ceil"
+        ? Math.ceil(ratio - 1e-9)
+        : Math.round(ratio);
+  return parseFloat((steps * step).toFixed(decimalsForStep(step)));
+}
+
+/**
+ * 根据名义价值选取对应的杠杆分层
+ * 超出最高分层上限时返回最高分层
+ */
+export function findBracket(
+  brackets: LeverageBracket[],
+  notional: number
+): LeverageBracket {
+  const sorted = [...brackets].sort((a, b) => a.notionalFloor - b.notionalFloor);
+  const match = sorted.find(
+    (b) => notional >= b.notionalFloor && notional < b.notionalCap
+  );
+  return match ?? sorted[sorted.length - 1];
+}
+
+interface LiquidationInput {
+  contractType: ContractType;
+  positionType: "long" | "short";
+  openPrice: number;
+  quantity: number; // 持仓数量（币）
+  walletBalance: number; // 可用于承担亏损的余额（保证金币种；逐仓即保证金，全仓已扣除其他仓位）
+  brackets: LeverageBracket[];
+}
+
+/**
+ * 按币安强平公式求解爆仓价格
+ *
+ * U本位：LP = (WB - TMM + UPNL + cum - side × Q × EP) / (Q × MMR - side × Q)
+ * 币本位：LP = (Size × MMR + side × Size) / (WB - TMM + UPNL + cum + side × Size / EP)
+ *
+ * 其中 Q 为币数量，Size 为名义价值（USD），TMM、UPNL 为全仓下其他仓位的
+ * 维持保证金和未实现盈亏，调用方已将其并入 walletBalance；逐仓时二者为0。
+ *
+ * 维持保证金率取决于爆仓价格处的名义价值（币本位为币数量），因此逐层尝试，
+ * 直到求得的爆仓价格落在所用分层的区间内。
+ */
+function solveLiquidationPrice(input: LiquidationInput): {
+  liquidationPrice: number;
+  bracket: LeverageBracket;
+} {
+  const side = input.positionType === "long" ? 1 : -1;
+  const inverse = input.contractType === "inverse";
+  const q = input.quantity;
+  if (!(q > 0)) {
+    return { liquidationPrice: 0, bracket: findBracket(input.brackets, 0) };
+  }
+  const size = q * input.openPrice;
+  const wb = input.walletBalance;
+
+  const solve = (b: LeverageBracket): number => {
+    if (inverse) {
+      const denominator = wb + b.cum + (side * size) / input.openPrice;
+      // 空头分子为负，分母不为负说明价格再高也不会爆仓（如1倍币本位空头）
+      if (side * denominator <= 0) return Infinity;
+      return Math.max(
+        0,
+        (size * b.maintMarginRatio + side * size) / denominator
+      );
+    }
+    return Math.max(
+      0,
+      (wb + b.cum - side * q * input.openPrice) /
+        (q * b.maintMarginRatio - side * q)
+    );
+  };
+  // 分层所依据的数值：U本位为USD名义价值，币本位为币数量
+  const bracketValueAt = (price: number) => (inverse ? size / price : price * q);
+
+  const sorted = [...input.brackets].sort(
+    (a, b) => a.notionalFloor - b.notionalFloor
+  );
+  for (const bracket of sorted) {
+    const price = solve(bracket);
+    const value = bracketValueAt(price);
+    if (value >= bracket.notionalFloor && value < bracket.notionalCap) {
+      return { liquidationPrice: price, bracket };
+    }
+  }
+
+  // 没有自洽的分层时，退回开仓时所在的分层
+  const bracket = findBracket(sorted, inverse ? q : size);
+  return { liquidationPrice: solve(bracket), bracket };
+}
+
+export interface BreakEvenInput {
+  contractType: ContractType;
+  positionType: "long" | "short";
+  openPrice: number;
+  quantity: number; // 持仓数量（币）
+  openFeeRate: number;
+  closeFeeRate: number;
+  fundingCost?: number; // 需要额外覆盖的资金费（保证金币种，收取为负）
+}
+
+/**
+ * 求解精确保本价格：平仓后盈亏恰好覆盖开仓手续费、平仓手续费和资金费
+ *
+ * U本位（F 为资金费，Q 为币数量）：
+ *   多头 P = (EP × (1 + 开仓费率) + F / Q) / (1 - 平仓费率)
+ *   空头 P = (EP × (1 - 开仓费率) - F / Q) / (1 + 平仓费率)
+ * 币本位（Size 为名义价值USD，F 以币计）：
+ *   多头 P = Size × (1 + 平仓费率) / (Size × (1 - 开仓费率) / EP - F)
+ *   空头 P = Size × (1 - 平仓费率) / (Size × (1 + 开仓费率) / EP + F)
+ */
+export function solveBreakEvenPrice(input: BreakEvenInput): number {
+  const { openPrice: ep, quantity: q, openFeeRate: fo, closeFeeRate: fc } = input;
+  const funding = input.fundingCost ?? 0;
+  if (!(q > 0)) return ep;
+
+  if (input.contractType === "inverse") {
+    const size = q * ep;
+    const denominator =
+      input.positionType === "long"
+        ? (size * (1 - fo)) / ep - funding
+        : (size * (1 + fo)) / ep + funding;
+    // 分母不为正说明资金费已超过全部名义价值，价格无法回本
+    if (denominator <= 0) return Infinity;
+    return input.positionType === "long"
+      ? (size * (1 + fc)) / denominator
+      : (size * (1 - fc)) / denominator;
+  }
+
+  return input.positionType === "long"
+    ? (ep * (1 + fo) + funding / q) / (1 - fc)
+    : (ep * (1 - fo) - funding / q) / (1 + fc);
+}
+
+/**
+ * 计算标记价格距离爆仓价格的百分比
+ * 币安以标记价格触发强平，结果为正表示尚未爆仓
+ */
+export function liquidationDistancePercent(
+  liquidationPrice: number,
+  markPrice: number,
+  positionType: "long" | "short"
+): number {
+  if (markPrice <= 0) return 0;
+  const distance =
+    positionType === "long"
+      ? markPrice - liquidationPrice
+      : liquidationPrice - markPrice;
+  return (distance / markPrice) * 100;
+}
+
+/**
+ * 根据目标爆仓价格反推杠杆倍数
+ */
+export function calculateLeverageFromLiquidationPrice(
+  openPrice: number,
+  targetLiquidationPrice: number,
+  positionType: "long" | "short",
+  maintainanceRate: number = 0.005
+): number {
+  // 根据爆仓价格公式反推杠杆（单一维持保证金率，速算额为0）
+  // 多头：liquidationPrice = openPrice * (1 - 1/leverage) / (1 - maintainanceRate)
+  // 空头：liquidationPrice = openPrice * (1 + 1/leverage) / (1 + maintainanceRate)
+
+  const ratio = targetLiquidationPrice / openPrice;
+  if (positionType === "long") {
+    const leverage = 1 / (1 - ratio * (1 - maintainanceRate));
+    return Math.max(1, leverage); // 杠杆至少为1
+  } else {
+    const leverage = 1 / (ratio * (1 + maintainanceRate) - 1);
+    return Math.max(1, leverage);
+  }
+}
+
+/**
+ * 根据目标风险百分比反推杠杆倍数
+ */
+export function calculateLeverageFromRiskPercentage(
+  riskPercentage: number,
+  positionType: "long" | "short",
+  maintainanceRate: number = 0.005
+): number {
+  // 多头：风险百分比 = (1/leverage - maintainanceRate) / (1 - maintainanceRate) * 100
+  // 空头：风险百分比 = (1/leverage - maintainanceRate) / (1 + maintainanceRate) * 100
+
+  const risk = riskPercentage / 100;
+  const inverseLeverage =
+    positionType === "long"
+      ? risk * (1 - maintainanceRate) + maintainanceRate
+      : risk * (1 + maintainanceRate) + maintainanceRate;
+  const leverage = 1 / inverseLeverage;
+  return Math.max(1, leverage);
+}
+
+/**
+ * 格式化数字为美元或百分比
+ */
+export function formatCurrency(value: number, decimals: number = 2): string {
+  return `$${value.toFixed(decimals)}`;
+}
+
+export function formatPercent(value: number, decimals: number = 2): string {
+  return `${value.toFixed(decimals)}%`;
+}
+
+/**
+ * 按保证金币种格式化金额（USD显示为美元，其他币种附加币种名称）
+ */
+export function formatAmount(
+  value: number,
+  asset: string = "USD",
+  decimals?: number
+): string {
+  if (asset === "USD") {
+    return formatCurrency(value, decimals ?? 2);
+  }
+  return `${value.toFixed(decimals ?? 6)} ${asset}`;
+}
+
+/**
+ * 格式化价格
+ * 未指定小数位时按数值大小自动选择，保证低价币（如 SHIB、PEPE）至少显示4位有效数字
+ */
+export function formatPrice(value: number, decimals?: number): string {
+  if (decimals !== undefined) {
+    return value.toFixed(decimals);
+  }
+  const abs = Math.abs(value);
+  if (abs >= 1 || abs === 0 || !isFinite(abs)) {
+    return value.toFixed(2);
+  }
+  const auto = Math.min(12, Math.ceil(-Math.log10(abs)) + 3);
+  return value.toFixed(auto);
+}
+
@@ -0,0 +1,19 @@
+/**
+ * 支持的交易所
+ */
+export const EXCHANGE_IDS = ["binance", "okx", "bybit"] as const;
+
+export type ExchangeId = (typeof EXCHANGE_IDS)[number];
+
+export const EXCHANGE_NAMES: Record<ExchangeId, string> = {
+  binance: "币安 Binance",
+  okx: "欧易 OKX",
+  bybit: "Bybit",
+};
+
+// 切换交易所时默认选中的交易对（各交易所的交易对命名不同）
+export const DEFAULT_EXCHANGE_SYMBOLS: Record<ExchangeId, string> = {
+  binance: "BTCUSDT",
+  okx: "BTC-USDT-SWAP",
+  bybit: "BTCUSDT",
+};
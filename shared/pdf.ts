@@ -0,0 +1,159 @@
+/**
+ * 最小的PDF生成器：A4页面上的文字和线条，客户端和服务端共用
+ * 中文使用阅读器内置的 STSong-Light（Adobe-GB1）字体，不嵌入字体文件
+ * 坐标以页面左上角为原点、向下为正，单位为pt
+ */
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+export type PdfColor = [number, number, number]; // RGB，0-1
+
+export type PdfOp =
+  | { type: "text"; x: number; y: number; text: string; size: number; color?: PdfColor }
+  | {
+      type: "line";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      width?: number;
+      color?: PdfColor;
+    };
+
+const FONT_NAME = "STSong-Light";
+
+// STSong-Light 中 ASCII 字符（U+0020-U+007E，CID 1-95）的字宽，其余字符为全角（1000）
+const ASCII_WIDTHS = [
+  207, 270, 342, 467, 462, 797, 710, 239, 374, 374, 423, 605, 238, 375, 238, 334, 462, 462, 462,
+  462, 462, 462, 462, 462, 462, 462, 238, 238, 605, 605, 605, 344, 748, 684, 560, 695, 739, 563,
+  511, 729, 793, 318, 312, 666, 526, 896, 758, 772, 544, 772, 628, 465, 607, 753, 711, 972, 647,
+  620, 607, 374, 333, 374, 606, 500, 239, 417, 503, 427, 529, 415, 264, 444, 518, 241, 230, 495,
+  228, 793, 527, 524, 524, 504, 338, 336, 277, 517, 450, 652, 466, 452, 407, 370, 258, 370, 605,
+];
+
+function charWidth(code: number): number {
+  return code >= 0x20 && code <= 0x7e ? ASCII_WIDTHS[code - 0x20] : 1000;
+}
+
+/**
+ * 文字宽度（pt），用于对齐和换行
+ */
+export function pdfTextWidth(text: string, size: number): number {
+  let width = 0;
+  for (let i = 0; i < text.length; i++) {
+    width += charWidth(text.charCodeAt(i));
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * 按宽度折行，中文逐字断开，英文和数字尽量在空格处断开
+ */
+export function wrapPdfText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const char of text) {
+    if (line && pdfTextWidth(line + char, size) > maxWidth) {
+      const space = line.lastIndexOf(" ");
+      if (space > 0 && /[\x21-\x7e]/.test(char) && /[\x21-\x7e]$/.test(line)) {
+        lines.push(line.slice(0, space));
+        line = line.slice(space + 1);
+      } else {
+        lines.push(line);
+        line = "";
+      }
+      if (char === " ") continue;
+    }
+    line += char;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// UniGB-UCS2-H 编码：UTF-16BE 十六进制字符串，基本平面以外的字符替换为“?”
+function encodeText(text: string): string {
+  let hex = "";
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const ucs2 = code >= 0xd800 && code <= 0xdfff ? 0x3f : code;
+    hex += ucs2.toString(16).padStart(4, "0");
+  }
+  return `<${hex}>`;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function color(rgb: PdfColor | undefined, operator: "rg" | "RG"): string {
+  const [r, g, b] = rgb ?? [0, 0, 0];
+  return `${num(r)} ${num(g)} ${num(b)} ${operator}`;
+}
+
+function renderOp(op: PdfOp): string {
+  if (op.type === "text") {
+    const y = PDF_PAGE_HEIGHT - op.y;
+    return `BT /F1 ${num(op.size)} Tf ${color(op.color, "rg")} ${num(op.x)} ${num(y)} Td ${encodeText(
+      op.text
+    )} Tj ET`;
+  }
+  return `${color(op.color, "RG")} ${num(op.width ?? 0.5)} w ${num(op.x1)} ${num(
+    PDF_PAGE_HEIGHT - op.y1
+  )} m ${num(op.x2)} ${num(PDF_PAGE_HEIGHT - op.y2)} l S`;
+}
+
+/**
+ * 生成PDF文件，每个元素是一页的绘制操作
+ * 文字都编码为十六进制，文件内容全部是ASCII，偏移量可直接按字符计算
+ */
+export function buildPdf(pages: PdfOp[][], title: string): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const add = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalog = add("");
+  const pageTree = add("");
+  const descriptor = add(
+    `<< /Type /FontDescriptor /FontName /${FONT_NAME} /Flags 6 /FontBBox [-25 -254 1000 880] ` +
+      "/ItalicAngle 0 /Ascent 752 /Descent -271 /CapHeight 737 /StemV 58 >>"
+  );
+  const cidFont = add(
+    `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${FONT_NAME} ` +
+      "/CIDSystemInfo << /Registry (Adobe) /Ordering (GB1) /Supplement 2 >> " +
+      `/FontDescriptor ${descriptor} 0 R /DW 1000 /W [1 [${ASCII_WIDTHS.join(" ")}]] >>`
+  );
+  const font = add(
+    `<< /Type /Font /Subtype /Type0 /BaseFont /${FONT_NAME} /Encoding /UniGB-UCS2-H ` +
+      `/DescendantFonts [${cidFont} 0 R] >>`
+  );
+  const info = add(`<< /Title ${encodeText("\uFEFF" + title)} /Producer (crypto_futures_calc) >>`);
+
+  const kids = (pages.length > 0 ? pages : [[]]).map((ops) => {
+    const stream = ops.map(renderOp).join("\n");
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(
+      `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${font} 0 R >> >> /Contents ${content} 0 R >>`
+    );
+  });
+  objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+  objects[pageTree - 1] = `<< /Type /Pages /Kids [${kids
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${kids.length} >>`;
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\n`;
+  pdf += `startxref\n${xref}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { calculateContract, type ContractParams } from "./contractCalculator";
+import { buildRiskReport, calculationWarnings, pnlScenarios } from "./riskReport";
+
+const params: ContractParams = {
+  openPrice: 60000,
+  margin: 1000,
+  leverage: 10,
+  marginMode: "isolated",
+  positionType: "long",
+  openFee: 0.0005,
+  closeFee: 0.0005,
+};
+
+const input = (overrides: Partial<ContractParams> = {}, markPrice?: number) => {
+  const merged = { ...params, ...overrides };
+  return {
+    exchange: "binance" as const,
+    symbol: "BTCUSDT",
+    marginAsset: "USD",
+    params: merged,
+    result: calculateContract(merged),
+    markPrice,
+  };
+};
+
+// UniGB-UCS2-H 编码下文字以 UTF-16BE 十六进制写入内容流
+const hex = (text: string) =>
+  [...text].map((c) => c.charCodeAt(0).toString(16).padStart(4, "0")).join("");
+
+describe("pnlScenarios", () => {
+  it("adds break-even and liquidation prices and sorts by price", () => {
+    const { params, result } = input();
+    const scenarios = pnlScenarios(params, result);
+    expect(scenarios.map((s) => s.label)).toContain("保本价格");
+    // 10x 多头的爆仓价格位于 -10% 和 -5% 之间
+    expect(scenarios.map((s) => s.label).slice(0, 3)).toEqual(["-20%", "-10%", "爆仓价格"]);
+    expect(scenarios.map((s) => s.price)).toEqual([...scenarios.map((s) => s.price)].sort((a, b) => a - b));
+    const up = scenarios.find((s) => s.label === "+10%")!;
+    expect(up.pnl).toBeCloseTo(result.profitAtPrice(66000), 8);
+  });
+});
+
+describe("calculationWarnings", () => {
+  it("warns about bracket leverage and a mark price close to liquidation", () => {
+    const risky = input({ leverage: 200 });
+    const warnings = calculationWarnings({ ...risky, markPrice: risky.result.liquidationPrice * 1.01 });
+    expect(warnings.some((w) => w.includes(`${risky.result.maxLeverage}x`))).toBe(true);
+    expect(warnings.some((w) => w.startsWith("标记价格距爆仓价格仅"))).toBe(true);
+    expect(warnings.at(-1)).toContain("高杠杆");
+  });
+});
+
+describe("buildRiskReport", () => {
+  it("produces a PDF whose cross-reference table points at every object", () => {
+    const report = buildRiskReport(input({}, 61000));
+    expect(report.contentType).toBe("application/pdf");
+    expect(report.fileName).toMatch(/^BTCUSDT-risk-report-.*\.pdf$/);
+
+    const pdf = new TextDecoder().decode(report.content);
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+
+    const xref = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+    expect(pdf.slice(xref, xref + 4)).toBe("xref");
+    const entries = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    expect(entries.length).toBeGreaterThan(6);
+    entries.forEach((offset, i) => {
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj\n`)).toBe(true);
+    });
+
+    for (const match of pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g)) {
+      const start = match.index! + match[0].length;
+      expect(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe("\nendstream");
+    }
+  });
+
+  it("writes the sections, scenarios and warnings as text", () => {
+    const data = input({ leverage: 200 });
+    const pdf = new TextDecoder().decode(buildRiskReport(data).content);
+    expect(pdf).toContain("/Encoding /UniGB-UCS2-H");
+    for (const text of ["BTCUSDT 多头 200x 风险报告", "输入参数", "盈亏情景", "风险提示", "+10%"]) {
+      expect(pdf).toContain(`<${hex(text)}>`);
+    }
+    expect(pdf).toContain(hex("当前杠杆无法在交易所开仓"));
+  });
+
+  it("continues long warning lists on a new page", () => {
+    const data = input();
+    const result = { ...data.result, orderWarnings: Array.from({ length: 60 }, (_, i) => `下单提示 ${i + 1}`) };
+    const pdf = new TextDecoder().decode(buildRiskReport({ ...data, result }).content);
+    expect(pdf).toMatch(/\/Type \/Pages \/Kids \[\d+ 0 R \d+ 0 R.*\] \/Count [2-9]/);
+    expect(pdf).toContain(`<${hex("下单提示 60")}>`);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * 风险报告：输入、爆仓、手续费、资金费、盈亏情景与风险提示，生成A4排版的PDF
+ * 客户端下载和服务端生成分享文件使用同一份代码
+ */
+
+import { EXCHANGE_NAMES, type ExchangeId } from "./exchanges";
+import {
+  formatPercent,
+  formatPrice,
+  type CalculationResult,
+  type ContractParams,
+} from "./contractCalculator";
+import {
+  buildPdf,
+  wrapPdfText,
+  PDF_PAGE_HEIGHT,
+  PDF_PAGE_WIDTH,
+  type PdfColor,
+  type PdfOp,
+} from "./pdf";
+
+export type ExportContentType = "text/csv" | "application/json" | "application/pdf";
+
+export interface ExportFile<T extends ExportContentType = ExportContentType> {
+  fileName: string;
+  contentType: T;
+  content: T extends "application/pdf" ? Uint8Array<ArrayBuffer> : string; // PDF为二进制，其余为文本
+}
+
+export interface CalculationExportInput {
+  exchange: ExchangeId;
+  symbol: string;
+  marginAsset: string; // 保证金币种（U本位为USD）
+  params: ContractParams;
+  result: CalculationResult;
+  markPrice?: number;
+}
+
+export interface PnlScenario {
+  label: string;
+  price: number;
+  pnl: number;
+  roe: number; // 收益率（相对保证金，%）
+}
+
+export type ReportCell = string | number | null | undefined;
+
+export interface ReportSection {
+  title: string;
+  rows: [string, ReportCell][];
+}
+
+// 盈亏情景使用的价格变化幅度（%）
+const SCENARIO_MOVES = [-20, -10, -5, -2, 2, 5, 10, 20];
+
+export function exportTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+}
+
+/**
+ * 盈亏情景：按固定涨跌幅计算，并加入保本价格和爆仓价格
+ */
+export function pnlScenarios(params: ContractParams, result: CalculationResult): PnlScenario[] {
+  const scenarios = SCENARIO_MOVES.map((move) => {
+    const price = params.openPrice * (1 + move / 100);
+    return {
+      label: `${move > 0 ? "+" : ""}${move}%`,
+      price,
+      pnl: result.profitAtPrice(price),
+      roe: result.profitPercentAtPrice(price),
+    };
+  });
+  if (isFinite(result.breakEvenPrice)) {
+    scenarios.push({
+      label: "保本价格",
+      price: result.breakEvenPrice,
+      pnl: result.profitAtPrice(result.breakEvenPrice),
+      roe: result.profitPercentAtPrice(result.breakEvenPrice),
+    });
+  }
+  if (result.liquidationPrice > 0) {
+    scenarios.push({
+      label: "爆仓价格",
+      price: result.liquidationPrice,
+      pnl: result.profitAtPrice(result.liquidationPrice),
+      roe: result.profitPercentAtPrice(result.liquidationPrice),
+    });
+  }
+  return scenarios.sort((a, b) => a.price - b.price);
+}
+
+/**
+ * 需要提示的风险：交易所下单限制、分层杠杆上限和标记价格距爆仓过近
+ */
+export function calculationWarnings(input: CalculationExportInput): string[] {
+  const { params, result, markPrice } = input;
+  const warnings = [...result.orderWarnings];
+  if (params.leverage > result.maxLeverage) {
+    warnings.push(
+      `头寸价值所在分层最高只允许 ${result.maxLeverage}x 杠杆，当前杠杆无法在交易所开仓`
+    );
+  }
+  if (markPrice !== undefined && result.liquidationPrice > 0) {
+    const distance = Math.abs(markPrice - result.liquidationPrice) / markPrice * 100;
+    if (distance < 5) {
+      warnings.push(`标记价格距爆仓价格仅 ${formatPercent(distance)}`);
+    }
+  }
+  warnings.push("加密货币市场波动性极高，使用高杠杆会显著增加爆仓风险");
+  return warnings;
+}
+
+/**
+ * 计算结果的分项数据（分类、项目、数值），CSV和报告共用
+ */
+export function summarySections(input: CalculationExportInput): ReportSection[] {
+  const { exchange, symbol, marginAsset, params, result, markPrice } = input;
+  return [
+    {
+      title: "输入参数",
+      rows: [
+        ["交易所", EXCHANGE_NAMES[exchange]],
+        ["交易对", symbol],
+        ["合约类型", params.contractType === "inverse" ? "币本位" : "U本位"],
+        ["方向", params.positionType === "long" ? "多头" : "空头"],
+        ["保证金模式", params.marginMode === "isolated" ? "逐仓" : "全仓"],
+        ["开仓价格", params.openPrice],
+        [`保证金 (${marginAsset})`, params.margin],
+        ["杠杆倍数", params.leverage],
+        ["开仓手续费率 (%)", (params.openFee ?? 0) * 100],
+        ["平仓手续费率 (%)", (params.closeFee ?? 0) * 100],
+        ["资金费率 (%)", (params.fundingRate ?? 0) * 100],
+      ],
+    },
+    {
+      title: "爆仓",
+      rows: [
+        ["爆仓价格", result.liquidationPrice],
+        ["爆仓价格变化 (%)", result.liquidationPricePercent],
+        ["距爆仓幅度 (%)", result.riskPercentage],
+        ["标记价格", markPrice],
+        ["维持保证金率 (%)", result.maintenanceBracket.maintMarginRatio * 100],
+        [`维持保证金 (${marginAsset})`, result.maintenanceMargin],
+        ["分层最大杠杆", result.maxLeverage],
+      ],
+    },
+    {
+      title: "手续费",
+      rows: [
+        [`开仓手续费 (${marginAsset})`, result.openFeeAmount],
+        [`平仓手续费 (${marginAsset})`, result.closeFeeAmount],
+        [`总手续费 (${marginAsset})`, result.totalFeeAmount],
+      ],
+    },
+    {
+      title: "资金费",
+      rows: [
+        [`每周期资金费 (${marginAsset})`, result.fundingFeePerPeriod],
+        [`每日资金费 (${marginAsset})`, result.fundingFeePerDay],
+        [`已累计资金费 (${marginAsset})`, params.accumulatedFunding ?? 0],
+      ],
+    },
+    {
+      title: "头寸与盈亏",
+      rows: [
+        ["头寸价值 (USD)", result.positionSize],
+        ["头寸数量（币）", result.positionSizeInCoin],
+        [`最大损失 (${marginAsset})`, result.maxLoss],
+        ["保本价格", result.breakEvenPrice],
+        ["保本价格（含缓冲）", result.breakEvenPriceWithBuffer],
+      ],
+    },
+  ];
+}
+
+// 报告排版（pt）：页边距约16mm
+const MARGIN = 45;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 16;
+
+const TEXT: PdfColor = [0.12, 0.16, 0.23];
+const MUTED: PdfColor = [0.39, 0.45, 0.55];
+const RULE: PdfColor = [0.89, 0.91, 0.94];
+const PROFIT: PdfColor = [0.08, 0.5, 0.24];
+const LOSS: PdfColor = [0.73, 0.11, 0.11];
+const WARNING: PdfColor = [0.71, 0.33, 0.04];
+
+/**
+ * 自上而下排版，放不下时换页
+ */
+function createLayout() {
+  const pages: PdfOp[][] = [[]];
+  let y = MARGIN;
+  return {
+    pages,
+    // 预留高度，不够时换到新页
+    reserve(height: number) {
+      if (y + height > PDF_PAGE_HEIGHT - MARGIN) {
+        pages.push([]);
+        y = MARGIN;
+      }
+    },
+    advance(height: number) {
+      y += height;
+    },
+    text(x: number, offset: number, text: string, size: number, color: PdfColor = TEXT) {
+      pages[pages.length - 1].push({ type: "text", x, y: y + offset, text, size, color });
+    },
+    rule(offset: number, color: PdfColor = RULE, width = 0.5) {
+      pages[pages.length - 1].push({
+        type: "line",
+        x1: MARGIN,
+        y1: y + offset,
+        x2: MARGIN + CONTENT_WIDTH,
+        y2: y + offset,
+        width,
+        color,
+      });
+    },
+  };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+function heading(layout: Layout, title: string) {
+  // 标题和至少一行内容放在同一页
+  layout.reserve(28 + ROW_HEIGHT);
+  layout.advance(10);
+  layout.text(MARGIN, 12, title, 12);
+  layout.rule(17, MUTED);
+  layout.advance(18);
+}
+
+function tableRow(layout: Layout, cells: string[], columns: number[], color: PdfColor[]) {
+  layout.reserve(ROW_HEIGHT);
+  cells.forEach((cell, i) => {
+    layout.text(MARGIN + columns[i] * CONTENT_WIDTH + 4, 11, cell, 9.5, color[i]);
+  });
+  layout.rule(ROW_HEIGHT - 1);
+  layout.advance(ROW_HEIGHT);
+}
+
+function formatCell(value: ReportCell): string {
+  if (typeof value === "number") return isFinite(value) ? formatPrice(value) : "—";
+  return value ?? "—";
+}
+
+/**
+ * 风险报告PDF，与分享链接中的文件内容一致
+ */
+export function buildRiskReport(input: CalculationExportInput): ExportFile<"application/pdf"> {
+  const title = `${input.symbol} ${input.params.positionType === "long" ? "多头" : "空头"} ${
+    input.params.leverage
+  }x 风险报告`;
+  const layout = createLayout();
+
+  layout.text(MARGIN, 18, title, 18);
+  layout.advance(26);
+  layout.text(
+    MARGIN,
+    10,
+    `生成时间：${new Date().toLocaleString("zh-CN")} · 仅供参考，不构成投资建议`,
+    9,
+    MUTED
+  );
+  layout.advance(14);
+
+  for (const section of summarySections(input)) {
+    heading(layout, section.title);
+    for (const [label, value] of section.rows) {
+      tableRow(layout, [label, formatCell(value)], [0, 0.45], [MUTED, TEXT]);
+    }
+  }
+
+  heading(layout, "盈亏情景");
+  const columns = [0, 0.3, 0.55, 0.8];
+  tableRow(layout, ["情景", "价格", `盈亏 (${input.marginAsset})`, "收益率"], columns, [
+    TEXT,
+    TEXT,
+    TEXT,
+    TEXT,
+  ]);
+  for (const s of pnlScenarios(input.params, input.result)) {
+    const color = s.pnl >= 0 ? PROFIT : LOSS;
+    tableRow(
+      layout,
+      [s.label, formatPrice(s.price), formatPrice(s.pnl), formatPercent(s.roe)],
+      columns,
+      [color, color, color, color]
+    );
+  }
+
+  heading(layout, "风险提示");
+  const bulletIndent = 14;
+  for (const warning of calculationWarnings(input)) {
+    wrapPdfText(warning, 10, CONTENT_WIDTH - bulletIndent).forEach((line, i) => {
+      layout.reserve(15);
+      if (i === 0) layout.text(MARGIN + 2, 10, "●", 5, WARNING);
+      layout.text(MARGIN + bulletIndent, 11, line, 10, WARNING);
+      layout.advance(15);
+    });
+  }
+
+  return {
+    fileName: `${input.symbol}-risk-report-${exportTimestamp()}.pdf`,
+    contentType: "application/pdf",
+    content: buildPdf(layout.pages, title),
+  };
+}